@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+
+// 周 K 线增量同步校验：模拟东方财富连续两个交易日返回的周线（当周未完成的 K 线日期随最新交易日后移），
+// 用 scripts/stock_kline.sql 建表，在本地 SQLite 上跑 src/services/KlineCacheService.ts，
+// 检查当周只保留一根 K 线，且后续同步不会因锚点失配而重建
+// 用法: npm run check:kline（需 Node.js 22+，使用内置 node:sqlite）
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { DatabaseSync } from 'node:sqlite';
+import { build } from 'esbuild';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const { outputFiles } = await build({
+    stdin: {
+        contents: "export { KlineCacheService } from './src/services/KlineCacheService';\n"
+            + "export { EmKlineService } from './src/services/EmKlineService';\n",
+        resolveDir: root,
+        loader: 'ts',
+    },
+    bundle: true,
+    format: 'esm',
+    platform: 'neutral',
+    write: false,
+    logLevel: 'silent',
+});
+const { KlineCacheService, EmKlineService } = await import(
+    `data:text/javascript;base64,${Buffer.from(outputFiles[0].text).toString('base64')}`
+);
+
+// D1 接口的最小实现（prepare / bind / first / all / run / batch）
+const sqlite = new DatabaseSync(':memory:');
+sqlite.exec(readFileSync(`${root}scripts/stock_kline.sql`, 'utf8'));
+const prepare = (sql) => {
+    let params = [];
+    const statement = {
+        bind: (...args) => {
+            params = args.map(value => (value === undefined ? null : value));
+            return statement;
+        },
+        first: async () => sqlite.prepare(sql).get(...params) ?? null,
+        all: async () => ({ results: sqlite.prepare(sql).all(...params) }),
+        run: async () => ({ meta: { changes: Number(sqlite.prepare(sql).run(...params).changes) } }),
+    };
+    return statement;
+};
+const env = {
+    DB: {
+        prepare,
+        batch: async (statements) => {
+            const results = [];
+            for (const statement of statements) results.push(await statement.all());
+            return results;
+        },
+    },
+};
+
+// 节假日接口：一律按工作日返回，不访问网络
+globalThis.fetch = async () => Response.json({ code: 0, holiday: null });
+
+const bar = (date, close) => ({
+    '时间': date,
+    '开盘价': 10,
+    '收盘价': close,
+    '最高价': Math.max(10, close),
+    '最低价': Math.min(10, close),
+    '成交量': 1000,
+    '成交额': 10000,
+    '振幅': 1,
+    '涨跌幅': 0,
+    '涨跌额': 0,
+    '换手率': 0.1,
+});
+const completedWeeks = [
+    bar('2026-09-18', 10.1),
+    bar('2026-09-25', 10.2),
+    bar('2026-09-30', 10.3),
+    bar('2026-10-09', 10.4),
+];
+let marketBars = [];
+EmKlineService.getKLine = async ({ startDate, endDate, limit = 1000 }) => {
+    const start = startDate ? `${startDate.slice(0, 4)}-${startDate.slice(4, 6)}-${startDate.slice(6, 8)}` : '';
+    const end = endDate ? `${endDate.slice(0, 4)}-${endDate.slice(4, 6)}-${endDate.slice(6, 8)}` : '9999-12-31';
+    return marketBars.filter(row => row['时间'] >= start && row['时间'] <= end).slice(-limit);
+};
+
+const rebuilds = [];
+const warn = console.warn;
+console.warn = (...args) => {
+    const message = args.join(' ');
+    if (message.startsWith('[KlineCache]')) rebuilds.push(message);
+};
+
+const key = { symbol: '600519', klt: 102, fqt: 1 };
+const tradingDays = ['2026-10-12', '2026-10-13', '2026-10-14'];
+let result;
+for (const [index, day] of tradingDays.entries()) {
+    // 当周未完成的 K 线以最新交易日标记
+    marketBars = [...completedWeeks, bar(day, 10.5 + index * 0.1)];
+    sqlite.prepare('UPDATE stock_kline_sync SET fresh_until = 0').run();
+    result = await KlineCacheService.getKLine({ ...key, limit: 100 }, env);
+}
+console.warn = warn;
+
+const failures = [];
+const currentWeek = result.klines.filter(row => row['时间'] >= '2026-10-12');
+if (currentWeek.length !== 1) {
+    failures.push(`当周 K 线应为 1 根，实际 ${currentWeek.length} 根: ${currentWeek.map(row => row['时间']).join(', ')}`);
+}
+const last = result.klines[result.klines.length - 1];
+if (!last || last['时间'] !== '2026-10-14' || last['收盘价'] !== 10.7) {
+    failures.push(`最后一根 K 线应为 2026-10-14 收盘 10.7，实际 ${last ? `${last['时间']} 收盘 ${last['收盘价']}` : '无'}`);
+}
+if (result.klines.length !== completedWeeks.length + 1) {
+    failures.push(`K 线总数应为 ${completedWeeks.length + 1}，实际 ${result.klines.length}`);
+}
+if (rebuilds.length > 0) {
+    failures.push(`增量同步不应重建:\n${rebuilds.join('\n')}`);
+}
+
+if (failures.length > 0) {
+    console.error(failures.join('\n'));
+    process.exit(1);
+}
+
+console.log(`周 K 线增量同步校验通过: 连续 ${tradingDays.length} 个交易日同步后当周保留 1 根 K 线`);
@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+
+// 拼音首字母校验：用 src/utils/pinyin.ts 重新生成 scripts/stocks.sql 中每只股票的 pinyin 并逐条比对
+// 用法: npm run check:pinyin
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const source = readFileSync(`${root}src/utils/pinyin.ts`, 'utf8');
+const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+});
+const { getPinyinInitials } = await import(`data:text/javascript;base64,${Buffer.from(outputText).toString('base64')}`);
+
+const seed = readFileSync(`${root}scripts/stocks.sql`, 'utf8');
+const rowPattern = /^\('(\d{6})','((?:[^']|'')*)','([^']*)','[A-Z]+'\)/gm;
+
+let total = 0;
+const mismatches = [];
+for (const [, symbol, rawName, expected] of seed.matchAll(rowPattern)) {
+    total += 1;
+    const name = rawName.replace(/''/g, "'");
+    const actual = getPinyinInitials(name);
+    if (actual !== expected) {
+        mismatches.push(`${symbol} ${name}: 期望 ${expected}，生成 ${actual}`);
+    }
+}
+
+if (total === 0) {
+    console.error('未在 scripts/stocks.sql 中解析到股票数据');
+    process.exit(1);
+}
+
+if (mismatches.length > 0) {
+    console.error(mismatches.join('\n'));
+    console.error(`\n拼音首字母不一致: ${mismatches.length} / ${total}`);
+    process.exit(1);
+}
+
+console.log(`拼音首字母校验通过: ${total} 只股票`);
@@ -12,6 +12,7 @@ fi
 
 SQL_FILES=(
     "./scripts/stocks.sql"
+    "./scripts/stock_sync.sql"
     "./scripts/users.sql"
     "./scripts/user_settings.sql"
     "./scripts/scan_login.sql"
@@ -20,6 +21,9 @@ SQL_FILES=(
     "./scripts/stock_tags.sql"
     "./scripts/earnings_forecast.sql"
     "./scripts/stock_analysis.sql"
+    "./scripts/stock_kline.sql"
+    "./scripts/user_alerts.sql"
+    "./scripts/wechat_messages.sql"
 )
 
 echo "=== Cloudflare D1 数据库初始化 ==="
@@ -56,7 +60,10 @@ WHERE type='table'
   AND name IN (
     'stocks', 'users', 'user_stocks', 'user_settings',
     'scan_login_states', 'tags', 'news_tags',
-    'earnings_forecast', 'stock_analysis'
+    'earnings_forecast', 'stock_analysis',
+    'stock_kline', 'stock_kline_sync',
+    'user_alerts', 'user_alert_logs',
+    'wechat_message_logs'
   )
 ORDER BY name;"
 
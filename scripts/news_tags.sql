@@ -14,3 +14,7 @@ CREATE TABLE IF NOT EXISTS news_tags (
 -- 场景：给定 news_id，快速拿到利好/利空标签
 CREATE INDEX IF NOT EXISTS idx_news_tags_news_effect_created
 ON news_tags(news_id, effect_type, created_at DESC);
+
+-- 场景：给定 tag_code（可选 effect_type），按标注时间倒序取板块新闻（板块新闻列表、个性化推送）
+CREATE INDEX IF NOT EXISTS idx_news_tags_tag_effect_created
+ON news_tags(tag_code, effect_type, created_at DESC);
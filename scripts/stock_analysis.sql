@@ -1,6 +1,11 @@
 CREATE TABLE IF NOT EXISTS stock_analysis (
     symbol TEXT NOT NULL,
     analysis_time DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    -- 评价模式：intraday 日内短线 / swing 1-4 周波段 / quarterly 季度基本面
+    profile TEXT NOT NULL DEFAULT 'swing' CHECK (
+        profile IN ('intraday', 'swing', 'quarterly')
+    ),
     
     conclusion TEXT NOT NULL CHECK (
         conclusion IN ('重大利好', '利好', '中性', '利空', '重大利空')
@@ -19,3 +24,6 @@ CREATE TABLE IF NOT EXISTS stock_analysis (
 -- 查询优化索引
 CREATE INDEX IF NOT EXISTS idx_stock_analysis_time
 ON stock_analysis(analysis_time);
+
+CREATE INDEX IF NOT EXISTS idx_stock_analysis_symbol_profile_time
+ON stock_analysis(symbol, profile, analysis_time);
@@ -0,0 +1,36 @@
+-- 日 / 周 / 月 K 线持久化（分钟线仅缓存在 KV）
+CREATE TABLE IF NOT EXISTS stock_kline (
+    symbol TEXT NOT NULL,
+    klt INTEGER NOT NULL CHECK (klt IN (101, 102, 103)),
+    fqt INTEGER NOT NULL CHECK (fqt IN (0, 1, 2)),
+    trade_date TEXT NOT NULL,          -- YYYY-MM-DD，与东方财富返回的 时间 一致
+
+    open REAL,
+    close REAL,
+    high REAL,
+    low REAL,
+    volume REAL,
+    amount REAL,
+    amplitude REAL,
+    change_percent REAL,
+    change_amount REAL,
+    turnover_rate REAL,
+
+    PRIMARY KEY (symbol, klt, fqt, trade_date)
+);
+
+-- 每个 (symbol, klt, fqt) 的同步状态
+CREATE TABLE IF NOT EXISTS stock_kline_sync (
+    symbol TEXT NOT NULL,
+    klt INTEGER NOT NULL,
+    fqt INTEGER NOT NULL,
+    first_date TEXT NOT NULL,
+    last_date TEXT NOT NULL,
+    -- 1 表示已回溯到上市首根 K 线，不再向前补数
+    reached_start INTEGER NOT NULL DEFAULT 0 CHECK (reached_start IN (0, 1)),
+    synced_at DATETIME NOT NULL,
+    -- 毫秒时间戳，此前无需再增量回源
+    fresh_until INTEGER NOT NULL,
+
+    PRIMARY KEY (symbol, klt, fqt)
+);
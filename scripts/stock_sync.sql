@@ -0,0 +1,35 @@
+-- 股票简称变更历史：更名（含 ST 戴帽摘帽）与代码迁移（如北交所 8xx/4xx → 920xxx）
+CREATE TABLE IF NOT EXISTS stock_name_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    symbol TEXT NOT NULL,
+    change_type TEXT NOT NULL CHECK (change_type IN ('rename', 'code_change')),
+    old_name TEXT NOT NULL,
+    new_name TEXT NOT NULL,
+    -- code_change 时为迁移前的代码
+    related_symbol TEXT,
+    changed_at DATETIME NOT NULL
+);
+
+-- 场景：查询某只股票的曾用名
+CREATE INDEX IF NOT EXISTS idx_stock_name_history_symbol_time
+ON stock_name_history(symbol, changed_at DESC);
+
+-- 股票主数据同步记录：每次 sync_stocks 运行写入一条
+CREATE TABLE IF NOT EXISTS stock_sync_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    status TEXT NOT NULL CHECK (status IN ('success', 'partial', 'failed')),
+    fetched INTEGER NOT NULL DEFAULT 0,
+    inserted INTEGER NOT NULL DEFAULT 0,
+    renamed INTEGER NOT NULL DEFAULT 0,
+    market_changed INTEGER NOT NULL DEFAULT 0,
+    delisted INTEGER NOT NULL DEFAULT 0,
+    relisted INTEGER NOT NULL DEFAULT 0,
+    -- 变更明细 JSON 数组，最多保留 500 条
+    details TEXT,
+    error TEXT,
+    started_at DATETIME NOT NULL,
+    finished_at DATETIME NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_sync_logs_started
+ON stock_sync_logs(started_at DESC);
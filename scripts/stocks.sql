@@ -2,7 +2,10 @@ CREATE TABLE IF NOT EXISTS stocks (
     symbol TEXT PRIMARY KEY,
     name   TEXT NOT NULL,
     pinyin TEXT NOT NULL,
-    market TEXT NOT NULL
+    market TEXT NOT NULL,
+    -- 退市（东方财富列表中不再出现）时间，NULL 表示在市；由 sync_stocks 定时任务维护
+    delisted_at DATETIME,
+    updated_at  DATETIME
 );
 
 BEGIN;
@@ -78,7 +81,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('000403','派林生物','PLSW','SZ'),
 ('000404','长虹华意','CHHY','SZ'),
 ('000407','胜利股份','SLGF','SZ'),
-('000408','藏格矿业','CGKY','SZ'),
+('000408','藏格矿业','ZGKY','SZ'),
 ('000409','云鼎科技','YDKJ','SZ'),
 ('000410','沈阳机床','SYJC','SZ'),
 ('000411','英特集团','YTJT','SZ'),
@@ -306,7 +309,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('000815','美利云','MLY','SZ'),
 ('000816','智慧农业','ZHNY','SZ'),
 ('000818','航锦科技','HJKJ','SZ'),
-('000819','岳阳兴长','YYXZ','SZ'),
+('000819','岳阳兴长','YYXC','SZ'),
 ('000820','*ST节能','STJN','SZ'),
 ('000821','ST京机','STJJ','SZ'),
 ('000822','山东海化','SDHH','SZ'),
@@ -398,7 +401,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('000962','东方钽业','DFTY','SZ'),
 ('000963','华东医药','HDYY','SZ'),
 ('000965','天保基建','TBJJ','SZ'),
-('000966','长源电力','ZYDL','SZ'),
+('000966','长源电力','CYDL','SZ'),
 ('000967','盈峰环境','YFHJ','SZ'),
 ('000968','蓝焰控股','LYKG','SZ'),
 ('000969','安泰科技','ATKJ','SZ'),
@@ -960,7 +963,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('002448','中原内配','ZYNP','SZ'),
 ('002449','国星光电','GXGD','SZ'),
 ('002451','摩恩电气','MEDQ','SZ'),
-('002452','长高电新','ZGDX','SZ'),
+('002452','长高电新','CGDX','SZ'),
 ('002453','华软科技','HRKJ','SZ'),
 ('002454','松芝股份','SZGF','SZ'),
 ('002455','百川股份','BCGF','SZ'),
@@ -1349,7 +1352,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('002876','三利谱','SLP','SZ'),
 ('002877','智能自控','ZNZK','SZ'),
 ('002878','元隆雅图','YLYT','SZ'),
-('002879','长缆科技','ZLKJ','SZ'),
+('002879','长缆科技','CLKJ','SZ'),
 ('002880','卫光生物','WGSW','SZ'),
 ('002881','美格智能','MGZN','SZ'),
 ('002882','金龙羽','JLY','SZ'),
@@ -1442,7 +1445,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('002978','安宁股份','ANGF','SZ'),
 ('002979','雷赛智能','LSZN','SZ'),
 ('002980','华盛昌','HSC','SZ'),
-('002981','朝阳科技','ZYKJ','SZ'),
+('002981','朝阳科技','CYKJ','SZ'),
 ('002982','湘佳股份','XJGF','SZ'),
 ('002983','芯瑞达','XRD','SZ'),
 ('002984','森麒麟','SQL','SZ'),
@@ -1586,7 +1589,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('300085','银之杰','YZJ','SZ'),
 ('300086','康芝药业','KZYY','SZ'),
 ('300087','荃银高科','QYGK','SZ'),
-('300088','长信科技','ZXKJ','SZ'),
+('300088','长信科技','CXKJ','SZ'),
 ('300091','*ST金灵','STJL','SZ'),
 ('300092','科新机电','KXJD','SZ'),
 ('300093','*ST金刚','STJG','SZ'),
@@ -1608,7 +1611,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('300111','向日葵','XRK','SZ'),
 ('300112','万讯自控','WXZK','SZ'),
 ('300113','顺网科技','SWKJ','SZ'),
-('300115','长盈精密','ZYJM','SZ'),
+('300115','长盈精密','CYJM','SZ'),
 ('300118','东方日升','DFRS','SZ'),
 ('300119','瑞普生物','RPSW','SZ'),
 ('300120','经纬辉开','JWHK','SZ'),
@@ -1683,8 +1686,8 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('300192','科德教育','KDJY','SZ'),
 ('300193','佳士科技','JSKJ','SZ'),
 ('300194','福安药业','FAYY','SZ'),
-('300195','长荣股份','ZRGF','SZ'),
-('300196','长海股份','ZHGF','SZ'),
+('300195','长荣股份','CRGF','SZ'),
+('300196','长海股份','CHGF','SZ'),
 ('300197','节能铁汉','JNTH','SZ'),
 ('300198','ST纳川','STNC','SZ'),
 ('300199','翰宇药业','HYYY','SZ'),
@@ -1823,7 +1826,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('300345','华民股份','HMGF','SZ'),
 ('300346','南大光电','NDGD','SZ'),
 ('300347','泰格医药','TGYY','SZ'),
-('300348','长亮科技','ZLKJ','SZ'),
+('300348','长亮科技','CLKJ','SZ'),
 ('300349','金卡智能','JKZN','SZ'),
 ('300350','华鹏飞','HPF','SZ'),
 ('300351','永贵电器','YGDQ','SZ'),
@@ -1860,7 +1863,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('300388','节能国祯','JNGZ','SZ'),
 ('300389','艾比森','ABS','SZ'),
 ('300390','天华新能','THXN','SZ'),
-('300391','*ST长药','STZY','SZ'),
+('300391','*ST长药','STCY','SZ'),
 ('300393','中来股份','ZLGF','SZ'),
 ('300394','天孚通信','TFTX','SZ'),
 ('300395','菲利华','FLH','SZ'),
@@ -2011,7 +2014,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('300545','联得装备','LDZB','SZ'),
 ('300546','雄帝科技','XDKJ','SZ'),
 ('300547','川环科技','CHKJ','SZ'),
-('300548','长芯博创','ZXBC','SZ'),
+('300548','长芯博创','CXBC','SZ'),
 ('300549','优德精密','YDJM','SZ');
 
 INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
@@ -2178,7 +2181,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('300715','凯伦股份','KLGF','SZ'),
 ('300716','ST泉为','STQW','SZ'),
 ('300717','华信新材','HXXC','SZ'),
-('300718','长盛轴承','ZSZC','SZ'),
+('300718','长盛轴承','CSZC','SZ'),
 ('300719','安达维尔','ADWE','SZ'),
 ('300720','海川智能','HCZN','SZ'),
 ('300721','怡达股份','YDGF','SZ'),
@@ -2188,7 +2191,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('300725','药石科技','YSKJ','SZ'),
 ('300726','宏达电子','HDDZ','SZ'),
 ('300727','润禾材料','RHCL','SZ'),
-('300729','乐歌股份','YGGF','SZ'),
+('300729','乐歌股份','LGGF','SZ'),
 ('300730','科创信息','KCXX','SZ'),
 ('300731','科创新源','KCXY','SZ'),
 ('300732','设研院','SYY','SZ'),
@@ -2822,7 +2825,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('301515','港通医疗','GTYL','SZ'),
 ('301516','中远通','ZYT','SZ'),
 ('301517','陕西华达','SXHD','SZ'),
-('301518','长华化学','ZHHX','SZ'),
+('301518','长华化学','CHHX','SZ'),
 ('301519','舜禹股份','SYGF','SZ'),
 ('301520','万邦医药','WBYY','SZ'),
 ('301522','上大股份','SDGF','SZ'),
@@ -2880,7 +2883,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('301613','新铝时代','XLSD','SZ'),
 ('301616','浙江华业','ZJHY','SZ'),
 ('301617','博苑股份','BYGF','SZ'),
-('301618','长联科技','ZLKJ','SZ'),
+('301618','长联科技','CLKJ','SZ'),
 ('301622','英思特','YST','SZ'),
 ('301626','苏州天脉','SZTM','SZ'),
 ('301628','强达电路','QDDL','SZ'),
@@ -3286,7 +3289,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('600521','华海药业','HHYY','SH'),
 ('600522','中天科技','ZTKJ','SH'),
 ('600523','贵航股份','GHGF','SH'),
-('600525','ST长园','STZY','SH'),
+('600525','ST长园','STCY','SH'),
 ('600526','菲达环保','FDHB','SH'),
 ('600527','江南高纤','JNGX','SH'),
 ('600528','中铁工业','ZTGY','SH'),
@@ -3314,7 +3317,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('600558','大西洋','DXY','SH'),
 ('600559','老白干酒','LBGJ','SH'),
 ('600560','金自天正','JZTZ','SH'),
-('600561','江西长运','JXZY','SH'),
+('600561','江西长运','JXCY','SH'),
 ('600562','国睿科技','GRKJ','SH'),
 ('600563','法拉电子','FLDZ','SH'),
 ('600566','济川药业','JCYY','SH'),
@@ -3334,7 +3337,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('600581','八一钢铁','BYGT','SH'),
 ('600582','天地科技','TDKJ','SH'),
 ('600583','海油工程','HYGC','SH'),
-('600584','长电科技','ZDKJ','SH'),
+('600584','长电科技','CDKJ','SH'),
 ('600585','海螺水泥','HLSN','SH'),
 ('600586','金晶科技','JJKJ','SH'),
 ('600587','新华医疗','XHYL','SH'),
@@ -3391,7 +3394,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('600648','外高桥','WGQ','SH'),
 ('600649','城投控股','CTKG','SH'),
 ('600650','锦江在线','JJZX','SH'),
-('600651','飞乐音响','FYYX','SH'),
+('600651','飞乐音响','FLYX','SH'),
 ('600653','申华控股','SHKG','SH'),
 ('600654','中安科','ZAK','SH'),
 ('600655','豫园股份','YYGF','SH'),
@@ -3528,7 +3531,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('600810','神马股份','SMGF','SH'),
 ('600812','华北制药','HBZY','SH'),
 ('600814','杭州解百','HZJB','SH'),
-('600815','厦工股份','SGGF','SH'),
+('600815','厦工股份','XGGF','SH'),
 ('600816','建元信托','JYXT','SH'),
 ('600817','宇通重工','YTZG','SH'),
 ('600818','中路股份','ZLGF','SH'),
@@ -3560,7 +3563,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('600851','海欣股份','HXGF','SH'),
 ('600853','龙建股份','LJGF','SH'),
 ('600854','春兰股份','CLGF','SH'),
-('600855','航天长峰','HTZF','SH'),
+('600855','航天长峰','HTCF','SH'),
 ('600857','宁波中百','NBZB','SH'),
 ('600858','银座股份','YZGF','SH'),
 ('600859','王府井','WFJ','SH'),
@@ -3840,7 +3843,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('601865','福莱特','FLT','SH'),
 ('601866','中远海发','ZYHF','SH'),
 ('601868','中国能建','ZGNJ','SH'),
-('601869','长飞光纤','ZFGX','SH'),
+('601869','长飞光纤','CFGX','SH'),
 ('601872','招商轮船','ZSLC','SH'),
 ('601877','正泰电器','ZTDQ','SH'),
 ('601878','浙商证券','ZSZQ','SH'),
@@ -4408,7 +4411,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('603848','好太太','HTT','SH'),
 ('603855','华荣股份','HRGF','SH'),
 ('603856','东宏股份','DHGF','SH'),
-('603858','步长制药','BZZY','SH'),
+('603858','步长制药','BCZY','SH'),
 ('603859','能科科技','NKKJ','SH'),
 ('603860','中公高科','ZGGK','SH'),
 ('603861','白云电器','BYDQ','SH'),
@@ -4464,7 +4467,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('603939','益丰药房','YFYF','SH'),
 ('603948','建业股份','JYGF','SH'),
 ('603949','雪龙集团','XLJT','SH'),
-('603950','长源东谷','ZYDG','SH'),
+('603950','长源东谷','CYDG','SH'),
 ('603955','大千生态','DQST','SH'),
 ('603956','威派格','WPG','SH'),
 ('603958','哈森股份','HSGF','SH'),
@@ -4500,11 +4503,11 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('605005','合兴股份','HXGF','SH'),
 ('605006','山东玻纤','SDBX','SH'),
 ('605007','五洲特纸','WZTZ','SH'),
-('605008','长鸿高科','ZHGK','SH'),
+('605008','长鸿高科','CHGK','SH'),
 ('605009','豪悦护理','HYHL','SH'),
 ('605011','杭州热电','HZRD','SH'),
 ('605016','百龙创园','BLCY','SH'),
-('605018','长华集团','ZHJT','SH'),
+('605018','长华集团','CHJT','SH'),
 ('605020','永和股份','YHGF','SH'),
 ('605028','世茂能源','SMNY','SH'),
 ('605033','美邦股份','MBGF','SH'),
@@ -4594,7 +4597,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('605377','华旺科技','HWKJ','SH'),
 ('605378','野马电池','YMDC','SH'),
 ('605388','均瑶健康','JYJK','SH'),
-('605389','长龄液压','ZLYY','SH'),
+('605389','长龄液压','CLYY','SH'),
 ('605398','新炬网络','XJWL','SH'),
 ('605399','晨光新材','CGXC','SH'),
 ('605488','福莱新材','FLXC','SH'),
@@ -4944,7 +4947,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('688045','必易微','BYW','SH'),
 ('688046','药康生物','YKSW','SH'),
 ('688047','龙芯中科','LXZK','SH'),
-('688048','长光华芯','ZGHX','SH'),
+('688048','长光华芯','CGHX','SH'),
 ('688049','炬芯科技','JXKJ','SH'),
 ('688050','爱博医疗','ABYL','SH'),
 ('688051','佳华科技','JHKJ','SH'),
@@ -5029,7 +5032,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('688138','清溢光电','QYGD','SH'),
 ('688139','海尔生物','HESW','SH'),
 ('688141','杰华特','JHT','SH'),
-('688143','长盈通','ZYT','SH'),
+('688143','长盈通','CYT','SH'),
 ('688146','中船特气','ZCTQ','SH'),
 ('688147','微导纳米','WDNM','SH'),
 ('688148','芳源股份','FYGF','SH'),
@@ -5163,7 +5166,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('688296','和达科技','HDKJ','SH'),
 ('688297','中无人机','ZWRJ','SH'),
 ('688298','东方生物','DFSW','SH'),
-('688299','长阳科技','ZYKJ','SH'),
+('688299','长阳科技','CYKJ','SH'),
 ('688300','联瑞新材','LRXC','SH'),
 ('688301','奕瑞科技','YRKJ','SH'),
 ('688302','海创药业','HCYY','SH'),
@@ -5484,7 +5487,7 @@ INSERT OR IGNORE INTO stocks (symbol, name, pinyin, market) VALUES
 ('688775','影石创新','YSCX','SH'),
 ('688776','国光电气','GGDQ','SH'),
 ('688777','中控技术','ZKJS','SH'),
-('688778','厦钨新能','SWXN','SH'),
+('688778','厦钨新能','XWXN','SH'),
 ('688779','五矿新能','WKXN','SH'),
 ('688783','西安奕材','XAYC','SH'),
 ('688785','恒运昌','HYC','SH'),
@@ -0,0 +1,34 @@
+-- 修正 stocks 表中拼音首字母有误的股票（已有数据库执行；新建数据库的 scripts/stocks.sql 已包含修正）
+UPDATE stocks SET pinyin = 'ZGKY' WHERE symbol = '000408'; -- 藏格矿业
+UPDATE stocks SET pinyin = 'YYXC' WHERE symbol = '000819'; -- 岳阳兴长
+UPDATE stocks SET pinyin = 'CYDL' WHERE symbol = '000966'; -- 长源电力
+UPDATE stocks SET pinyin = 'CGDX' WHERE symbol = '002452'; -- 长高电新
+UPDATE stocks SET pinyin = 'CLKJ' WHERE symbol = '002879'; -- 长缆科技
+UPDATE stocks SET pinyin = 'CYKJ' WHERE symbol = '002981'; -- 朝阳科技
+UPDATE stocks SET pinyin = 'CXKJ' WHERE symbol = '300088'; -- 长信科技
+UPDATE stocks SET pinyin = 'CYJM' WHERE symbol = '300115'; -- 长盈精密
+UPDATE stocks SET pinyin = 'CRGF' WHERE symbol = '300195'; -- 长荣股份
+UPDATE stocks SET pinyin = 'CHGF' WHERE symbol = '300196'; -- 长海股份
+UPDATE stocks SET pinyin = 'CLKJ' WHERE symbol = '300348'; -- 长亮科技
+UPDATE stocks SET pinyin = 'STCY' WHERE symbol = '300391'; -- *ST长药
+UPDATE stocks SET pinyin = 'CXBC' WHERE symbol = '300548'; -- 长芯博创
+UPDATE stocks SET pinyin = 'CSZC' WHERE symbol = '300718'; -- 长盛轴承
+UPDATE stocks SET pinyin = 'LGGF' WHERE symbol = '300729'; -- 乐歌股份
+UPDATE stocks SET pinyin = 'CHHX' WHERE symbol = '301518'; -- 长华化学
+UPDATE stocks SET pinyin = 'CLKJ' WHERE symbol = '301618'; -- 长联科技
+UPDATE stocks SET pinyin = 'STCY' WHERE symbol = '600525'; -- ST长园
+UPDATE stocks SET pinyin = 'JXCY' WHERE symbol = '600561'; -- 江西长运
+UPDATE stocks SET pinyin = 'CDKJ' WHERE symbol = '600584'; -- 长电科技
+UPDATE stocks SET pinyin = 'FLYX' WHERE symbol = '600651'; -- 飞乐音响
+UPDATE stocks SET pinyin = 'XGGF' WHERE symbol = '600815'; -- 厦工股份
+UPDATE stocks SET pinyin = 'HTCF' WHERE symbol = '600855'; -- 航天长峰
+UPDATE stocks SET pinyin = 'CFGX' WHERE symbol = '601869'; -- 长飞光纤
+UPDATE stocks SET pinyin = 'BCZY' WHERE symbol = '603858'; -- 步长制药
+UPDATE stocks SET pinyin = 'CYDG' WHERE symbol = '603950'; -- 长源东谷
+UPDATE stocks SET pinyin = 'CHGK' WHERE symbol = '605008'; -- 长鸿高科
+UPDATE stocks SET pinyin = 'CHJT' WHERE symbol = '605018'; -- 长华集团
+UPDATE stocks SET pinyin = 'CLYY' WHERE symbol = '605389'; -- 长龄液压
+UPDATE stocks SET pinyin = 'CGHX' WHERE symbol = '688048'; -- 长光华芯
+UPDATE stocks SET pinyin = 'CYT' WHERE symbol = '688143'; -- 长盈通
+UPDATE stocks SET pinyin = 'CYKJ' WHERE symbol = '688299'; -- 长阳科技
+UPDATE stocks SET pinyin = 'XWXN' WHERE symbol = '688778'; -- 厦钨新能
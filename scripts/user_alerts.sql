@@ -0,0 +1,53 @@
+CREATE TABLE IF NOT EXISTS user_alerts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    openid TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    alert_type TEXT NOT NULL CHECK (
+        alert_type IN ('price_above', 'price_below', 'change_up', 'change_down', 'volume_ratio_above', 'limit_up', 'limit_down')
+    ),
+    -- limit_up / limit_down 无需阈值
+    threshold REAL,
+    note TEXT,
+    enabled INTEGER NOT NULL DEFAULT 1 CHECK (enabled IN (0, 1)),
+    -- 1 表示条件当前处于满足状态：已触发过一次，条件解除后重置为 0 才会再次触发
+    triggered INTEGER NOT NULL DEFAULT 0 CHECK (triggered IN (0, 1)),
+    last_triggered_at DATETIME,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (openid) REFERENCES users(openid)
+        ON DELETE CASCADE
+        ON UPDATE CASCADE
+);
+
+-- 场景：用户查看自己的提醒列表
+CREATE INDEX IF NOT EXISTS idx_user_alerts_openid_created
+ON user_alerts(openid, created_at DESC);
+
+-- 场景：定时任务拉取全部启用中的提醒
+CREATE INDEX IF NOT EXISTS idx_user_alerts_enabled_symbol
+ON user_alerts(enabled, symbol);
+
+-- 提醒触发记录：每次条件由不满足变为满足时写入一条
+CREATE TABLE IF NOT EXISTS user_alert_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    alert_id INTEGER NOT NULL,
+    openid TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    alert_type TEXT NOT NULL,
+    threshold REAL,
+    -- 触发时的指标值（价格 / 涨跌幅 / 量比）
+    trigger_value REAL,
+    price REAL,
+    message TEXT NOT NULL,
+    delivery_status TEXT NOT NULL DEFAULT 'pending' CHECK (
+        delivery_status IN ('pending', 'sent', 'skipped', 'failed')
+    ),
+    triggered_at DATETIME NOT NULL,
+
+    FOREIGN KEY (alert_id) REFERENCES user_alerts(id)
+        ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_alert_logs_openid_time
+ON user_alert_logs(openid, triggered_at DESC);
@@ -0,0 +1,34 @@
+CREATE TABLE IF NOT EXISTS users (
+    openid TEXT PRIMARY KEY,
+    nickname TEXT NOT NULL DEFAULT '',
+    avatar_url TEXT NOT NULL DEFAULT '',
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    -- 公众号关注状态：1 已关注 / 0 已取消关注 / NULL 未知（尚未收到事件或同步）
+    subscribed INTEGER CHECK (subscribed IN (0, 1)),
+    subscribed_at DATETIME,
+    unsubscribed_at DATETIME,
+    -- 带参二维码场景值，或微信返回的关注渠道（ADD_SCENE_*）
+    subscribe_scene TEXT,
+    -- 最近一次定时任务同步关注状态的时间
+    subscription_synced_at DATETIME
+);
+
+-- 场景：定时任务按同步时间挑选待同步用户
+CREATE INDEX IF NOT EXISTS idx_users_subscription_synced
+ON users(subscription_synced_at);
+
+CREATE TABLE IF NOT EXISTS user_stocks (
+    openid TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (openid, symbol),
+
+    FOREIGN KEY (openid) REFERENCES users(openid)
+        ON DELETE CASCADE
+        ON UPDATE CASCADE
+);
+
+-- 场景：统计热门自选股
+CREATE INDEX IF NOT EXISTS idx_user_stocks_symbol
+ON user_stocks(symbol);
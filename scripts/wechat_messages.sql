@@ -0,0 +1,26 @@
+-- 公众号消息发送记录：模板消息 / 客服消息，每次发送（含跳过）写入一条
+CREATE TABLE IF NOT EXISTS wechat_message_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    openid TEXT NOT NULL,
+    channel TEXT NOT NULL CHECK (channel IN ('template', 'custom')),
+    -- 业务类型：alert / analysis / daily_brief / command / test
+    category TEXT NOT NULL,
+    template_id TEXT,
+    -- 发送的消息体（JSON）
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('sent', 'skipped', 'failed')),
+    errcode INTEGER,
+    errmsg TEXT,
+    msgid TEXT,
+    -- access_token 失效后的重试次数
+    retries INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 场景：按用户查看发送记录
+CREATE INDEX IF NOT EXISTS idx_wechat_message_logs_openid_time
+ON wechat_message_logs(openid, created_at DESC);
+
+-- 场景：按业务类型统计发送结果
+CREATE INDEX IF NOT EXISTS idx_wechat_message_logs_category_time
+ON wechat_message_logs(category, created_at DESC);
@@ -12,6 +12,39 @@ export const STOCK_QUOTE_FUNDAMENTAL_CACHE_KEY_PREFIX = 'stock_quote:fundamental
 export const STOCK_QUOTE_CORE_TRADING_TTL_SECONDS = 60;
 export const STOCK_QUOTE_ACTIVITY_TRADING_TTL_SECONDS = 60;
 export const STOCK_QUOTE_FUNDAMENTAL_TRADING_TTL_SECONDS = 60;
+export const CRON_JOB_STATUS_CACHE_KEY_PREFIX = 'cron_job_status:';
+export const CRON_JOB_STATUS_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+export const NEWS_TAGS_PROCESSED_CACHE_KEY_PREFIX = 'news_tags_processed:';
+export const NEWS_TAGS_PROCESSED_CACHE_TTL_SECONDS = 3 * 24 * 60 * 60;
+export const STOCK_KLINE_INTRADAY_CACHE_KEY_PREFIX = 'stock_kline:';
+export const STOCK_KLINE_INTRADAY_TRADING_TTL_SECONDS = 60;
+export const STOCK_KLINE_SYNC_TRADING_TTL_SECONDS = 60;
+export const MARKET_OVERVIEW_CACHE_KEY = 'market_overview:v1';
+export const MARKET_LIMIT_POOL_CACHE_KEY_PREFIX = 'market_limit_pool:';
+export const MARKET_TRADING_TTL_SECONDS = 60;
+export const TAG_RANK_CACHE_KEY_PREFIX = 'tag_rank:';
+export const TAG_RANK_TRADING_TTL_SECONDS = 60;
+export const STOCK_FUNDFLOW_CACHE_KEY_PREFIX = 'stock_fundflow:';
+export const STOCK_FUNDFLOW_TRADING_TTL_SECONDS = 60;
+export const STOCK_TRENDS_CACHE_KEY_PREFIX = 'stock_trends:';
+export const STOCK_TRENDS_TRADING_TTL_SECONDS = 60;
+export const MARKET_SNAPSHOT_CACHE_KEY_PREFIX = 'market_snapshot:';
+export const MARKET_SNAPSHOT_TRADING_TTL_SECONDS = 120;
+export const STOCK_ORDERBOOK_CACHE_KEY_PREFIX = 'stock_orderbook:';
+export const STOCK_TICKS_CACHE_KEY_PREFIX = 'stock_ticks:';
+/** 盘口 / 逐笔缓存的有效期（秒），KV TTL 最短 60 秒，读取时按写入时间判断是否仍有效 */
+export const STOCK_ORDERBOOK_FRESH_SECONDS = 3;
+export const STOCK_TICKS_FRESH_SECONDS = 3;
+export const FUND_QUOTE_CACHE_KEY_PREFIX = 'fund_quote:';
+export const FUND_QUOTE_TRADING_TTL_SECONDS = 60;
+export const FUND_NAV_CACHE_KEY_PREFIX = 'fund_nav:';
+/** 净值每个交易日晚间公布一次，固定缓存 1 小时 */
+export const FUND_NAV_CACHE_TTL_SECONDS = 60 * 60;
+export const CBOND_LIST_CACHE_KEY_PREFIX = 'cbond_list:';
+export const CBOND_DETAIL_CACHE_KEY_PREFIX = 'cbond_detail:';
+export const CBOND_TRADING_TTL_SECONDS = 60;
+export const CBOND_INFO_CACHE_KEY = 'cbond_info:v2';
+export const CBOND_INFO_CACHE_TTL_SECONDS = 24 * 60 * 60;
 
 export interface TimestampedCachePayload<TData = Record<string, any>> {
     timestamp: number;
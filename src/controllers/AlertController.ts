@@ -0,0 +1,394 @@
+import { createResponse } from '../utils/response';
+import { isValidSecuritySymbol } from '../utils/validator';
+import { AlertService, AlertRow, AlertType } from '../services/AlertService';
+import { UserController } from './UserController';
+import type { Env } from '../index';
+
+interface AlertInput {
+    symbol?: string;
+    alertType?: AlertType;
+    threshold?: number | null;
+    note?: string | null;
+    enabled?: 0 | 1;
+}
+
+interface AlertLogRow {
+    id: number;
+    alert_id: number;
+    symbol: string;
+    stock_name: string | null;
+    alert_type: AlertType;
+    threshold: number | null;
+    trigger_value: number | null;
+    price: number | null;
+    message: string;
+    delivery_status: string;
+    triggered_at: string;
+}
+
+/**
+ * 用户行情提醒接口
+ * RESTful 路径: /api/users/me/alerts
+ */
+export class AlertController {
+    /** 单个用户最多提醒数量 */
+    private static readonly MAX_ALERTS_PER_USER = 50;
+    private static readonly MAX_NOTE_LENGTH = 50;
+    private static readonly LOG_DEFAULT_PAGE_SIZE = 20;
+    private static readonly LOG_MAX_PAGE_SIZE = 100;
+
+    private static log(stage: string, message: string, data?: any): void {
+        const ts = new Date().toISOString();
+        const detail = data !== undefined ? ` | ${JSON.stringify(data)}` : '';
+        console.log(`[Alert][${stage}] ${ts} ${message}${detail}`);
+    }
+
+    private static mapAlertRow(row: AlertRow): Record<string, any> {
+        return {
+            '提醒ID': row.id,
+            '股票代码': row.symbol,
+            '股票简称': row.stock_name || null,
+            '提醒类型': row.alert_type,
+            '提醒条件': AlertService.describeCondition(row.alert_type, row.threshold),
+            '阈值': row.threshold,
+            '备注': row.note || '',
+            '启用': Number(row.enabled) === 1,
+            '已触发': Number(row.triggered) === 1,
+            '最近触发时间': row.last_triggered_at || null,
+            '创建时间': row.created_at,
+            '更新时间': row.updated_at,
+        };
+    }
+
+    private static mapLogRow(row: AlertLogRow): Record<string, any> {
+        return {
+            '记录ID': row.id,
+            '提醒ID': row.alert_id,
+            '股票代码': row.symbol,
+            '股票简称': row.stock_name || null,
+            '提醒类型': row.alert_type,
+            '阈值': row.threshold,
+            '触发值': row.trigger_value,
+            '触发价格': row.price,
+            '消息': row.message,
+            '推送状态': row.delivery_status,
+            '触发时间': row.triggered_at,
+        };
+    }
+
+    /**
+     * 解析提醒请求体；partial 为 true 时（更新）所有字段可选
+     */
+    private static parseAlertInput(body: any, partial: boolean): AlertInput | { error: string } {
+        if (!body || typeof body !== 'object' || Array.isArray(body)) {
+            return { error: '请求体必须是 JSON 对象' };
+        }
+
+        const input: AlertInput = {};
+
+        if (body.symbol !== undefined || !partial) {
+            const symbol = String(body.symbol ?? '').trim();
+            if (!isValidSecuritySymbol(symbol)) {
+                return { error: 'Invalid symbol - 仅支持 A股 / ETF / LOF / 可转债的6位代码' };
+            }
+            input.symbol = symbol;
+        }
+
+        if (body.type !== undefined || !partial) {
+            const type = String(body.type ?? '').trim();
+            if (!AlertService.isAlertType(type)) {
+                return { error: `Invalid type - type 必须是 ${Object.keys(AlertService.ALERT_TYPE_LABELS).join('/')} 之一` };
+            }
+            input.alertType = type;
+        }
+
+        if (body.threshold !== undefined && body.threshold !== null && body.threshold !== '') {
+            const threshold = Number(body.threshold);
+            if (!Number.isFinite(threshold) || threshold <= 0) {
+                return { error: 'Invalid threshold - threshold 必须是大于0的数字' };
+            }
+            input.threshold = threshold;
+        } else if (body.threshold === null) {
+            input.threshold = null;
+        }
+
+        if (body.note !== undefined) {
+            const note = body.note === null ? '' : String(body.note).trim();
+            if (note.length > this.MAX_NOTE_LENGTH) {
+                return { error: `Invalid note - note 最多 ${this.MAX_NOTE_LENGTH} 个字符` };
+            }
+            input.note = note || null;
+        }
+
+        if (body.enabled !== undefined) {
+            if (typeof body.enabled === 'boolean') {
+                input.enabled = body.enabled ? 1 : 0;
+            } else if (body.enabled === 0 || body.enabled === 1) {
+                input.enabled = body.enabled;
+            } else {
+                return { error: 'Invalid enabled - enabled 必须是 boolean 或 0/1' };
+            }
+        }
+
+        return input;
+    }
+
+    /** 校验类型与阈值组合，返回需写入的阈值 */
+    private static resolveThreshold(type: AlertType, threshold: number | null | undefined): number | null | { error: string } {
+        if (!AlertService.requiresThreshold(type)) return null;
+        if (threshold === undefined || threshold === null) {
+            return { error: `Invalid threshold - ${type} 类型必须指定 threshold` };
+        }
+        return threshold;
+    }
+
+    private static async readJson(request: Request): Promise<any | undefined> {
+        try {
+            return await request.json();
+        } catch {
+            return undefined;
+        }
+    }
+
+    private static async getAlertById(openid: string, alertId: number, env: Env): Promise<AlertRow | null> {
+        return env.DB
+            .prepare(
+                `SELECT a.id, a.openid, a.symbol, s.name AS stock_name, a.alert_type, a.threshold, a.note,
+                        a.enabled, a.triggered, a.last_triggered_at, a.created_at, a.updated_at
+                 FROM user_alerts a
+                 LEFT JOIN stocks s ON s.symbol = a.symbol
+                 WHERE a.id = ?1 AND a.openid = ?2`
+            )
+            .bind(alertId, openid)
+            .first<AlertRow>();
+    }
+
+    /**
+     * 提醒列表 / 新建提醒
+     * GET  /api/users/me/alerts?symbol=
+     * POST /api/users/me/alerts
+     */
+    static async handleAlerts(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+        if (request.method !== 'GET' && request.method !== 'POST') {
+            return createResponse(405, 'Method Not Allowed - 仅支持 GET/POST');
+        }
+
+        const auth = await UserController.requireAuth(request, env);
+        if (!auth.ok) {
+            return createResponse(auth.code, auth.message);
+        }
+        const { openid } = auth;
+
+        if (request.method === 'GET') {
+            const symbol = (new URL(request.url).searchParams.get('symbol') || '').trim();
+            if (symbol && !isValidSecuritySymbol(symbol)) {
+                return createResponse(400, 'Invalid symbol - 仅支持 A股 / ETF / LOF / 可转债的6位代码');
+            }
+
+            const { results } = await env.DB
+                .prepare(
+                    `SELECT a.id, a.openid, a.symbol, s.name AS stock_name, a.alert_type, a.threshold, a.note,
+                            a.enabled, a.triggered, a.last_triggered_at, a.created_at, a.updated_at
+                     FROM user_alerts a
+                     LEFT JOIN stocks s ON s.symbol = a.symbol
+                     WHERE a.openid = ?1 AND (?2 = '' OR a.symbol = ?2)
+                     ORDER BY a.created_at DESC, a.id DESC`
+                )
+                .bind(openid, symbol)
+                .all<AlertRow>();
+            const alerts = results || [];
+
+            return createResponse(200, 'success', {
+                '提醒数量': alerts.length,
+                '提醒列表': alerts.map(row => this.mapAlertRow(row)),
+            });
+        }
+
+        const parsed = this.parseAlertInput(await this.readJson(request), false);
+        if ('error' in parsed) {
+            return createResponse(400, parsed.error);
+        }
+        const alertType = parsed.alertType as AlertType;
+        const threshold = this.resolveThreshold(alertType, parsed.threshold);
+        if (threshold !== null && typeof threshold === 'object') {
+            return createResponse(400, threshold.error);
+        }
+
+        const countRow = await env.DB
+            .prepare('SELECT COUNT(*) AS total FROM user_alerts WHERE openid = ?1')
+            .bind(openid)
+            .first<{ total: number }>();
+        if ((countRow?.total || 0) >= this.MAX_ALERTS_PER_USER) {
+            return createResponse(400, `提醒数量已达上限 ${this.MAX_ALERTS_PER_USER}`);
+        }
+
+        const inserted = await env.DB
+            .prepare(
+                `INSERT INTO user_alerts (openid, symbol, alert_type, threshold, note, enabled)
+                 VALUES (?1, ?2, ?3, ?4, ?5, ?6)
+                 RETURNING id`
+            )
+            .bind(openid, parsed.symbol, alertType, threshold, parsed.note ?? null, parsed.enabled ?? 1)
+            .first<{ id: number }>();
+
+        const alert = inserted ? await this.getAlertById(openid, inserted.id, env) : null;
+        if (!alert) {
+            return createResponse(500, '提醒创建失败');
+        }
+
+        this.log('create', '✅ 提醒创建完成', { openid, id: alert.id, symbol: alert.symbol, type: alert.alert_type });
+        return createResponse(200, 'success', this.mapAlertRow(alert));
+    }
+
+    /**
+     * 单个提醒：查询 / 更新 / 删除
+     * GET    /api/users/me/alerts/:id
+     * PUT    /api/users/me/alerts/:id
+     * DELETE /api/users/me/alerts/:id
+     */
+    static async handleAlert(alertIdRaw: string, request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+        if (!['GET', 'PUT', 'DELETE'].includes(request.method)) {
+            return createResponse(405, 'Method Not Allowed - 仅支持 GET/PUT/DELETE');
+        }
+
+        const alertId = Number(alertIdRaw);
+        if (!Number.isInteger(alertId) || alertId < 1) {
+            return createResponse(400, 'Invalid ID - ID 必须是数字');
+        }
+
+        const auth = await UserController.requireAuth(request, env);
+        if (!auth.ok) {
+            return createResponse(auth.code, auth.message);
+        }
+        const { openid } = auth;
+
+        const existing = await this.getAlertById(openid, alertId, env);
+        if (!existing) {
+            return createResponse(404, `提醒不存在: ${alertId}`);
+        }
+
+        if (request.method === 'GET') {
+            return createResponse(200, 'success', this.mapAlertRow(existing));
+        }
+
+        if (request.method === 'DELETE') {
+            await env.DB
+                .prepare('DELETE FROM user_alerts WHERE id = ?1 AND openid = ?2')
+                .bind(alertId, openid)
+                .run();
+            this.log('delete', '✅ 提醒删除完成', { openid, id: alertId });
+            return createResponse(200, 'success', { '提醒ID': alertId });
+        }
+
+        const parsed = this.parseAlertInput(await this.readJson(request), true);
+        if ('error' in parsed) {
+            return createResponse(400, parsed.error);
+        }
+
+        const symbol = parsed.symbol ?? existing.symbol;
+        const alertType = parsed.alertType ?? existing.alert_type;
+        const threshold = this.resolveThreshold(
+            alertType,
+            parsed.threshold !== undefined ? parsed.threshold : existing.threshold,
+        );
+        if (threshold !== null && typeof threshold === 'object') {
+            return createResponse(400, threshold.error);
+        }
+        const note = parsed.note !== undefined ? parsed.note : existing.note;
+        const enabled = parsed.enabled ?? existing.enabled;
+
+        // 修改条件后重新布防，下一次满足时再次触发
+        await env.DB
+            .prepare(
+                `UPDATE user_alerts
+                 SET symbol = ?3, alert_type = ?4, threshold = ?5, note = ?6, enabled = ?7,
+                     triggered = 0, updated_at = CURRENT_TIMESTAMP
+                 WHERE id = ?1 AND openid = ?2`
+            )
+            .bind(alertId, openid, symbol, alertType, threshold, note, enabled)
+            .run();
+
+        const updated = await this.getAlertById(openid, alertId, env);
+        return createResponse(200, 'success', updated ? this.mapAlertRow(updated) : null);
+    }
+
+    /**
+     * 提醒触发记录
+     * GET /api/users/me/alerts/logs?alertId=&page=&pageSize=
+     */
+    static async getAlertLogs(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+        if (request.method !== 'GET') {
+            return createResponse(405, 'Method Not Allowed - 仅支持 GET');
+        }
+
+        const auth = await UserController.requireAuth(request, env);
+        if (!auth.ok) {
+            return createResponse(auth.code, auth.message);
+        }
+        const { openid } = auth;
+
+        const url = new URL(request.url);
+        const alertIdRaw = (url.searchParams.get('alertId') || '').trim();
+        const pageRaw = (url.searchParams.get('page') || '').trim();
+        const pageSizeRaw = (url.searchParams.get('pageSize') || '').trim();
+
+        let alertId: number | null = null;
+        if (alertIdRaw) {
+            alertId = Number(alertIdRaw);
+            if (!Number.isInteger(alertId) || alertId < 1) {
+                return createResponse(400, 'Invalid alertId - alertId 必须是大于0的整数');
+            }
+        }
+
+        let page = 1;
+        if (pageRaw) {
+            page = Number(pageRaw);
+            if (!Number.isInteger(page) || page < 1) {
+                return createResponse(400, 'Invalid page - page 必须是大于0的整数');
+            }
+        }
+
+        let pageSize = this.LOG_DEFAULT_PAGE_SIZE;
+        if (pageSizeRaw) {
+            pageSize = Number(pageSizeRaw);
+            if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > this.LOG_MAX_PAGE_SIZE) {
+                return createResponse(400, `Invalid pageSize - pageSize 必须是 1-${this.LOG_MAX_PAGE_SIZE} 的整数`);
+            }
+        }
+
+        try {
+            const countRow = await env.DB
+                .prepare(
+                    `SELECT COUNT(*) AS total
+                     FROM user_alert_logs
+                     WHERE openid = ?1 AND (?2 IS NULL OR alert_id = ?2)`
+                )
+                .bind(openid, alertId)
+                .first<{ total: number }>();
+            const total = countRow?.total || 0;
+
+            const { results } = await env.DB
+                .prepare(
+                    `SELECT l.id, l.alert_id, l.symbol, s.name AS stock_name, l.alert_type, l.threshold,
+                            l.trigger_value, l.price, l.message, l.delivery_status, l.triggered_at
+                     FROM user_alert_logs l
+                     LEFT JOIN stocks s ON s.symbol = l.symbol
+                     WHERE l.openid = ?1 AND (?2 IS NULL OR l.alert_id = ?2)
+                     ORDER BY l.triggered_at DESC, l.id DESC
+                     LIMIT ?3 OFFSET ?4`
+                )
+                .bind(openid, alertId, pageSize, (page - 1) * pageSize)
+                .all<AlertLogRow>();
+
+            return createResponse(200, 'success', {
+                '当前页': page,
+                '每页数量': pageSize,
+                '总数量': total,
+                '总页数': Math.ceil(total / pageSize),
+                '触发记录': (results || []).map(row => this.mapLogRow(row)),
+            });
+        } catch (err: any) {
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+}
@@ -220,6 +220,7 @@ export class AuthController {
 
     /**
      * 查询或新建用户（UPSERT）
+     * 昵称头像只能从网页授权获取，拉取失败（为空）时保留已有资料
      */
     private static async upsertUser(db: D1Database, openid: string, nickname: string, avatarUrl: string): Promise<void> {
         await db
@@ -227,8 +228,8 @@ export class AuthController {
                 `INSERT INTO users (openid, nickname, avatar_url)
                  VALUES (?1, ?2, ?3)
                  ON CONFLICT(openid) DO UPDATE SET
-                     nickname = excluded.nickname,
-                     avatar_url = excluded.avatar_url`,
+                     nickname = CASE WHEN excluded.nickname <> '' THEN excluded.nickname ELSE users.nickname END,
+                     avatar_url = CASE WHEN excluded.avatar_url <> '' THEN excluded.avatar_url ELSE users.avatar_url END`,
             )
             .bind(openid, nickname, avatarUrl)
             .run();
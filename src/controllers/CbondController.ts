@@ -0,0 +1,167 @@
+import { CbondSortField, EmCbondService } from '../services/EmCbondService';
+import { CacheService } from '../services/CacheService';
+import { createResponse } from '../utils/response';
+import { getAShareAdaptiveCacheTtlSeconds } from '../utils/tradingTime';
+import {
+    CBOND_DETAIL_CACHE_KEY_PREFIX,
+    CBOND_LIST_CACHE_KEY_PREFIX,
+    CBOND_TRADING_TTL_SECONDS,
+    buildTimestampedCachePayload,
+    isValidTimestampedRecordCachePayload,
+} from '../constants/cache';
+import { Env } from '../index';
+
+const CBOND_SOURCE = '东方财富';
+/** 列表默认 / 最大每页数量 */
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const SORT_FIELDS: CbondSortField[] = ['premium', 'price', 'change', 'value'];
+
+interface UnderlyingStockRow {
+    symbol: string;
+    name: string;
+    market: string;
+    delisted_at: string | null;
+}
+
+/**
+ * 可转债控制器（转股价值、转股溢价率、到期收益率、信用评级）
+ */
+export class CbondController {
+    private static async readCache(cacheKey: string, cacheService: CacheService | null): Promise<Record<string, any> | null> {
+        if (!cacheService) return null;
+        try {
+            const cached = await cacheService.get(cacheKey);
+            return isValidTimestampedRecordCachePayload(cached) ? cached.data : null;
+        } catch (err) {
+            console.error(`Error reading cbond cache ${cacheKey}:`, err);
+            return null;
+        }
+    }
+
+    private static async writeCache(cacheKey: string, data: Record<string, any>, cacheService: CacheService | null): Promise<void> {
+        if (!cacheService) return;
+        try {
+            const ttlSeconds = await getAShareAdaptiveCacheTtlSeconds(CBOND_TRADING_TTL_SECONDS);
+            cacheService.set(cacheKey, buildTimestampedCachePayload(data), ttlSeconds);
+        } catch (err) {
+            console.error(`Error writing cbond cache ${cacheKey}:`, err);
+        }
+    }
+
+    /**
+     * 可转债列表
+     * GET /api/cn/cbonds?sort=premium&order=asc&page=1&pageSize=50
+     */
+    static async getCbondList(request: Request, env: Env, ctx: ExecutionContext) {
+        const url = new URL(request.url);
+        const pageParam = url.searchParams.get('page');
+        const pageSizeParam = url.searchParams.get('pageSize');
+        const sort = (url.searchParams.get('sort') || 'premium').trim() as CbondSortField;
+        const order = (url.searchParams.get('order') || 'asc').trim();
+
+        if (!SORT_FIELDS.includes(sort)) {
+            return createResponse(400, `Invalid sort - sort 必须是 ${SORT_FIELDS.join('/')} 之一`);
+        }
+        if (order !== 'asc' && order !== 'desc') {
+            return createResponse(400, 'Invalid order - order 必须是 asc/desc 之一');
+        }
+
+        let page = 1;
+        if (pageParam) {
+            const parsed = Number(pageParam);
+            if (!Number.isInteger(parsed) || parsed < 1) {
+                return createResponse(400, 'Invalid page - page 必须是大于0的整数');
+            }
+            page = parsed;
+        }
+
+        let pageSize = DEFAULT_PAGE_SIZE;
+        if (pageSizeParam) {
+            const parsed = Number(pageSizeParam);
+            if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_PAGE_SIZE) {
+                return createResponse(400, `Invalid pageSize - pageSize 必须是 1-${MAX_PAGE_SIZE} 的整数`);
+            }
+            pageSize = parsed;
+        }
+
+        const cacheService = env.KV ? new CacheService(env.KV, ctx) : null;
+        const cacheKey = `${CBOND_LIST_CACHE_KEY_PREFIX}${sort}:${order}:${page}:${pageSize}`;
+
+        const cached = await this.readCache(cacheKey, cacheService);
+        if (cached) {
+            return createResponse(200, 'success (cached)', cached);
+        }
+
+        try {
+            const { total, list } = await EmCbondService.getList({ page, pageSize, sort, order }, cacheService);
+
+            const data = {
+                '来源': CBOND_SOURCE,
+                '当前页': page,
+                '每页数量': pageSize,
+                '总数量': total,
+                '总页数': Math.ceil(total / pageSize),
+                '可转债列表': list,
+            };
+
+            if (list.length > 0) {
+                await this.writeCache(cacheKey, data, cacheService);
+            }
+
+            return createResponse(200, 'success', data);
+        } catch (err: any) {
+            console.error('Error fetching cbond list:', err);
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+
+    /**
+     * 单只可转债详情（关联 stocks 表中的正股）
+     * GET /api/cn/cbonds/:code
+     */
+    static async getCbond(code: string, request: Request, env: Env, ctx: ExecutionContext) {
+        const cacheService = env.KV ? new CacheService(env.KV, ctx) : null;
+        const cacheKey = `${CBOND_DETAIL_CACHE_KEY_PREFIX}${code}`;
+
+        const cached = await this.readCache(cacheKey, cacheService);
+        if (cached) {
+            return createResponse(200, 'success (cached)', cached);
+        }
+
+        try {
+            const bond = await EmCbondService.getBond(code, cacheService);
+            if (!bond) {
+                return createResponse(404, `未查询到可转债 ${code}`);
+            }
+
+            const underlyingSymbol = typeof bond['正股代码'] === 'string' ? bond['正股代码'] : '';
+            const stock = underlyingSymbol
+                ? await env.DB
+                    .prepare('SELECT symbol, name, market, delisted_at FROM stocks WHERE symbol = ?1')
+                    .bind(underlyingSymbol)
+                    .first<UnderlyingStockRow>()
+                : null;
+
+            const data = {
+                '来源': CBOND_SOURCE,
+                ...bond,
+                '正股': stock
+                    ? {
+                        '股票代码': stock.symbol,
+                        '股票简称': stock.name,
+                        '市场代码': stock.market,
+                        '已退市': stock.delisted_at !== null,
+                    }
+                    : null,
+            };
+
+            await this.writeCache(cacheKey, data, cacheService);
+
+            return createResponse(200, 'success', data);
+        } catch (err: any) {
+            console.error(`Error fetching cbond ${code}:`, err);
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+}
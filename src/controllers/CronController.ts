@@ -0,0 +1,46 @@
+import { CronService } from '../services/CronService';
+import { UserController } from './UserController';
+import { createResponse } from '../utils/response';
+import { Env } from '../index';
+
+export class CronController {
+    /**
+     * 定时任务列表及最近一次运行状态（需管理员登录）
+     */
+    static async getJobs(request: Request, env: Env, ctx: ExecutionContext) {
+        const auth = await UserController.requireAdmin(request, env);
+        if (!auth.ok) {
+            return createResponse(auth.code, auth.message);
+        }
+
+        try {
+            const jobs = CronService.getJobs();
+            const statuses = await Promise.all(jobs.map(job => CronService.getLastStatus(job.name, env)));
+
+            return createResponse(200, 'success', {
+                '任务数量': jobs.length,
+                '任务列表': jobs.map((job, index) => {
+                    const status = statuses[index];
+                    return {
+                        '任务名': job.name,
+                        '描述': job.description,
+                        'Cron': job.cron,
+                        '运行时段': job.window,
+                        '最近运行': status
+                            ? {
+                                '状态': status.status,
+                                '开始时间': status.startedAt,
+                                '结束时间': status.finishedAt,
+                                '耗时毫秒': status.durationMs,
+                                '结果': status.result,
+                                '错误': status.error,
+                            }
+                            : null,
+                    };
+                }),
+            });
+        } catch (err: any) {
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+}
@@ -0,0 +1,186 @@
+import { EmFundService } from '../services/EmFundService';
+import { CacheService } from '../services/CacheService';
+import { createResponse } from '../utils/response';
+import { getAShareAdaptiveCacheTtlSeconds } from '../utils/tradingTime';
+import { isValidFundSymbol } from '../utils/validator';
+import {
+    FUND_NAV_CACHE_KEY_PREFIX,
+    FUND_NAV_CACHE_TTL_SECONDS,
+    FUND_QUOTE_CACHE_KEY_PREFIX,
+    FUND_QUOTE_TRADING_TTL_SECONDS,
+    buildTimestampedCachePayload,
+    isValidTimestampedRecordCachePayload,
+} from '../constants/cache';
+import { Env } from '../index';
+
+const FUND_SOURCE = '东方财富';
+/** 单次最多查询基金数量 */
+const MAX_SYMBOLS = 100;
+/** 历史净值默认 / 最大每页数量 */
+const DEFAULT_NAV_PAGE_SIZE = 20;
+const MAX_NAV_PAGE_SIZE = 20;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 场内基金控制器（ETF / LOF 行情、IOPV 折溢价、历史净值）
+ */
+export class FundController {
+    private static async readCachedQuote(symbol: string, cacheService: CacheService): Promise<Record<string, any> | null> {
+        const cacheKey = `${FUND_QUOTE_CACHE_KEY_PREFIX}${symbol}`;
+        try {
+            const cached = await cacheService.get(cacheKey);
+            return isValidTimestampedRecordCachePayload(cached) ? cached.data : null;
+        } catch (err) {
+            console.error(`Error reading fund quote cache ${cacheKey}:`, err);
+            return null;
+        }
+    }
+
+    /**
+     * 场内基金实时行情
+     * GET /api/cn/funds/quotes?symbols=510300,159915
+     */
+    static async getFundQuotes(request: Request, env: Env, ctx: ExecutionContext) {
+        const url = new URL(request.url);
+        const symbolsParam = url.searchParams.get('symbols');
+
+        if (!symbolsParam) {
+            return createResponse(400, '缺少 symbols 参数，示例: ?symbols=510300,159915');
+        }
+
+        const symbols = [...new Set(symbolsParam.split(',').map(s => s.trim()).filter(Boolean))];
+
+        if (symbols.length === 0) {
+            return createResponse(400, '缺少 symbols 参数，示例: ?symbols=510300,159915');
+        }
+
+        if (symbols.length > MAX_SYMBOLS) {
+            return createResponse(400, `单次最多查询 ${MAX_SYMBOLS} 只基金`);
+        }
+
+        const invalidSymbols = symbols.filter(s => !isValidFundSymbol(s));
+        if (invalidSymbols.length > 0) {
+            return createResponse(400, `Invalid symbol(s) - 仅支持场内 ETF / LOF 的6位代码: ${invalidSymbols.join(', ')}`);
+        }
+
+        try {
+            const cacheService = env.KV ? new CacheService(env.KV, ctx) : null;
+            const quotesBySymbol = new Map<string, Record<string, any>>();
+
+            if (cacheService) {
+                const cachedQuotes = await Promise.all(symbols.map(symbol => this.readCachedQuote(symbol, cacheService)));
+                cachedQuotes.forEach((quote, index) => {
+                    if (quote) quotesBySymbol.set(symbols[index], quote);
+                });
+            }
+
+            const missedSymbols = symbols.filter(symbol => !quotesBySymbol.has(symbol));
+            if (missedSymbols.length > 0) {
+                const fetchedQuotes = await EmFundService.getQuotes(missedSymbols);
+                const cacheable = fetchedQuotes.filter(quote => !('错误' in quote));
+                const ttlSeconds = cacheService && cacheable.length > 0
+                    ? await getAShareAdaptiveCacheTtlSeconds(FUND_QUOTE_TRADING_TTL_SECONDS)
+                    : null;
+
+                fetchedQuotes.forEach((quote, index) => {
+                    const symbol = missedSymbols[index];
+                    quotesBySymbol.set(symbol, quote);
+
+                    if (cacheService && ttlSeconds !== null && !('错误' in quote)) {
+                        cacheService.set(`${FUND_QUOTE_CACHE_KEY_PREFIX}${symbol}`, buildTimestampedCachePayload(quote), ttlSeconds);
+                    }
+                });
+            }
+
+            const results = symbols.map(symbol => quotesBySymbol.get(symbol)!);
+
+            return createResponse(200, missedSymbols.length > 0 ? 'success' : 'success (cached)', {
+                '来源': FUND_SOURCE,
+                '基金数量': results.length,
+                '行情': results,
+            });
+        } catch (err: any) {
+            console.error('Error fetching fund quotes:', err);
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+
+    /**
+     * 基金历史净值
+     * GET /api/cn/funds/:code/nav?page=1&pageSize=20&startDate=2026-01-01&endDate=2026-10-19
+     */
+    static async getFundNav(code: string, request: Request, env: Env, ctx: ExecutionContext) {
+        const url = new URL(request.url);
+        const pageParam = url.searchParams.get('page');
+        const pageSizeParam = url.searchParams.get('pageSize');
+        const startDate = (url.searchParams.get('startDate') || '').trim();
+        const endDate = (url.searchParams.get('endDate') || '').trim();
+
+        let page = 1;
+        if (pageParam) {
+            const parsed = Number(pageParam);
+            if (!Number.isInteger(parsed) || parsed < 1) {
+                return createResponse(400, 'Invalid page - page 必须是大于0的整数');
+            }
+            page = parsed;
+        }
+
+        let pageSize = DEFAULT_NAV_PAGE_SIZE;
+        if (pageSizeParam) {
+            const parsed = Number(pageSizeParam);
+            if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_NAV_PAGE_SIZE) {
+                return createResponse(400, `Invalid pageSize - pageSize 必须是 1-${MAX_NAV_PAGE_SIZE} 的整数`);
+            }
+            pageSize = parsed;
+        }
+
+        if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+            return createResponse(400, 'Invalid date - startDate / endDate 格式必须为 YYYY-MM-DD');
+        }
+        if (startDate && endDate && startDate > endDate) {
+            return createResponse(400, 'Invalid date - startDate 不能晚于 endDate');
+        }
+
+        const cacheService = env.KV ? new CacheService(env.KV, ctx) : null;
+        const cacheKey = `${FUND_NAV_CACHE_KEY_PREFIX}${code}:${startDate}:${endDate}:${page}:${pageSize}`;
+
+        if (cacheService) {
+            try {
+                const cached = await cacheService.get(cacheKey);
+                if (isValidTimestampedRecordCachePayload(cached)) {
+                    return createResponse(200, 'success (cached)', cached.data);
+                }
+            } catch (err) {
+                console.error(`Error reading fund nav cache ${cacheKey}:`, err);
+            }
+        }
+
+        try {
+            const { total, list } = await EmFundService.getNavHistory(code, {
+                page,
+                pageSize,
+                startDate: startDate || undefined,
+                endDate: endDate || undefined,
+            });
+
+            const data = {
+                '来源': FUND_SOURCE,
+                '基金代码': code,
+                '当前页': page,
+                '每页数量': pageSize,
+                '总数量': total,
+                '总页数': Math.ceil(total / pageSize),
+                '净值列表': list,
+            };
+
+            if (cacheService && list.length > 0) {
+                cacheService.set(cacheKey, buildTimestampedCachePayload(data), FUND_NAV_CACHE_TTL_SECONDS);
+            }
+
+            return createResponse(200, 'success', data);
+        } catch (err: any) {
+            console.error(`Error fetching fund nav ${code}:`, err);
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+}
@@ -0,0 +1,87 @@
+import { EmFundFlowService, FundFlowPeriod } from '../services/EmFundFlowService';
+import { CacheService } from '../services/CacheService';
+import { createResponse } from '../utils/response';
+import { getAShareAdaptiveCacheTtlSeconds } from '../utils/tradingTime';
+import {
+    STOCK_FUNDFLOW_CACHE_KEY_PREFIX,
+    STOCK_FUNDFLOW_TRADING_TTL_SECONDS,
+    buildTimestampedCachePayload,
+    isValidTimestampedRecordCachePayload,
+} from '../constants/cache';
+import { Env } from '../index';
+
+const FUNDFLOW_SOURCE = '东方财富';
+/** 历史资金流向默认 / 最大天数 */
+const DEFAULT_DAILY_DAYS = 20;
+const MAX_DAILY_DAYS = 120;
+
+/**
+ * 个股资金流向控制器（主力 / 超大单 / 大单 / 中单 / 小单）
+ */
+export class FundFlowController {
+    /**
+     * 个股资金流向
+     * GET /api/cn/stocks/:symbol/fundflow?period=intraday|daily&days=20
+     */
+    static async getStockFundFlow(symbol: string, request: Request, env: Env, ctx: ExecutionContext) {
+        const url = new URL(request.url);
+        const period = (url.searchParams.get('period') || 'intraday').trim();
+        if (period !== 'intraday' && period !== 'daily') {
+            return createResponse(400, 'Invalid period - period 必须是 intraday/daily 之一');
+        }
+        const flowPeriod = period as FundFlowPeriod;
+
+        let days = DEFAULT_DAILY_DAYS;
+        const daysRaw = url.searchParams.get('days');
+        if (flowPeriod === 'daily' && daysRaw !== null && daysRaw.trim() !== '') {
+            days = Number(daysRaw);
+            if (!Number.isInteger(days) || days < 1 || days > MAX_DAILY_DAYS) {
+                return createResponse(400, `Invalid days - days 必须是 1-${MAX_DAILY_DAYS} 之间的整数`);
+            }
+        }
+
+        const cacheService = env.KV ? new CacheService(env.KV, ctx) : null;
+        const cacheKey = flowPeriod === 'daily'
+            ? `${STOCK_FUNDFLOW_CACHE_KEY_PREFIX}${symbol}:daily:${days}`
+            : `${STOCK_FUNDFLOW_CACHE_KEY_PREFIX}${symbol}:intraday`;
+
+        if (cacheService) {
+            try {
+                const cached = await cacheService.get(cacheKey);
+                if (isValidTimestampedRecordCachePayload(cached)) {
+                    return createResponse(200, 'success (cached)', cached.data);
+                }
+            } catch (err) {
+                console.error(`Error reading fund flow cache ${cacheKey}:`, err);
+            }
+        }
+
+        try {
+            const list = flowPeriod === 'daily'
+                ? await EmFundFlowService.getDailyFundFlow(symbol, days)
+                : await EmFundFlowService.getIntradayFundFlow(symbol);
+
+            const data = {
+                '来源': FUNDFLOW_SOURCE,
+                '股票代码': symbol,
+                '周期': flowPeriod === 'daily' ? '日' : '分钟',
+                '单位': '元',
+                '数量': list.length,
+                '资金流向': list,
+            };
+
+            if (cacheService) {
+                try {
+                    const ttlSeconds = await getAShareAdaptiveCacheTtlSeconds(STOCK_FUNDFLOW_TRADING_TTL_SECONDS);
+                    cacheService.set(cacheKey, buildTimestampedCachePayload(data), ttlSeconds);
+                } catch (err) {
+                    console.error(`Error writing fund flow cache ${cacheKey}:`, err);
+                }
+            }
+
+            return createResponse(200, 'success', data);
+        } catch (err: any) {
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+}
@@ -1,7 +1,7 @@
-import { getStockIdentity } from '../utils/stock';
+import { getIndexIdentity } from '../utils/security';
 import { formatToChinaTime } from '../utils/datetime';
 import { createResponse } from '../utils/response';
-import { isValidAShareSymbol, isValidGlobalIndexSymbol } from '../utils/validator';
+import { isValidGlobalIndexSymbol, isValidIndexSymbol } from '../utils/validator';
 import { Env } from '../index';
 import { CacheService } from '../services/CacheService';
 import { eastmoneyThrottler } from '../utils/throttlers';
@@ -54,11 +54,12 @@ interface CachedQuoteResult {
  * 获取单只指数行情
  */
 async function getIndexQuote(symbol: string): Promise<Record<string, any>> {
-    // 通过股票代码得到 eastmoneyId，然后取反得到指数的 eastmoneyId
-    const { eastmoneyId } = getStockIdentity(symbol);
-    const indexId = eastmoneyId === 1 ? 0 : 1;
+    const identity = getIndexIdentity(symbol);
+    if (!identity) {
+        throw new Error(`无法识别的指数代码: ${symbol}`);
+    }
 
-    const url = `${BASE_URL}?invt=2&fltt=2&fields=${INDEX_FIELDS}&secid=${indexId}.${symbol}`;
+    const url = `${BASE_URL}?invt=2&fltt=2&fields=${INDEX_FIELDS}&secid=${identity.eastmoneyId}.${symbol}`;
     
     // 限流 (东方财富)
     await eastmoneyThrottler.throttle();
@@ -232,6 +233,23 @@ export class IndexQuoteController {
         return { quote, fromCache: false };
     }
 
+    /**
+     * 回源刷新 A 股指数行情缓存（供定时任务预热）
+     * @returns 成功写入缓存的指数数量
+     */
+    static async refreshCnIndexQuotes(symbols: string[], env: Env, ctx: ExecutionContext): Promise<number> {
+        const cacheService = env.KV ? new CacheService(env.KV, ctx) : null;
+        if (!cacheService || symbols.length === 0) return 0;
+
+        const ttlSeconds = await getAShareIndexCacheTtlSeconds();
+        const results = await Promise.allSettled(symbols.map(async (symbol) => {
+            const quote = await getIndexQuote(symbol);
+            await this.writeCachedQuote('cn', symbol, quote, cacheService, ttlSeconds);
+        }));
+
+        return results.filter(result => result.status === 'fulfilled').length;
+    }
+
     static async getIndexQuotes(request: Request, env: Env, ctx: ExecutionContext) {
         const url = new URL(request.url);
         const symbolsParam = url.searchParams.get('symbols');
@@ -250,9 +268,9 @@ export class IndexQuoteController {
             return createResponse(400, `单次最多查询 ${MAX_SYMBOLS} 只指数`);
         }
 
-        const invalidSymbols = symbols.filter(s => !isValidAShareSymbol(s));
+        const invalidSymbols = symbols.filter(s => !isValidIndexSymbol(s));
         if (invalidSymbols.length > 0) {
-            return createResponse(400, `Invalid symbol(s) - 指数代码必须是6位数字: ${invalidSymbols.join(', ')}`);
+            return createResponse(400, `Invalid symbol(s) - 指数代码必须是 000 / 399 / 899 / 93 开头的6位数字: ${invalidSymbols.join(', ')}`);
         }
 
         try {
@@ -0,0 +1,99 @@
+import { EmMarketService, LimitPoolType } from '../services/EmMarketService';
+import { CacheService } from '../services/CacheService';
+import { createResponse } from '../utils/response';
+import { getAShareAdaptiveCacheTtlSeconds } from '../utils/tradingTime';
+import {
+    MARKET_LIMIT_POOL_CACHE_KEY_PREFIX,
+    MARKET_OVERVIEW_CACHE_KEY,
+    MARKET_TRADING_TTL_SECONDS,
+    buildTimestampedCachePayload,
+    isValidTimestampedRecordCachePayload,
+} from '../constants/cache';
+import { Env } from '../index';
+
+const MARKET_SOURCE = '东方财富';
+
+/**
+ * 市场全景控制器（涨跌家数 / 涨跌停股池）
+ */
+export class MarketController {
+    private static async readCache(cacheKey: string, cacheService: CacheService | null): Promise<Record<string, any> | null> {
+        if (!cacheService) return null;
+        try {
+            const cached = await cacheService.get(cacheKey);
+            return isValidTimestampedRecordCachePayload(cached) ? cached.data : null;
+        } catch (err) {
+            console.error(`Error reading market cache ${cacheKey}:`, err);
+            return null;
+        }
+    }
+
+    private static async writeCache(cacheKey: string, data: Record<string, any>, cacheService: CacheService | null): Promise<void> {
+        if (!cacheService) return;
+        try {
+            const ttlSeconds = await getAShareAdaptiveCacheTtlSeconds(MARKET_TRADING_TTL_SECONDS);
+            cacheService.set(cacheKey, buildTimestampedCachePayload(data), ttlSeconds);
+        } catch (err) {
+            console.error(`Error writing market cache ${cacheKey}:`, err);
+        }
+    }
+
+    /**
+     * 市场涨跌全景
+     * GET /api/cn/market/overview
+     */
+    static async getOverview(env: Env, ctx: ExecutionContext) {
+        const cacheService = env.KV ? new CacheService(env.KV, ctx) : null;
+
+        const cached = await this.readCache(MARKET_OVERVIEW_CACHE_KEY, cacheService);
+        if (cached) {
+            return createResponse(200, 'success (cached)', cached);
+        }
+
+        try {
+            const overview = await EmMarketService.getMarketOverview();
+            const data = { '来源': MARKET_SOURCE, ...overview };
+            await this.writeCache(MARKET_OVERVIEW_CACHE_KEY, data, cacheService);
+            return createResponse(200, 'success', data);
+        } catch (err: any) {
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+
+    /**
+     * 涨停 / 跌停 / 炸板股池
+     * GET /api/cn/market/limit-pool?type=up|down|broken
+     */
+    static async getLimitPool(request: Request, env: Env, ctx: ExecutionContext) {
+        const url = new URL(request.url);
+        const type = (url.searchParams.get('type') || 'up').trim();
+        if (!Object.prototype.hasOwnProperty.call(EmMarketService.LIMIT_POOL_CONFIGS, type)) {
+            return createResponse(400, 'Invalid type - type 必须是 up/down/broken 之一');
+        }
+        const poolType = type as LimitPoolType;
+
+        const cacheService = env.KV ? new CacheService(env.KV, ctx) : null;
+        const cacheKey = `${MARKET_LIMIT_POOL_CACHE_KEY_PREFIX}${poolType}`;
+
+        const cached = await this.readCache(cacheKey, cacheService);
+        if (cached) {
+            return createResponse(200, 'success (cached)', cached);
+        }
+
+        try {
+            const tradeDate = await EmMarketService.getLatestTradeDate();
+            const pool = await EmMarketService.getLimitPool(poolType, tradeDate);
+            const data = {
+                '来源': MARKET_SOURCE,
+                '交易日': tradeDate,
+                '股池类型': EmMarketService.LIMIT_POOL_CONFIGS[poolType].label,
+                '数量': pool.length,
+                '股票列表': pool,
+            };
+            await this.writeCache(cacheKey, data, cacheService);
+            return createResponse(200, 'success', data);
+        } catch (err: any) {
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+}
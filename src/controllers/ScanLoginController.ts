@@ -20,21 +20,25 @@ export class ScanLoginController {
         console.log(`[ScanLogin][${stage}] ${ts} ${message}${detail}`);
     }
 
-    /* ──────── 清理过期状态 ──────── */
-    
-    private static async cleanExpiredStates(env: Env): Promise<void> {
+    /* ──────── 清理过期状态（由定时任务在非交易时段调用） ──────── */
+
+    static async cleanExpiredStates(env: Env): Promise<number> {
         const now = new Date().toISOString();
-        await env.DB
+        const result = await env.DB
             .prepare('DELETE FROM scan_login_states WHERE expires_at < ?1')
             .bind(now)
             .run();
+        return result.meta?.changes ?? 0;
     }
 
     /* ──────── 微信服务端 access_token（非 OAuth，用于接口调用） ──────── */
 
-    static async getServerAccessToken(env: Env): Promise<string> {
+    /**
+     * @param forceRefresh 为 true 时跳过 KV 缓存重新获取（接口返回 40001/42001 时使用）
+     */
+    static async getServerAccessToken(env: Env, forceRefresh = false): Promise<string> {
         const cacheKey = 'wechat:server_access_token';
-        const cached = await env.KV.get(cacheKey);
+        const cached = forceRefresh ? null : await env.KV.get(cacheKey);
         if (cached) {
             ScanLoginController.log('accessToken', '命中 KV 缓存');
             return cached;
@@ -159,7 +163,7 @@ export class ScanLoginController {
                 return;
             }
 
-            // 查询 / 新建用户（UPSERT，扫码关注场景可能没有昵称头像，先占位）
+            // 查询 / 新建用户（UPSERT，扫码场景拿不到昵称头像，先占位，网页授权登录时补齐）
             ScanLoginController.log('scanEvent', '开始 UPSERT 用户', { openid });
             await env.DB
                 .prepare(
@@ -216,17 +220,14 @@ export class ScanLoginController {
             return createResponse(400, '缺少 state 参数');
         }
 
-        // 清理过期状态
-        await ScanLoginController.cleanExpiredStates(env);
-
-        // 查询状态
+        // 查询状态（过期记录由定时任务统一清理，这里按 expires_at 过滤）
         const record = await env.DB
             .prepare(
                 `SELECT state, status, openid, jwt, expires_at 
                  FROM scan_login_states 
-                 WHERE state = ?1`
+                 WHERE state = ?1 AND expires_at > ?2`
             )
-            .bind(state)
+            .bind(state, new Date().toISOString())
             .first() as any;
 
         if (!record) {
@@ -1,6 +1,21 @@
 import type { Env } from '../index';
-import { StockAnalysisService } from '../services/StockAnalysisService';
+import { StockAnalysisService, AnalysisProfile } from '../services/StockAnalysisService';
+import { UserController } from './UserController';
 import { createResponse } from '../utils/response';
+import { isValidAShareSymbol, isValidTagCode } from '../utils/validator';
+
+type SseSender = (event: string, payload: unknown) => void;
+
+interface BatchAnalysisParams {
+    symbols: string[];
+    profile: AnalysisProfile;
+    maxAgeMinutes: number;
+    concurrency: number;
+    /** favorites / tag_code 按页展开时的分页信息 */
+    paging?: Record<string, any>;
+    /** favorites 中不支持 AI 评价的代码（ETF / LOF / 可转债） */
+    skipped?: Record<string, string>[];
+}
 
 /**
  * 个股 AI 评价控制器
@@ -9,14 +24,33 @@ import { createResponse } from '../utils/response';
 export class StockAnalysisController {
     private static readonly DEFAULT_PAGE_SIZE = 20;
     private static readonly MAX_PAGE_SIZE = 100;
+    /** 批量评价单次最多股票数量（favorites / tag_code 按此分页展开） */
+    private static readonly BATCH_MAX_SYMBOLS = 50;
+    /** 批量评价默认复用时长（分钟） */
+    private static readonly BATCH_DEFAULT_MAX_AGE_MINUTES = 120;
+    /** 批量评价最大复用时长（分钟） */
+    private static readonly BATCH_MAX_AGE_MINUTES = 7 * 24 * 60;
+    private static readonly BATCH_DEFAULT_CONCURRENCY = 2;
+    private static readonly BATCH_MAX_CONCURRENCY = 4;
 
     private static isSseRequested(request: Request): boolean {
         const accept = (request.headers.get('accept') || '').toLowerCase();
         return accept.includes('text/event-stream');
     }
 
-    private static parseHistoryParams(request: Request): { page: number; pageSize: number } | { error: string } {
+    private static parseProfile(value: unknown, fallback?: AnalysisProfile): AnalysisProfile | undefined | { error: string } {
+        const raw = typeof value === 'string' ? value.trim().toLowerCase() : value;
+        if (raw === undefined || raw === null || raw === '') return fallback;
+        if (typeof raw !== 'string' || !StockAnalysisService.isAnalysisProfile(raw)) {
+            return { error: `Invalid profile - profile 必须是 ${StockAnalysisService.getProfileNames().join('/')} 之一` };
+        }
+        return raw;
+    }
+
+    private static parseHistoryParams(request: Request): { page: number; pageSize: number; profile?: AnalysisProfile } | { error: string } {
         const url = new URL(request.url);
+        const profile = this.parseProfile(url.searchParams.get('profile'));
+        if (typeof profile === 'object') return profile;
         const pageRaw = (url.searchParams.get('page') || '').trim();
         const pageSizeRaw = (url.searchParams.get('pageSize') || '').trim();
 
@@ -38,7 +72,7 @@ export class StockAnalysisController {
             pageSize = parsed;
         }
 
-        return { page, pageSize };
+        return { page, pageSize, profile };
     }
 
     private static encodeSseEvent(encoder: TextEncoder, event: string, payload: unknown): Uint8Array {
@@ -47,11 +81,14 @@ export class StockAnalysisController {
         return encoder.encode(`event: ${event}\n${lines}\n\n`);
     }
 
-    private static createStockAnalysisSseResponse(symbol: string, env: Env): Response {
+    /**
+     * 创建 SSE 响应：task 内通过 send 推送 start/progress 等事件，返回值作为 result 事件发送
+     */
+    private static createSseResponse(task: (send: SseSender) => Promise<unknown>): Response {
         const encoder = new TextEncoder();
         const body = new ReadableStream<Uint8Array>({
             start: async (controller) => {
-                const send = (event: string, payload: unknown) => {
+                const send: SseSender = (event, payload) => {
                     controller.enqueue(this.encodeSseEvent(encoder, event, payload));
                 };
 
@@ -60,22 +97,7 @@ export class StockAnalysisController {
                 }, 15_000);
 
                 try {
-                    send('start', {
-                        message: '开始刷新个股评价',
-                        symbol,
-                    });
-
-                    const data = await StockAnalysisService.createStockAnalysis(
-                        symbol,
-                        env,
-                        (progress) => {
-                            send('progress', progress);
-                        },
-                        (delta) => {
-                            send('model.delta', delta);
-                        },
-                    );
-
+                    const data = await task(send);
                     send('result', data);
                     send('done', {
                         message: 'success',
@@ -102,17 +124,228 @@ export class StockAnalysisController {
         });
     }
 
+    private static createStockAnalysisSseResponse(symbol: string, profile: AnalysisProfile, env: Env): Response {
+        return this.createSseResponse(async (send) => {
+            send('start', {
+                message: '开始刷新个股评价',
+                symbol,
+                profile,
+            });
+
+            return StockAnalysisService.createStockAnalysis(
+                symbol,
+                env,
+                profile,
+                (progress) => {
+                    send('progress', progress);
+                },
+                (delta) => {
+                    send('model.delta', delta);
+                },
+            );
+        });
+    }
+
+    private static parseBoundedInteger(value: unknown, name: string, min: number, max: number, fallback: number): number | { error: string } {
+        if (value === undefined || value === null || value === '') return fallback;
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+            return { error: `Invalid ${name} - ${name} 必须是 ${min}-${max} 的整数` };
+        }
+        return parsed;
+    }
+
+    private static buildPaging(page: number, total: number, label: string): { paging: Record<string, any> } | { code: number; error: string } {
+        const pageSize = this.BATCH_MAX_SYMBOLS;
+        const totalPages = Math.ceil(total / pageSize);
+        if (total > 0 && page > totalPages) {
+            return { code: 400, error: `page 超出范围，${label}共 ${totalPages} 页` };
+        }
+        return {
+            paging: {
+                '当前页': page,
+                '每页数量': pageSize,
+                '总数量': total,
+                '总页数': totalPages,
+            },
+        };
+    }
+
+    /**
+     * 解析批量评价请求体，symbols / favorites / tag_code 三选一；
+     * 每次批量评价都会调用大模型，所有来源均需登录。
+     * 自选股与板块成分股可能超过单次上限，按 page 分页展开；自选中的 ETF / LOF / 可转债不参与评价，逐个列入跳过列表
+     */
+    private static async parseBatchParams(request: Request, env: Env): Promise<BatchAnalysisParams | { code: number; error: string }> {
+        const auth = await UserController.requireAuth(request, env);
+        if (!auth.ok) return { code: auth.code, error: auth.message };
+
+        let body: any;
+        try {
+            body = await request.json();
+        } catch {
+            return { code: 400, error: '请求体必须是 JSON' };
+        }
+        if (!body || typeof body !== 'object' || Array.isArray(body)) {
+            return { code: 400, error: '请求体必须是 JSON 对象' };
+        }
+
+        const maxAgeMinutes = this.parseBoundedInteger(
+            body.maxAgeMinutes, 'maxAgeMinutes', 0, this.BATCH_MAX_AGE_MINUTES, this.BATCH_DEFAULT_MAX_AGE_MINUTES,
+        );
+        if (typeof maxAgeMinutes !== 'number') return { code: 400, ...maxAgeMinutes };
+
+        const concurrency = this.parseBoundedInteger(
+            body.concurrency, 'concurrency', 1, this.BATCH_MAX_CONCURRENCY, this.BATCH_DEFAULT_CONCURRENCY,
+        );
+        if (typeof concurrency !== 'number') return { code: 400, ...concurrency };
+
+        const profile = this.parseProfile(body.profile, StockAnalysisService.DEFAULT_PROFILE);
+        if (typeof profile !== 'string') return { code: 400, error: profile?.error ?? 'Invalid profile' };
+
+        const hasSymbols = body.symbols !== undefined && body.symbols !== null && body.symbols !== '';
+        const useFavorites = body.favorites === true;
+        const tagCodeRaw = typeof body.tag_code === 'string' ? body.tag_code.trim().toUpperCase() : '';
+        const sourceCount = [hasSymbols, useFavorites, Boolean(tagCodeRaw)].filter(Boolean).length;
+        if (sourceCount !== 1) {
+            return { code: 400, error: 'symbols、favorites、tag_code 必须且只能指定一个' };
+        }
+        const hasPage = body.page !== undefined && body.page !== null && body.page !== '';
+        if (hasPage && hasSymbols) {
+            return { code: 400, error: 'page 仅在指定 favorites 或 tag_code 时有效' };
+        }
+        const page = this.parseBoundedInteger(body.page, 'page', 1, Number.MAX_SAFE_INTEGER, 1);
+        if (typeof page !== 'number') return { code: 400, error: 'Invalid page - page 必须是大于0的整数' };
+        const offset = (page - 1) * this.BATCH_MAX_SYMBOLS;
+
+        let symbols: string[] = [];
+        let paging: Record<string, any> | undefined;
+        let skipped: Record<string, string>[] | undefined;
+        if (hasSymbols) {
+            const rawList: unknown[] = Array.isArray(body.symbols) ? body.symbols : String(body.symbols).split(',');
+            symbols = rawList.map(item => String(item).trim()).filter(Boolean);
+            const invalid = symbols.filter(symbol => !isValidAShareSymbol(symbol));
+            if (invalid.length > 0) {
+                return { code: 400, error: `Invalid symbols - A股代码必须是6位数字: ${invalid.join(', ')}` };
+            }
+        } else if (useFavorites) {
+            const { results } = await env.DB
+                .prepare('SELECT symbol FROM user_stocks WHERE openid = ?1 ORDER BY created_at DESC')
+                .bind(auth.openid)
+                .all<{ symbol: string }>();
+            const favorites = (results || []).map(row => row.symbol);
+            const stocks = favorites.filter(symbol => isValidAShareSymbol(symbol));
+            skipped = favorites
+                .filter(symbol => !isValidAShareSymbol(symbol))
+                .map(symbol => ({ '股票代码': symbol, '原因': '仅支持 A 股评价，ETF / LOF / 可转债已跳过' }));
+            if (stocks.length === 0 && skipped.length > 0) {
+                return { code: 400, error: `自选中没有可评价的 A 股，已跳过: ${skipped.map(item => item['股票代码']).join(', ')}` };
+            }
+
+            const pageResult = this.buildPaging(page, stocks.length, '自选 A 股');
+            if ('error' in pageResult) return pageResult;
+            paging = { '来源': '自选股', ...pageResult.paging };
+            symbols = stocks.slice(offset, offset + this.BATCH_MAX_SYMBOLS);
+        } else {
+            if (!isValidTagCode(tagCodeRaw)) {
+                return { code: 400, error: 'Invalid tag_code - tag_code 必须是 BK+4位数字，例如 BK0428' };
+            }
+
+            const [countResult, membersResult] = await env.DB.batch<{ total?: number; symbol?: string }>([
+                env.DB
+                    .prepare('SELECT COUNT(*) AS total FROM stock_tags WHERE tag_code = ?1')
+                    .bind(tagCodeRaw),
+                env.DB
+                    .prepare('SELECT symbol FROM stock_tags WHERE tag_code = ?1 ORDER BY symbol LIMIT ?2 OFFSET ?3')
+                    .bind(tagCodeRaw, this.BATCH_MAX_SYMBOLS, offset),
+            ]);
+            const pageResult = this.buildPaging(page, Number(countResult.results?.[0]?.total ?? 0), `板块 ${tagCodeRaw} 成分股`);
+            if ('error' in pageResult) return pageResult;
+            paging = { '来源': '板块成分股', '板块代码': tagCodeRaw, ...pageResult.paging };
+            symbols = (membersResult.results || []).map(row => String(row.symbol));
+        }
+
+        symbols = Array.from(new Set(symbols));
+        if (symbols.length === 0) {
+            return { code: 400, error: '没有需要评价的股票' };
+        }
+        if (symbols.length > this.BATCH_MAX_SYMBOLS) {
+            return { code: 400, error: `股票数量 ${symbols.length} 超过批量上限 ${this.BATCH_MAX_SYMBOLS}` };
+        }
+
+        return { symbols, profile, maxAgeMinutes, concurrency, paging, skipped };
+    }
+
+    /**
+     * 批量生成个股评价
+     * 路径: POST /api/cn/stocks/analysis/batch
+     */
+    static async handleBatchStockAnalysis(request: Request, env: Env, ctx: ExecutionContext) {
+        if (request.method !== 'POST') {
+            return createResponse(405, 'Method Not Allowed - 仅支持 POST');
+        }
+
+        const parsed = await this.parseBatchParams(request, env);
+        if ('error' in parsed) {
+            return createResponse(parsed.code, parsed.error);
+        }
+
+        const { symbols, profile, maxAgeMinutes, concurrency, paging, skipped } = parsed;
+        const withPaging = (data: Record<string, any>) => ({
+            ...data,
+            ...(paging ? { '分页': paging } : {}),
+            ...(skipped ? { '跳过列表': skipped } : {}),
+        });
+
+        if (this.isSseRequested(request)) {
+            return this.createSseResponse(async (send) => {
+                send('start', {
+                    message: '开始批量评价',
+                    total: symbols.length,
+                    profile,
+                    symbols,
+                    ...(paging ? { paging } : {}),
+                    ...(skipped ? { skipped } : {}),
+                });
+
+                const data = await StockAnalysisService.createBatchStockAnalysis(
+                    symbols,
+                    env,
+                    { profile, maxAgeMinutes, concurrency },
+                    (progress) => {
+                        send('progress', progress);
+                    },
+                );
+                return withPaging(data);
+            });
+        }
+
+        try {
+            const data = await StockAnalysisService.createBatchStockAnalysis(symbols, env, { profile, maxAgeMinutes, concurrency });
+            return createResponse(200, 'success', withPaging(data));
+        } catch (error: any) {
+            const message = error instanceof Error ? error.message : 'Internal Server Error';
+            return createResponse(500, message);
+        }
+    }
+
     static async handleStockAnalysis(symbol: string, request: Request, env: Env, ctx: ExecutionContext) {
         if (!symbol || !/^\d{6}$/.test(symbol)) {
             return createResponse(400, 'Invalid symbol - A股代码必须是6位数字');
         }
 
+        const profile = this.parseProfile(new URL(request.url).searchParams.get('profile'));
+        if (typeof profile === 'object') {
+            return createResponse(400, profile.error);
+        }
+
         if (request.method === 'POST') {
+            const createProfile = profile ?? StockAnalysisService.DEFAULT_PROFILE;
             if (this.isSseRequested(request)) {
-                return this.createStockAnalysisSseResponse(symbol, env);
+                return this.createStockAnalysisSseResponse(symbol, createProfile, env);
             }
             try {
-                const data = await StockAnalysisService.createStockAnalysis(symbol, env);
+                const data = await StockAnalysisService.createStockAnalysis(symbol, env, createProfile);
                 return createResponse(200, 'success', data);
             } catch (error: any) {
                 const message = error instanceof Error ? error.message : 'Internal Server Error';
@@ -125,7 +358,7 @@ export class StockAnalysisController {
 
         if (request.method === 'GET') {
             try {
-                const data = await StockAnalysisService.getLatestStockAnalysis(symbol, env);
+                const data = await StockAnalysisService.getLatestStockAnalysis(symbol, env, profile);
                 if (!data) {
                     return createResponse(404, `未找到该股票的分析记录: ${symbol}`);
                 }
@@ -162,6 +395,7 @@ export class StockAnalysisController {
                 env,
                 parsed.page,
                 parsed.pageSize,
+                parsed.profile,
             );
             if ((data['总数量'] as number) === 0) {
                 return createResponse(404, `未找到该股票的历史分析记录: ${symbol}`);
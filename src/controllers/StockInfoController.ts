@@ -11,7 +11,7 @@ import { createResponse } from '../utils/response';
 import { formatToChinaTime } from '../utils/datetime';
 import { Env } from '../index';
 import { isValidAShareSymbol } from '../utils/validator';
-import { getStockIdentity } from '../utils/stock';
+import { getSecurityIdentity } from '../utils/security';
 
 /** 单次最多查询股票数量 */
 const MAX_SYMBOLS = 20;
@@ -140,7 +140,7 @@ export class StockInfoController {
     }
 
     private static getSourceBySymbol(symbol: string): string {
-        const { eastmoneyId } = getStockIdentity(symbol);
+        const { eastmoneyId } = getSecurityIdentity(symbol);
         const prefix = eastmoneyId === 1 ? 'sh' : 'sz';
         return `东方财富 http://quote.eastmoney.com/concept/${prefix}${symbol}.html?from=classic`;
     }
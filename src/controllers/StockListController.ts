@@ -1,6 +1,23 @@
 import { createResponse } from '../utils/response';
+import { StockSearchService } from '../services/StockSearchService';
+import { UserController } from './UserController';
 import { Env } from '../index';
 
+interface StockSyncLogRow {
+    id: number;
+    status: string;
+    fetched: number;
+    inserted: number;
+    renamed: number;
+    market_changed: number;
+    delisted: number;
+    relisted: number;
+    details: string | null;
+    error: string | null;
+    started_at: string;
+    finished_at: string;
+}
+
 /**
  * A股列表控制器
  */
@@ -9,6 +26,14 @@ export class StockListController {
     private static readonly DEFAULT_PAGE_SIZE = 50;
     /** 最大每页数量 */
     private static readonly MAX_PAGE_SIZE = 500;
+    /** 同步记录默认 / 最大返回条数 */
+    private static readonly DEFAULT_SYNC_REPORT_LIMIT = 10;
+    private static readonly MAX_SYNC_REPORT_LIMIT = 50;
+    /** 搜索建议默认 / 最大返回条数 */
+    private static readonly DEFAULT_SEARCH_LIMIT = 10;
+    private static readonly MAX_SEARCH_LIMIT = 50;
+    /** 搜索关键词最大长度 */
+    private static readonly MAX_SEARCH_QUERY_LENGTH = 20;
 
     /**
      * 统一股票查询接口
@@ -70,14 +95,18 @@ export class StockListController {
             const countParams: any[] = [];
             const dataParams: any[] = [];
 
-            // 精确查询股票代码（使用主键索引，性能最优）
+            // 精确查询股票代码（使用主键索引，性能最优），已退市股票仍可查到
             if (symbol) {
                 whereConditions.push('symbol = ?');
                 countParams.push(symbol);
                 dataParams.push(symbol);
-            } 
+            } else {
+                // 列表与搜索不返回已退市股票（delisted_at 由 sync_stocks 定时任务维护）
+                whereConditions.push('delisted_at IS NULL');
+            }
+
             // 关键词搜索（支持代码、名称、拼音首字母）
-            else if (keyword) {
+            if (!symbol && keyword) {
                 // 注意：LIKE '%keyword%' 无法使用索引，会全表扫描
                 // 对于大表，建议限制搜索结果或考虑使用专门的搜索引擎
                 whereConditions.push('(symbol LIKE ? OR name LIKE ? OR pinyin LIKE ?)');
@@ -155,4 +184,131 @@ export class StockListController {
             return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
         }
     }
+
+    /**
+     * 股票搜索建议（联想输入）
+     * GET /api/cn/stocks/search?q=gzmt&limit=10
+     * 按 代码 > 代码前缀 > 简称 > 简称前缀 > 拼音首字母 > 全拼 > 曾用名 > 包含 排序，默认不含已退市股票
+     */
+    static async searchStocks(request: Request, env: Env, ctx: ExecutionContext) {
+        const url = new URL(request.url);
+        const query = url.searchParams.get('q')?.trim();
+        const limitParam = url.searchParams.get('limit');
+        const includeDelisted = url.searchParams.get('includeDelisted') === 'true';
+
+        if (!query) {
+            return createResponse(400, '缺少 q 参数');
+        }
+        if (query.length > this.MAX_SEARCH_QUERY_LENGTH) {
+            return createResponse(400, `q 长度不能超过${this.MAX_SEARCH_QUERY_LENGTH}个字符`);
+        }
+
+        let limit = this.DEFAULT_SEARCH_LIMIT;
+        if (limitParam) {
+            const parsed = Number(limitParam);
+            if (!Number.isInteger(parsed) || parsed < 1 || parsed > this.MAX_SEARCH_LIMIT) {
+                return createResponse(400, `Invalid limit - limit 必须是 1-${this.MAX_SEARCH_LIMIT} 的整数`);
+            }
+            limit = parsed;
+        }
+
+        try {
+            const results = await StockSearchService.search(query, env, { limit, includeDelisted });
+
+            return createResponse(200, 'success', {
+                '关键词': query,
+                '数量': results.length,
+                '股票列表': results.map(item => ({
+                    '股票代码': item.symbol,
+                    '股票简称': item.name,
+                    '市场代码': item.market,
+                    '匹配类型': item.matchType,
+                    '曾用名': item.formerName,
+                    '已退市': item.delisted,
+                })),
+            });
+        } catch (err: any) {
+            console.error('Error searching stocks:', err);
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+
+    /**
+     * 股票主数据同步记录（运维，需管理员登录）
+     * GET /api/cn/stocks/sync/report?limit=10
+     */
+    static async getSyncReport(request: Request, env: Env, ctx: ExecutionContext) {
+        const auth = await UserController.requireAdmin(request, env);
+        if (!auth.ok) {
+            return createResponse(auth.code, auth.message);
+        }
+
+        const url = new URL(request.url);
+        const limitParam = url.searchParams.get('limit');
+
+        let limit = this.DEFAULT_SYNC_REPORT_LIMIT;
+        if (limitParam) {
+            const parsed = Number(limitParam);
+            if (!Number.isInteger(parsed) || parsed < 1 || parsed > this.MAX_SYNC_REPORT_LIMIT) {
+                return createResponse(400, `Invalid limit - limit 必须是 1-${this.MAX_SYNC_REPORT_LIMIT} 的整数`);
+            }
+            limit = parsed;
+        }
+
+        try {
+            const [logsResult, statsRow] = await Promise.all([
+                env.DB
+                    .prepare(
+                        `SELECT id, status, fetched, inserted, renamed, market_changed, delisted, relisted, details, error, started_at, finished_at
+                         FROM stock_sync_logs
+                         ORDER BY started_at DESC, id DESC
+                         LIMIT ?1`
+                    )
+                    .bind(limit)
+                    .all<StockSyncLogRow>(),
+                env.DB
+                    .prepare(
+                        `SELECT
+                             SUM(CASE WHEN delisted_at IS NULL THEN 1 ELSE 0 END) AS active,
+                             SUM(CASE WHEN delisted_at IS NOT NULL THEN 1 ELSE 0 END) AS delisted
+                         FROM stocks`
+                    )
+                    .first<{ active: number | null; delisted: number | null }>(),
+            ]);
+
+            const records = (logsResult.results || []).map(row => {
+                let details: unknown[] = [];
+                try {
+                    const parsed = row.details ? JSON.parse(row.details) : [];
+                    details = Array.isArray(parsed) ? parsed : [];
+                } catch {
+                    details = [];
+                }
+
+                return {
+                    '同步ID': row.id,
+                    '状态': row.status,
+                    '开始时间': row.started_at,
+                    '结束时间': row.finished_at,
+                    '拉取数量': row.fetched,
+                    '新增': row.inserted,
+                    '更名': row.renamed,
+                    '市场变更': row.market_changed,
+                    '退市': row.delisted,
+                    '恢复上市': row.relisted,
+                    '错误': row.error,
+                    '变更明细': details,
+                };
+            });
+
+            return createResponse(200, 'success', {
+                '在市股票数': statsRow?.active ?? 0,
+                '已退市股票数': statsRow?.delisted ?? 0,
+                '同步记录': records,
+            });
+        } catch (err: any) {
+            console.error('Error fetching stock sync report:', err);
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
 }
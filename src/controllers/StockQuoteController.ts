@@ -1,9 +1,12 @@
 import { EmQuoteService, QuoteLevel } from '../services/EmQuoteService';
-import { EmKlineService, KLineFqt, KLinePeriod } from '../services/EmKlineService';
+import { KLineFqt, KLinePeriod } from '../services/EmKlineService';
+import { KlineCacheService } from '../services/KlineCacheService';
+import { EmTrendsService } from '../services/EmTrendsService';
+import { MarketSnapshotService } from '../services/MarketSnapshotService';
 import { CacheService } from '../services/CacheService';
 import { createResponse } from '../utils/response';
 import { Env } from '../index';
-import { isValidAShareSymbol } from '../utils/validator';
+import { isValidAShareSymbol, isValidSecuritySymbol } from '../utils/validator';
 import {
     STOCK_QUOTE_ACTIVITY_CACHE_KEY_PREFIX,
     STOCK_QUOTE_ACTIVITY_TRADING_TTL_SECONDS,
@@ -11,18 +14,71 @@ import {
     STOCK_QUOTE_CORE_TRADING_TTL_SECONDS,
     STOCK_QUOTE_FUNDAMENTAL_CACHE_KEY_PREFIX,
     STOCK_QUOTE_FUNDAMENTAL_TRADING_TTL_SECONDS,
+    STOCK_ORDERBOOK_CACHE_KEY_PREFIX,
+    STOCK_ORDERBOOK_FRESH_SECONDS,
+    STOCK_TICKS_CACHE_KEY_PREFIX,
+    STOCK_TICKS_FRESH_SECONDS,
+    STOCK_TRENDS_CACHE_KEY_PREFIX,
+    STOCK_TRENDS_TRADING_TTL_SECONDS,
     buildTimestampedCachePayload,
     isValidStockInfoCachePayload,
+    isValidTimestampedRecordCachePayload,
     type StockInfoCachePayload,
 } from '../constants/cache';
-import { getAShareAdaptiveCacheTtlSeconds } from '../utils/tradingTime';
+import { getAShareAdaptiveCacheTtlSeconds, isAShareTradingTime } from '../utils/tradingTime';
+import {
+    calculateBOLL,
+    calculateEMA,
+    calculateKDJ,
+    calculateMA,
+    calculateMACD,
+    calculateOBV,
+    calculateRSI,
+    type IndicatorValue,
+    type KLineBar,
+} from '../utils/indicators';
 
 /** 单次最多查询股票数量 */
-const MAX_SYMBOLS = 20;
+const MAX_SYMBOLS = 200;
+/** 快照未覆盖时单次最多逐只回源的股票数量（东财限流 300ms/次） */
+const MAX_FALLBACK_SYMBOLS = 20;
 /** K 线单次最多返回数量 */
 const MAX_KLINE_LIMIT = 5000;
+/** 分时最多返回交易日数 */
+const MAX_TREND_DAYS = 5;
+/** 逐笔成交回源条数（同一只股票共用缓存，再按 since / limit 过滤） */
+const TICK_FETCH_COUNT = 500;
+/** 逐笔成交默认返回条数 */
+const DEFAULT_TICK_LIMIT = 100;
 /** 支持的 K 线周期 */
 const SUPPORTED_KLT = new Set<number>([1, 5, 15, 30, 60, 101, 102, 103]);
+/** 支持的技术指标 */
+const SUPPORTED_INDICATORS = ['MA', 'EMA', 'MACD', 'KDJ', 'RSI', 'BOLL', 'OBV'] as const;
+type IndicatorName = typeof SUPPORTED_INDICATORS[number];
+/** 指标计算额外回溯的 K 线数量（用于均线与 EMA 类指标收敛） */
+const INDICATOR_WARMUP_BARS = 250;
+/** 指标周期上限 */
+const MAX_INDICATOR_PERIOD = 250;
+
+interface IndicatorParamSpec {
+    /** 查询参数名 */
+    key: string;
+    defaults: number[];
+    /** 固定参数个数，未设置时为可变长度周期列表 */
+    count?: number;
+    /** 允许小数的参数下标（如布林线标准差倍数） */
+    decimalIndexes?: number[];
+}
+
+/** 各指标参数（均可通过同名小写查询参数覆盖，逗号分隔） */
+const INDICATOR_PARAM_SPECS: Record<Exclude<IndicatorName, 'OBV'>, IndicatorParamSpec> = {
+    MA: { key: 'ma', defaults: [5, 10, 20, 60] },
+    EMA: { key: 'ema', defaults: [12, 26] },
+    MACD: { key: 'macd', defaults: [12, 26, 9], count: 3 },
+    KDJ: { key: 'kdj', defaults: [9, 3, 3], count: 3 },
+    RSI: { key: 'rsi', defaults: [6, 12, 24] },
+    BOLL: { key: 'boll', defaults: [20, 2], count: 2, decimalIndexes: [1] },
+};
 
 interface QuoteCacheConfig {
     keyPrefix: string;
@@ -32,12 +88,17 @@ interface QuoteCacheConfig {
 /**
  * 股票行情控制器
  * 缓存策略：
- * - core/activity/fundamental：读 KV 优先，未命中回源并回填
- * - kline：实时回源
+ * - core/activity/fundamental：优先读全市场快照（见 MarketSnapshotService），未覆盖的股票读单只 KV 缓存，未命中逐只回源并回填
+ * - kline / indicators：日周月线持久化到 D1 并增量回源，分钟线缓存在 KV（见 KlineCacheService）
+ * - orderbook / ticks：仅交易时段写入 KV，读取时按写入时间判断是否在短有效期内
  * 支持接口:
  *   /api/cn/stock/quotes/core?symbols=...         核心行情
  *   /api/cn/stock/quotes/activity?symbols=...      盘口/活跃度
  *   /api/cn/stock/quotes/kline?symbol=...          历史 K 线
+ *   /api/cn/stock/indicators?symbol=...            技术指标
+ *   /api/cn/stocks/:symbol/trends?days=...         分时（含均价、集合竞价）
+ *   /api/cn/stocks/:symbol/orderbook               五档盘口
+ *   /api/cn/stocks/:symbol/ticks?since=...         逐笔成交
  *   /api/cn/stock/fundamentals?symbols=...         估值/基本面
  */
 export class StockQuoteController {
@@ -61,6 +122,77 @@ export class StockQuoteController {
         return periodMap[klt];
     }
 
+    /**
+     * 解析指标参数，返回参数列表或错误信息
+     */
+    private static parseIndicatorParams(url: URL, spec: IndicatorParamSpec): number[] | string {
+        const raw = (url.searchParams.get(spec.key) || '').trim();
+        if (!raw) return spec.defaults;
+
+        const parts = raw.split(',').map(item => item.trim()).filter(Boolean);
+        const format = spec.count ? spec.defaults.join(',') : '5,10,20';
+        if (spec.count ? parts.length !== spec.count : parts.length === 0 || parts.length > 6) {
+            return `Invalid ${spec.key} - ${spec.key} 格式示例: ${format}`;
+        }
+
+        const values: number[] = [];
+        for (let i = 0; i < parts.length; i++) {
+            const value = Number(parts[i]);
+            const isDecimal = spec.decimalIndexes?.includes(i) ?? false;
+            const valid = isDecimal
+                ? Number.isFinite(value) && value > 0 && value <= 10
+                : Number.isInteger(value) && value >= 1 && value <= MAX_INDICATOR_PERIOD;
+            if (!valid) {
+                return `Invalid ${spec.key} - ${spec.key} 参数必须是 1-${MAX_INDICATOR_PERIOD} 的整数，格式示例: ${format}`;
+            }
+            values.push(value);
+        }
+
+        return values;
+    }
+
+    private static roundIndicator(value: IndicatorValue, digits = 3): IndicatorValue {
+        if (value === null || !Number.isFinite(value)) return null;
+        const factor = Math.pow(10, digits);
+        return Math.round(value * factor) / factor;
+    }
+
+    /**
+     * 计算指标并按列返回，列名如 MA5 / DIF / BOLL上轨
+     */
+    private static computeIndicatorColumns(
+        bars: KLineBar[],
+        indicators: IndicatorName[],
+        params: Partial<Record<IndicatorName, number[]>>,
+    ): Record<string, IndicatorValue[]> {
+        const closes = bars.map(bar => bar.close);
+        const columns: Record<string, IndicatorValue[]> = {};
+
+        for (const indicator of indicators) {
+            const values = params[indicator] || [];
+            if (indicator === 'MA') {
+                values.forEach(period => { columns[`MA${period}`] = calculateMA(closes, period); });
+            } else if (indicator === 'EMA') {
+                values.forEach(period => { columns[`EMA${period}`] = calculateEMA(closes, period); });
+            } else if (indicator === 'MACD') {
+                const { dif, dea, macd } = calculateMACD(closes, values[0], values[1], values[2]);
+                Object.assign(columns, { 'DIF': dif, 'DEA': dea, 'MACD': macd });
+            } else if (indicator === 'KDJ') {
+                const { k, d, j } = calculateKDJ(bars, values[0], values[1], values[2]);
+                Object.assign(columns, { 'K': k, 'D': d, 'J': j });
+            } else if (indicator === 'RSI') {
+                values.forEach(period => { columns[`RSI${period}`] = calculateRSI(closes, period); });
+            } else if (indicator === 'BOLL') {
+                const { mid, upper, lower } = calculateBOLL(closes, values[0], values[1]);
+                Object.assign(columns, { 'BOLL中轨': mid, 'BOLL上轨': upper, 'BOLL下轨': lower });
+            } else {
+                columns['OBV'] = calculateOBV(bars);
+            }
+        }
+
+        return columns;
+    }
+
     private static getFqtName(fqt: KLineFqt): string {
         const fqtMap: Record<KLineFqt, string> = {
             0: '不复权',
@@ -136,6 +268,43 @@ export class StockQuoteController {
         }
     }
 
+    /**
+     * 读取盘口 / 逐笔缓存：KV TTL 最短 60 秒，超过 freshSeconds 的缓存视为过期
+     */
+    private static async readRealtimeCache(
+        cacheKey: string,
+        freshSeconds: number,
+        cacheService: CacheService | null,
+    ): Promise<Record<string, any> | null> {
+        if (!cacheService) return null;
+        try {
+            const cached = await cacheService.get(cacheKey);
+            if (!isValidTimestampedRecordCachePayload(cached)) return null;
+            if (Date.now() - cached.timestamp > freshSeconds * 1000) return null;
+            return cached.data;
+        } catch (err) {
+            console.error(`Error reading realtime cache ${cacheKey}:`, err);
+            return null;
+        }
+    }
+
+    /**
+     * 写入盘口 / 逐笔缓存，仅交易时段写入
+     */
+    private static async writeRealtimeCache(
+        cacheKey: string,
+        data: Record<string, any>,
+        cacheService: CacheService | null,
+    ): Promise<void> {
+        if (!cacheService) return;
+        try {
+            if (!(await isAShareTradingTime())) return;
+            cacheService.set(cacheKey, buildTimestampedCachePayload(data), 60);
+        } catch (err) {
+            console.error(`Error writing realtime cache ${cacheKey}:`, err);
+        }
+    }
+
     private static isCacheableQuote(quote: Record<string, any>): boolean {
         if (!quote || typeof quote !== 'object' || Array.isArray(quote)) return false;
         if (Object.keys(quote).length === 0) return false;
@@ -161,68 +330,39 @@ export class StockQuoteController {
             return createResponse(400, `单次最多查询 ${MAX_SYMBOLS} 只股票`);
         }
 
-        const invalidSymbols = symbols.filter(s => !isValidAShareSymbol(s));
+        // 基本面仅支持股票，核心 / 盘口行情同时支持 ETF / LOF / 可转债
+        const isValidSymbol = level === 'fundamental' ? isValidAShareSymbol : isValidSecuritySymbol;
+        const invalidSymbols = symbols.filter(s => !isValidSymbol(s));
         if (invalidSymbols.length > 0) {
-            return createResponse(400, `Invalid symbol(s) - A股代码必须是6位数字: ${invalidSymbols.join(', ')}`);
+            const message = level === 'fundamental'
+                ? 'A股代码必须是6位数字'
+                : '仅支持 A股 / ETF / LOF / 可转债的6位代码';
+            return createResponse(400, `Invalid symbol(s) - ${message}: ${invalidSymbols.join(', ')}`);
         }
 
         try {
-            const cacheConfig = this.getQuoteCacheConfig(level);
             const cacheService = env.KV ? new CacheService(env.KV, ctx) : null;
+            const quotesBySymbol = cacheService
+                ? await MarketSnapshotService.getQuotes(symbols, level, cacheService)
+                : new Map<string, Record<string, any>>();
 
-            if (!cacheConfig || !cacheService) {
-                const results = await EmQuoteService.getBatchQuotes(symbols, level);
-
-                return createResponse(200, 'success', {
-                    '来源': '东方财富',
-                    '股票数量': results.length,
-                    '行情': results,
-                });
-            }
-
-            const quotesBySymbol = new Map<string, Record<string, any>>();
-            const cacheChecks = await Promise.all(symbols.map(async (symbol) => {
-                const cached = await this.readCachedQuote(level, symbol, cacheService);
-                return { symbol, cached };
-            }));
-
-            const missedSymbols: string[] = [];
-            for (const item of cacheChecks) {
-                if (item.cached) {
-                    quotesBySymbol.set(item.symbol, item.cached);
-                    continue;
-                }
-                missedSymbols.push(item.symbol);
-            }
-
-            if (missedSymbols.length > 0) {
-                const fetchedQuotes = await EmQuoteService.getBatchQuotes(missedSymbols, level);
-                const cacheableFetchedCount = fetchedQuotes.filter(quote => this.isCacheableQuote(quote)).length;
-                const cacheTtlSeconds = cacheableFetchedCount > 0
-                    ? await getAShareAdaptiveCacheTtlSeconds(cacheConfig.tradingTtlSeconds)
-                    : null;
-
-                const writeTasks: Promise<void>[] = [];
-                fetchedQuotes.forEach((quote, index) => {
-                    const symbol = missedSymbols[index];
-                    quotesBySymbol.set(symbol, quote);
-
-                    if (cacheTtlSeconds !== null && this.isCacheableQuote(quote)) {
-                        writeTasks.push(this.writeCachedQuote(level, symbol, quote, cacheService, cacheTtlSeconds));
-                    }
-                });
-
-                if (writeTasks.length > 0) {
-                    await Promise.all(writeTasks);
-                }
-            }
+            const pendingSymbols = symbols.filter(symbol => !quotesBySymbol.has(symbol));
+            const fallbackSymbols = pendingSymbols.slice(0, MAX_FALLBACK_SYMBOLS);
+            const skippedSymbols = new Set(pendingSymbols.slice(MAX_FALLBACK_SYMBOLS));
+            const fetched = fallbackSymbols.length > 0
+                ? await this.fillQuotesBySymbol(fallbackSymbols, level, cacheService, quotesBySymbol)
+                : false;
 
             const results = symbols.map(symbol => (
-                quotesBySymbol.get(symbol) ?? { '股票代码': symbol, '错误': '查询失败' }
+                quotesBySymbol.get(symbol) ?? {
+                    '股票代码': symbol,
+                    '错误': skippedSymbols.has(symbol)
+                        ? `行情快照暂不可用，单次最多逐只查询 ${MAX_FALLBACK_SYMBOLS} 只`
+                        : '查询失败',
+                }
             ));
-            const message = missedSymbols.length === 0 ? 'success (cached)' : 'success';
 
-            return createResponse(200, message, {
+            return createResponse(200, fetched ? 'success' : 'success (cached)', {
                 '来源': '东方财富',
                 '股票数量': results.length,
                 '行情': results,
@@ -233,6 +373,94 @@ export class StockQuoteController {
         }
     }
 
+    /**
+     * 快照未覆盖的股票：读单只 KV 缓存，未命中逐只回源并回填
+     * @returns 是否发生了回源
+     */
+    private static async fillQuotesBySymbol(
+        symbols: string[],
+        level: QuoteLevel,
+        cacheService: CacheService | null,
+        quotesBySymbol: Map<string, Record<string, any>>,
+    ): Promise<boolean> {
+        const cacheConfig = this.getQuoteCacheConfig(level);
+
+        if (!cacheConfig || !cacheService) {
+            const results = await EmQuoteService.getBatchQuotes(symbols, level);
+            results.forEach((quote, index) => quotesBySymbol.set(symbols[index], quote));
+            return true;
+        }
+
+        const cacheChecks = await Promise.all(symbols.map(async (symbol) => {
+            const cached = await this.readCachedQuote(level, symbol, cacheService);
+            return { symbol, cached };
+        }));
+
+        const missedSymbols: string[] = [];
+        for (const item of cacheChecks) {
+            if (item.cached) {
+                quotesBySymbol.set(item.symbol, item.cached);
+                continue;
+            }
+            missedSymbols.push(item.symbol);
+        }
+
+        if (missedSymbols.length === 0) return false;
+
+        const fetchedQuotes = await EmQuoteService.getBatchQuotes(missedSymbols, level);
+        const cacheableFetchedCount = fetchedQuotes.filter(quote => this.isCacheableQuote(quote)).length;
+        const cacheTtlSeconds = cacheableFetchedCount > 0
+            ? await getAShareAdaptiveCacheTtlSeconds(cacheConfig.tradingTtlSeconds)
+            : null;
+
+        const writeTasks: Promise<void>[] = [];
+        fetchedQuotes.forEach((quote, index) => {
+            const symbol = missedSymbols[index];
+            quotesBySymbol.set(symbol, quote);
+
+            if (cacheTtlSeconds !== null && this.isCacheableQuote(quote)) {
+                writeTasks.push(this.writeCachedQuote(level, symbol, quote, cacheService, cacheTtlSeconds));
+            }
+        });
+
+        if (writeTasks.length > 0) {
+            await Promise.all(writeTasks);
+        }
+
+        return true;
+    }
+
+    /**
+     * 回源刷新指定级别的行情缓存（供定时任务预热快照未覆盖的自选）
+     * @returns 成功写入缓存的股票数量
+     */
+    static async refreshQuoteCache(symbols: string[], level: QuoteLevel, env: Env, ctx: ExecutionContext): Promise<number> {
+        const cacheConfig = this.getQuoteCacheConfig(level);
+        const cacheService = env.KV ? new CacheService(env.KV, ctx) : null;
+        if (!cacheConfig || !cacheService || symbols.length === 0) return 0;
+
+        const fetchedQuotes = await EmQuoteService.getBatchQuotes(symbols, level);
+        const cacheTtlSeconds = await getAShareAdaptiveCacheTtlSeconds(cacheConfig.tradingTtlSeconds);
+
+        let written = 0;
+        await Promise.all(fetchedQuotes.map(async (quote, index) => {
+            if (!this.isCacheableQuote(quote)) return;
+            await this.writeCachedQuote(level, symbols[index], quote, cacheService, cacheTtlSeconds);
+            written += 1;
+        }));
+
+        return written;
+    }
+
+    /**
+     * 刷新全市场行情快照（供定时任务调用）
+     * @returns 快照收录的股票数量与翻页数
+     */
+    static async refreshMarketSnapshot(env: Env, ctx: ExecutionContext): Promise<{ pages: number; total: number }> {
+        if (!env.KV) return { pages: 0, total: 0 };
+        return MarketSnapshotService.refreshSnapshot(new CacheService(env.KV, ctx));
+    }
+
     /** 一级：核心行情 */
     static async getCoreQuotes(request: Request, env: Env, ctx: ExecutionContext) {
         return this.handleBatchQuotes(request, 'core', env, ctx);
@@ -262,8 +490,8 @@ export class StockQuoteController {
             return createResponse(400, '缺少 symbol 参数，示例: ?symbol=000001');
         }
 
-        if (!isValidAShareSymbol(symbol)) {
-            return createResponse(400, 'Invalid symbol - A股代码必须是6位数字');
+        if (!isValidSecuritySymbol(symbol)) {
+            return createResponse(400, 'Invalid symbol - 仅支持 A股 / ETF / LOF / 可转债的6位代码');
         }
 
         let klt: KLinePeriod = 101;
@@ -305,16 +533,16 @@ export class StockQuoteController {
         }
 
         try {
-            const klines = await EmKlineService.getKLine({
+            const { klines, cached } = await KlineCacheService.getKLine({
                 symbol,
                 klt,
                 fqt,
                 limit,
                 startDate: startDate || undefined,
                 endDate: endDate || undefined,
-            });
+            }, env);
 
-            return createResponse(200, 'success', {
+            return createResponse(200, cached ? 'success (cached)' : 'success', {
                 '来源': '东方财富',
                 '股票代码': symbol,
                 'K线周期': this.getKLinePeriodName(klt),
@@ -327,4 +555,286 @@ export class StockQuoteController {
             return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
         }
     }
+
+    /**
+     * 技术指标
+     * 基于 K 线在服务端计算 MA/EMA/MACD/KDJ/RSI/BOLL/OBV，按 时间 对齐返回。
+     * 为保证 EMA 类指标收敛，会额外回溯 INDICATOR_WARMUP_BARS 根 K 线，计算后仅返回最近 limit 根。
+     */
+    static async getIndicators(request: Request, env: Env, ctx: ExecutionContext) {
+        const url = new URL(request.url);
+        const symbol = (url.searchParams.get('symbol') || '').trim();
+        const kltParam = url.searchParams.get('klt');
+        const fqtParam = url.searchParams.get('fqt');
+        const limitParam = url.searchParams.get('limit');
+        const indicatorsParam = (url.searchParams.get('indicators') || '').trim();
+
+        if (!symbol) {
+            return createResponse(400, '缺少 symbol 参数，示例: ?symbol=000001');
+        }
+
+        if (!isValidSecuritySymbol(symbol)) {
+            return createResponse(400, 'Invalid symbol - 仅支持 A股 / ETF / LOF / 可转债的6位代码');
+        }
+
+        let klt: KLinePeriod = 101;
+        if (kltParam !== null && kltParam !== '') {
+            const parsedKlt = this.parseIntegerParam(kltParam);
+            if (parsedKlt === null || !SUPPORTED_KLT.has(parsedKlt)) {
+                return createResponse(400, 'Invalid klt - klt 仅支持 1/5/15/30/60/101/102/103');
+            }
+            klt = parsedKlt as KLinePeriod;
+        }
+
+        let fqt: KLineFqt = klt >= 100 ? 1 : 0;
+        if (fqtParam !== null && fqtParam !== '') {
+            const parsedFqt = this.parseIntegerParam(fqtParam);
+            if (parsedFqt !== 0 && parsedFqt !== 1 && parsedFqt !== 2) {
+                return createResponse(400, 'Invalid fqt - fqt 仅支持 0/1/2');
+            }
+            fqt = parsedFqt;
+        }
+
+        let limit = 120;
+        if (limitParam !== null && limitParam !== '') {
+            const parsedLimit = this.parseIntegerParam(limitParam);
+            if (parsedLimit === null || parsedLimit <= 0 || parsedLimit > MAX_KLINE_LIMIT) {
+                return createResponse(400, `Invalid limit - limit 必须是 1-${MAX_KLINE_LIMIT} 的整数`);
+            }
+            limit = parsedLimit;
+        }
+
+        const indicators: IndicatorName[] = [];
+        const requested = indicatorsParam
+            ? indicatorsParam.split(',').map(item => item.trim().toUpperCase()).filter(Boolean)
+            : [...SUPPORTED_INDICATORS];
+        for (const name of requested) {
+            if (!(SUPPORTED_INDICATORS as readonly string[]).includes(name)) {
+                return createResponse(400, `Invalid indicators - indicators 仅支持 ${SUPPORTED_INDICATORS.join('/')}`);
+            }
+            if (!indicators.includes(name as IndicatorName)) {
+                indicators.push(name as IndicatorName);
+            }
+        }
+        if (indicators.length === 0) {
+            return createResponse(400, `Invalid indicators - indicators 仅支持 ${SUPPORTED_INDICATORS.join('/')}`);
+        }
+
+        const params: Partial<Record<IndicatorName, number[]>> = {};
+        for (const indicator of indicators) {
+            if (indicator === 'OBV') continue;
+            const parsed = this.parseIndicatorParams(url, INDICATOR_PARAM_SPECS[indicator]);
+            if (typeof parsed === 'string') {
+                return createResponse(400, parsed);
+            }
+            params[indicator] = parsed;
+        }
+
+        try {
+            const { klines, cached } = await KlineCacheService.getKLine({
+                symbol,
+                klt,
+                fqt,
+                limit: limit + INDICATOR_WARMUP_BARS,
+            }, env);
+            const rows = klines.filter(row => (
+                typeof row['收盘价'] === 'number'
+                && typeof row['最高价'] === 'number'
+                && typeof row['最低价'] === 'number'
+            ));
+            const bars: KLineBar[] = rows.map(row => ({
+                close: row['收盘价'],
+                high: row['最高价'],
+                low: row['最低价'],
+                volume: typeof row['成交量'] === 'number' ? row['成交量'] : 0,
+            }));
+
+            const columns = this.computeIndicatorColumns(bars, indicators, params);
+            const start = Math.max(0, rows.length - limit);
+            const data = rows.slice(start).map((row, offset) => {
+                const index = start + offset;
+                const item: Record<string, any> = {
+                    '时间': row['时间'],
+                    '收盘价': row['收盘价'],
+                };
+                for (const [column, values] of Object.entries(columns)) {
+                    item[column] = this.roundIndicator(values[index], column === 'OBV' ? 0 : 3);
+                }
+                return item;
+            });
+
+            return createResponse(200, cached ? 'success (cached)' : 'success', {
+                '来源': '东方财富',
+                '股票代码': symbol,
+                'K线周期': this.getKLinePeriodName(klt),
+                '复权类型': this.getFqtName(fqt),
+                '指标': indicators,
+                '参数': Object.fromEntries(
+                    Object.entries(params).map(([indicator, values]) => [indicator, values]),
+                ),
+                '数量': data.length,
+                '数据': data,
+            });
+        } catch (err: any) {
+            console.error(`Error computing indicators for ${symbol}:`, err);
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+
+    /**
+     * 分时
+     * GET /api/cn/stocks/:symbol/trends?days=1..5
+     */
+    static async getTrends(symbol: string, request: Request, env: Env, ctx: ExecutionContext) {
+        const url = new URL(request.url);
+        const daysParam = url.searchParams.get('days');
+
+        let days = 1;
+        if (daysParam !== null && daysParam !== '') {
+            const parsedDays = this.parseIntegerParam(daysParam);
+            if (parsedDays === null || parsedDays < 1 || parsedDays > MAX_TREND_DAYS) {
+                return createResponse(400, `Invalid days - days 必须是 1-${MAX_TREND_DAYS} 的整数`);
+            }
+            days = parsedDays;
+        }
+
+        const cacheService = env.KV ? new CacheService(env.KV, ctx) : null;
+        const cacheKey = `${STOCK_TRENDS_CACHE_KEY_PREFIX}${symbol}:${days}`;
+
+        if (cacheService) {
+            try {
+                const cached = await cacheService.get(cacheKey);
+                if (isValidTimestampedRecordCachePayload(cached)) {
+                    return createResponse(200, 'success (cached)', cached.data);
+                }
+            } catch (err) {
+                console.error(`Error reading stock trends cache ${cacheKey}:`, err);
+            }
+        }
+
+        try {
+            const trends = await EmTrendsService.getTrends(symbol, days);
+            const data = {
+                '来源': '东方财富',
+                '股票代码': symbol,
+                ...trends,
+            };
+
+            if (cacheService) {
+                try {
+                    const ttlSeconds = await getAShareAdaptiveCacheTtlSeconds(STOCK_TRENDS_TRADING_TTL_SECONDS);
+                    cacheService.set(cacheKey, buildTimestampedCachePayload(data), ttlSeconds);
+                } catch (err) {
+                    console.error(`Error writing stock trends cache ${cacheKey}:`, err);
+                }
+            }
+
+            return createResponse(200, 'success', data);
+        } catch (err: any) {
+            console.error(`Error fetching trends for ${symbol}:`, err);
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+
+    /**
+     * 五档盘口
+     * GET /api/cn/stocks/:symbol/orderbook
+     */
+    static async getOrderBook(symbol: string, request: Request, env: Env, ctx: ExecutionContext) {
+        const cacheService = env.KV ? new CacheService(env.KV, ctx) : null;
+        const cacheKey = `${STOCK_ORDERBOOK_CACHE_KEY_PREFIX}${symbol}`;
+
+        const cached = await this.readRealtimeCache(cacheKey, STOCK_ORDERBOOK_FRESH_SECONDS, cacheService);
+        if (cached) {
+            return createResponse(200, 'success (cached)', cached);
+        }
+
+        try {
+            const orderBook = await EmQuoteService.getOrderBook(symbol);
+            const data = { '来源': '东方财富', ...orderBook };
+            await this.writeRealtimeCache(cacheKey, data, cacheService);
+            return createResponse(200, 'success', data);
+        } catch (err: any) {
+            console.error(`Error fetching order book for ${symbol}:`, err);
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+
+    /**
+     * 逐笔成交
+     * GET /api/cn/stocks/:symbol/ticks?since=HH:MM:SS&sinceCount=2&limit=100
+     * since + sinceCount 用于增量轮询：since 精确到秒，同一秒内可能陆续成交，
+     * 返回 since 当秒及之后的成交，并跳过 since 当秒已返回过的前 sinceCount 笔（逐笔成交只追加、顺序不变）
+     */
+    static async getTicks(symbol: string, request: Request, env: Env, ctx: ExecutionContext) {
+        const url = new URL(request.url);
+        const since = (url.searchParams.get('since') || '').trim();
+        const sinceCountParam = url.searchParams.get('sinceCount');
+        const limitParam = url.searchParams.get('limit');
+
+        if (since && !/^\d{2}:\d{2}(:\d{2})?$/.test(since)) {
+            return createResponse(400, 'Invalid since - since 格式必须为 HH:MM:SS');
+        }
+
+        let sinceCount = 0;
+        if (sinceCountParam !== null && sinceCountParam !== '') {
+            const parsedSinceCount = this.parseIntegerParam(sinceCountParam);
+            if (!since || parsedSinceCount === null || parsedSinceCount < 0) {
+                return createResponse(400, 'Invalid sinceCount - sinceCount 必须是大于等于0的整数，且需与 since 同时使用');
+            }
+            sinceCount = parsedSinceCount;
+        }
+
+        let limit = DEFAULT_TICK_LIMIT;
+        if (limitParam !== null && limitParam !== '') {
+            const parsedLimit = this.parseIntegerParam(limitParam);
+            if (parsedLimit === null || parsedLimit <= 0 || parsedLimit > TICK_FETCH_COUNT) {
+                return createResponse(400, `Invalid limit - limit 必须是 1-${TICK_FETCH_COUNT} 的整数`);
+            }
+            limit = parsedLimit;
+        }
+
+        const cacheService = env.KV ? new CacheService(env.KV, ctx) : null;
+        const cacheKey = `${STOCK_TICKS_CACHE_KEY_PREFIX}${symbol}`;
+
+        let result = await this.readRealtimeCache(cacheKey, STOCK_TICKS_FRESH_SECONDS, cacheService);
+        const cached = result !== null;
+
+        try {
+            if (!result) {
+                result = await EmQuoteService.getTicks(symbol, TICK_FETCH_COUNT);
+                await this.writeRealtimeCache(cacheKey, result, cacheService);
+            }
+
+            const sinceTime = since.length === 5 ? `${since}:00` : since;
+            const allTicks: Record<string, any>[] = Array.isArray(result['逐笔成交']) ? result['逐笔成交'] : [];
+            let skipped = 0;
+            const ticks = (sinceTime
+                ? allTicks.filter((tick) => {
+                    const time = String(tick['时间']);
+                    if (time !== sinceTime) return time > sinceTime;
+                    skipped += 1;
+                    return skipped > sinceCount;
+                })
+                : allTicks
+            ).slice(-limit);
+
+            const latestTime = ticks.length > 0 ? String(ticks[ticks.length - 1]['时间']) : null;
+            return createResponse(200, cached ? 'success (cached)' : 'success', {
+                '来源': '东方财富',
+                '股票代码': symbol,
+                '昨收价': result['昨收价'] ?? null,
+                '数量': ticks.length,
+                '最新时间': latestTime ?? (since || null),
+                // 最新时间当秒的成交笔数（含此前已返回的），下次轮询作为 sinceCount 传入
+                '最新时间笔数': latestTime
+                    ? allTicks.filter(tick => String(tick['时间']) === latestTime).length
+                    : sinceCount,
+                '逐笔成交': ticks,
+            });
+        } catch (err: any) {
+            console.error(`Error fetching ticks for ${symbol}:`, err);
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
 }
@@ -60,6 +60,16 @@ export class StockRankController {
         }
     }
 
+    /**
+     * 回源刷新热门人气榜缓存（供定时任务预热）
+     * @returns 写入缓存的股票数量
+     */
+    static async refreshHotStocksCache(env: Env): Promise<number> {
+        const rankList = await EmStockRankService.getStockHotRank();
+        await this.writeHotStocksCache(env, rankList);
+        return Math.min(rankList.length, this.MAX_COUNT);
+    }
+
     static async getHotRank(request: Request, env: Env, ctx: ExecutionContext) {
         try {
             const url = new URL(request.url);
@@ -0,0 +1,495 @@
+import { createResponse } from '../utils/response';
+import { isValidTagCode } from '../utils/validator';
+import { getAShareAdaptiveCacheTtlSeconds } from '../utils/tradingTime';
+import { EmTagRankService, TagRankSort } from '../services/EmTagRankService';
+import { CacheService } from '../services/CacheService';
+import {
+    TAG_RANK_CACHE_KEY_PREFIX,
+    TAG_RANK_TRADING_TTL_SECONDS,
+    buildTimestampedCachePayload,
+    isValidTimestampedRecordCachePayload,
+} from '../constants/cache';
+import { Env } from '../index';
+
+type TagType = '概念板块' | '地域板块' | '行业板块';
+
+interface TagRow {
+    tag_code: string;
+    tag_name: string;
+    tag_type: TagType;
+}
+
+interface TagListRow extends TagRow {
+    member_count: number;
+}
+
+interface TagNewsRow {
+    news_id: string;
+    effect_type: '利好' | '利空';
+    created_at: string;
+}
+
+interface TagStockRow {
+    symbol: string;
+    name: string | null;
+    market: string | null;
+}
+
+/**
+ * 板块标签控制器（D1 数据库 tags / stock_tags；板块排行实时行情来自东方财富）
+ */
+export class TagController {
+    /** 板块类型，按输出顺序排列 */
+    private static readonly TAG_TYPES: TagType[] = ['概念板块', '地域板块', '行业板块'];
+    /** 默认每页数量 */
+    private static readonly DEFAULT_PAGE_SIZE = 50;
+    /** 最大每页数量 */
+    private static readonly MAX_PAGE_SIZE = 500;
+    /** 板块排行默认数量 */
+    private static readonly RANK_DEFAULT_COUNT = 20;
+    /** 板块排行最大数量 */
+    private static readonly RANK_MAX_COUNT = 100;
+
+    /**
+     * 解析分页参数，校验失败时返回错误响应
+     */
+    private static parsePagination(url: URL): { page: number; pageSize: number } | Response {
+        const pageParam = url.searchParams.get('page');
+        const pageSizeParam = url.searchParams.get('pageSize');
+
+        let page = 1;
+        if (pageParam) {
+            const parsed = Number(pageParam);
+            if (!Number.isInteger(parsed) || parsed < 1) {
+                return createResponse(400, 'Invalid page - page 必须是大于0的整数');
+            }
+            page = parsed;
+        }
+
+        let pageSize = this.DEFAULT_PAGE_SIZE;
+        if (pageSizeParam) {
+            const parsed = Number(pageSizeParam);
+            if (!Number.isInteger(parsed) || parsed < 1 || parsed > this.MAX_PAGE_SIZE) {
+                return createResponse(400, `Invalid pageSize - pageSize 必须是 1-${this.MAX_PAGE_SIZE} 的整数`);
+            }
+            pageSize = parsed;
+        }
+
+        return { page, pageSize };
+    }
+
+    /**
+     * 将 session bookmark 添加到响应头，以便后续请求继续使用
+     */
+    private static withBookmark(response: Response, session: D1DatabaseSession): Response {
+        const newBookmark = session.getBookmark();
+        if (newBookmark) {
+            response.headers.set('x-d1-bookmark', newBookmark);
+        }
+        return response;
+    }
+
+    /**
+     * 解析板块类型参数，支持完整名称（概念板块）与简称（概念）
+     */
+    private static parseTagType(typeParam: string): TagType | null {
+        const normalized = typeParam.endsWith('板块') ? typeParam : `${typeParam}板块`;
+        return this.TAG_TYPES.find(tagType => tagType === normalized) ?? null;
+    }
+
+    /**
+     * 板块目录查询接口
+     * 支持按类型筛选、关键词搜索（代码/名称）与分页，附带成分股数量
+     */
+    static async getTagList(request: Request, env: Env, ctx: ExecutionContext) {
+        const url = new URL(request.url);
+        const typeParam = url.searchParams.get('type')?.trim();
+        const keyword = url.searchParams.get('keyword')?.trim();
+
+        const pagination = this.parsePagination(url);
+        if (pagination instanceof Response) return pagination;
+        const { page, pageSize } = pagination;
+
+        let tagType: TagType | null = null;
+        if (typeParam) {
+            tagType = this.parseTagType(typeParam);
+            if (!tagType) {
+                return createResponse(400, `Invalid type - type 必须是 ${this.TAG_TYPES.join('/')} 之一`);
+            }
+        }
+
+        if (keyword && keyword.length > 10) {
+            return createResponse(400, '关键词长度不能超过10个字符');
+        }
+
+        try {
+            const bookmark = request.headers.get('x-d1-bookmark') ?? 'first-unconstrained';
+            const session = env.DB.withSession(bookmark);
+
+            const whereConditions: string[] = [];
+            const params: any[] = [];
+
+            // 类型筛选（走 idx_tags_type_code 索引）
+            if (tagType) {
+                whereConditions.push('t.tag_type = ?');
+                params.push(tagType);
+            }
+
+            // 关键词搜索（支持板块代码、名称）
+            if (keyword) {
+                whereConditions.push('(t.tag_code LIKE ? OR t.tag_name LIKE ?)');
+                const keywordPattern = `%${keyword}%`;
+                params.push(keywordPattern, keywordPattern);
+            }
+
+            const whereClause = whereConditions.length > 0 ? ' WHERE ' + whereConditions.join(' AND ') : '';
+
+            const countResult = await session
+                .prepare(`SELECT COUNT(*) as total FROM tags t${whereClause}`)
+                .bind(...params)
+                .first<{ total: number }>();
+
+            const total = countResult?.total || 0;
+            const totalPages = Math.ceil(total / pageSize);
+
+            // 成分股数量走 idx_stock_tags_tag_symbol 索引
+            const result = await session
+                .prepare(
+                    `SELECT t.tag_code, t.tag_name, t.tag_type,
+                            (SELECT COUNT(*) FROM stock_tags st WHERE st.tag_code = t.tag_code) AS member_count
+                     FROM tags t${whereClause}
+                     ORDER BY t.tag_type, t.tag_code
+                     LIMIT ? OFFSET ?`,
+                )
+                .bind(...params, pageSize, (page - 1) * pageSize)
+                .all<TagListRow>();
+
+            const tagList = (result.results || []).map(tag => ({
+                '板块代码': tag.tag_code,
+                '板块名称': tag.tag_name,
+                '板块类型': tag.tag_type,
+                '成分股数量': tag.member_count,
+            }));
+
+            const response = createResponse(200, 'success', {
+                '数据源': 'D1数据库',
+                '当前页': page,
+                '每页数量': pageSize,
+                '总数量': total,
+                '总页数': totalPages,
+                '板块列表': tagList,
+            });
+            return this.withBookmark(response, session);
+        } catch (err: any) {
+            console.error('Error fetching tag list:', err);
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+
+    /**
+     * 查询个股所属板块，按板块类型分组
+     */
+    static async getStockTags(symbol: string, request: Request, env: Env, ctx: ExecutionContext) {
+        try {
+            const bookmark = request.headers.get('x-d1-bookmark') ?? 'first-unconstrained';
+            const session = env.DB.withSession(bookmark);
+
+            const stock = await session
+                .prepare('SELECT name FROM stocks WHERE symbol = ?1')
+                .bind(symbol)
+                .first<{ name: string }>();
+
+            // 走 idx_stock_tags_symbol_tag 索引
+            const { results } = await session
+                .prepare(
+                    `SELECT t.tag_code, t.tag_name, t.tag_type
+                     FROM stock_tags st
+                     INNER JOIN tags t ON t.tag_code = st.tag_code
+                     WHERE st.symbol = ?1
+                     ORDER BY t.tag_type, t.tag_code`,
+                )
+                .bind(symbol)
+                .all<TagRow>();
+
+            const rows = results || [];
+            const grouped: Record<string, { '板块代码': string; '板块名称': string }[]> = {};
+            for (const tagType of this.TAG_TYPES) {
+                grouped[tagType] = [];
+            }
+            for (const row of rows) {
+                grouped[row.tag_type]?.push({
+                    '板块代码': row.tag_code,
+                    '板块名称': row.tag_name,
+                });
+            }
+
+            const response = createResponse(200, 'success', {
+                '数据源': 'D1数据库',
+                '股票代码': symbol,
+                '股票简称': stock?.name || '',
+                '板块数量': rows.length,
+                ...grouped,
+            });
+            return this.withBookmark(response, session);
+        } catch (err: any) {
+            console.error(`Error fetching tags for ${symbol}:`, err);
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+
+    /**
+     * 分页查询板块成分股
+     */
+    static async getTagStocks(tagCodeParam: string, request: Request, env: Env, ctx: ExecutionContext) {
+        const tagCode = tagCodeParam.toUpperCase();
+        if (!isValidTagCode(tagCode)) {
+            return createResponse(400, 'Invalid tagCode - tagCode 必须是 BK+4位数字，例如 BK0428');
+        }
+
+        const pagination = this.parsePagination(new URL(request.url));
+        if (pagination instanceof Response) return pagination;
+        const { page, pageSize } = pagination;
+
+        try {
+            const bookmark = request.headers.get('x-d1-bookmark') ?? 'first-unconstrained';
+            const session = env.DB.withSession(bookmark);
+
+            const tag = await session
+                .prepare('SELECT tag_code, tag_name, tag_type FROM tags WHERE tag_code = ?1')
+                .bind(tagCode)
+                .first<TagRow>();
+
+            if (!tag) {
+                return this.withBookmark(createResponse(404, `未找到板块 ${tagCode}`), session);
+            }
+
+            // 走 idx_stock_tags_tag_symbol 索引
+            const countResult = await session
+                .prepare('SELECT COUNT(*) as total FROM stock_tags WHERE tag_code = ?1')
+                .bind(tagCode)
+                .first<{ total: number }>();
+
+            const total = countResult?.total || 0;
+            const totalPages = Math.ceil(total / pageSize);
+
+            const result = await session
+                .prepare(
+                    `SELECT st.symbol, s.name, s.market
+                     FROM stock_tags st
+                     LEFT JOIN stocks s ON s.symbol = st.symbol
+                     WHERE st.tag_code = ?1
+                     ORDER BY st.symbol
+                     LIMIT ?2 OFFSET ?3`,
+                )
+                .bind(tagCode, pageSize, (page - 1) * pageSize)
+                .all<TagStockRow>();
+
+            const stockList = (result.results || []).map(stock => ({
+                '股票代码': stock.symbol,
+                '股票简称': stock.name || '',
+                '市场代码': stock.market || '',
+            }));
+
+            const response = createResponse(200, 'success', {
+                '数据源': 'D1数据库',
+                '板块代码': tag.tag_code,
+                '板块名称': tag.tag_name,
+                '板块类型': tag.tag_type,
+                '当前页': page,
+                '每页数量': pageSize,
+                '总数量': total,
+                '总页数': totalPages,
+                '成分股': stockList,
+            });
+            return this.withBookmark(response, session);
+        } catch (err: any) {
+            console.error(`Error fetching stocks for tag ${tagCode}:`, err);
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+
+    /**
+     * 分页查询板块关联的利好/利空新闻（按标注时间倒序）
+     */
+    static async getTagNews(tagCodeParam: string, request: Request, env: Env, ctx: ExecutionContext) {
+        const tagCode = tagCodeParam.toUpperCase();
+        if (!isValidTagCode(tagCode)) {
+            return createResponse(400, 'Invalid tagCode - tagCode 必须是 BK+4位数字，例如 BK0428');
+        }
+
+        const url = new URL(request.url);
+        const pagination = this.parsePagination(url);
+        if (pagination instanceof Response) return pagination;
+        const { page, pageSize } = pagination;
+
+        const effect = url.searchParams.get('effect')?.trim();
+        if (effect && effect !== '利好' && effect !== '利空') {
+            return createResponse(400, 'Invalid effect - effect 必须是 利好/利空 之一');
+        }
+
+        try {
+            const bookmark = request.headers.get('x-d1-bookmark') ?? 'first-unconstrained';
+            const session = env.DB.withSession(bookmark);
+
+            const tag = await session
+                .prepare('SELECT tag_code, tag_name, tag_type FROM tags WHERE tag_code = ?1')
+                .bind(tagCode)
+                .first<TagRow>();
+
+            if (!tag) {
+                return this.withBookmark(createResponse(404, `未找到板块 ${tagCode}`), session);
+            }
+
+            let whereClause = ' WHERE tag_code = ?';
+            const params: any[] = [tagCode];
+            if (effect) {
+                whereClause += ' AND effect_type = ?';
+                params.push(effect);
+            }
+
+            const countResult = await session
+                .prepare(`SELECT COUNT(*) as total FROM news_tags${whereClause}`)
+                .bind(...params)
+                .first<{ total: number }>();
+
+            const total = countResult?.total || 0;
+            const totalPages = Math.ceil(total / pageSize);
+
+            const result = await session
+                .prepare(
+                    `SELECT news_id, effect_type, created_at
+                     FROM news_tags${whereClause}
+                     ORDER BY created_at DESC, news_id DESC
+                     LIMIT ? OFFSET ?`,
+                )
+                .bind(...params, pageSize, (page - 1) * pageSize)
+                .all<TagNewsRow>();
+
+            const newsList = (result.results || []).map(row => ({
+                '新闻ID': row.news_id,
+                '链接': `https://www.cls.cn/detail/${row.news_id}`,
+                '影响': row.effect_type,
+                '标注时间': row.created_at,
+            }));
+
+            const response = createResponse(200, 'success', {
+                '数据源': 'D1数据库',
+                '板块代码': tag.tag_code,
+                '板块名称': tag.tag_name,
+                '板块类型': tag.tag_type,
+                '当前页': page,
+                '每页数量': pageSize,
+                '总数量': total,
+                '总页数': totalPages,
+                '新闻列表': newsList,
+            });
+            return this.withBookmark(response, session);
+        } catch (err: any) {
+            console.error(`Error fetching news for tag ${tagCode}:`, err);
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+
+    /**
+     * 板块排行接口
+     * GET /api/cn/tags/rank?type=概念板块&sort=change|inflow|turnover&order=desc|asc&count=20
+     * 实时行情来自东方财富，按 tag_code 关联 D1 tags 表补充收录状态与成分股数量
+     */
+    static async getTagRank(request: Request, env: Env, ctx: ExecutionContext) {
+        const url = new URL(request.url);
+        const typeParam = url.searchParams.get('type')?.trim() || '概念板块';
+        const sortParam = url.searchParams.get('sort')?.trim() || 'change';
+        const orderParam = url.searchParams.get('order')?.trim() || 'desc';
+        const countParam = url.searchParams.get('count');
+
+        const tagType = this.parseTagType(typeParam);
+        if (!tagType) {
+            return createResponse(400, `Invalid type - type 必须是 ${this.TAG_TYPES.join('/')} 之一`);
+        }
+
+        if (!Object.prototype.hasOwnProperty.call(EmTagRankService.SORT_FIELDS, sortParam)) {
+            return createResponse(400, 'Invalid sort - sort 必须是 change/inflow/turnover 之一');
+        }
+        const sort = sortParam as TagRankSort;
+
+        if (orderParam !== 'desc' && orderParam !== 'asc') {
+            return createResponse(400, 'Invalid order - order 必须是 desc 或 asc');
+        }
+
+        let count = this.RANK_DEFAULT_COUNT;
+        if (countParam !== null && countParam !== '') {
+            const parsed = Number(countParam);
+            if (!Number.isInteger(parsed) || parsed <= 0 || parsed > this.RANK_MAX_COUNT) {
+                return createResponse(400, `Invalid count - count 必须是 1-${this.RANK_MAX_COUNT} 的整数`);
+            }
+            count = parsed;
+        }
+
+        const cacheService = env.KV ? new CacheService(env.KV, ctx) : null;
+        const cacheKey = `${TAG_RANK_CACHE_KEY_PREFIX}${tagType}:${sort}:${orderParam}:${count}`;
+
+        if (cacheService) {
+            try {
+                const cached = await cacheService.get(cacheKey);
+                if (isValidTimestampedRecordCachePayload(cached)) {
+                    return createResponse(200, 'success (cached)', cached.data);
+                }
+            } catch (err) {
+                console.error(`Error reading tag rank cache ${cacheKey}:`, err);
+            }
+        }
+
+        try {
+            const rankList = await EmTagRankService.getTagRank(tagType, sort, count, orderParam === 'asc');
+
+            const tagCodes = rankList.map(item => item['板块代码']);
+            const localTags = new Map<string, TagListRow>();
+            if (tagCodes.length > 0) {
+                const placeholders = tagCodes.map(() => '?').join(', ');
+                const { results } = await env.DB
+                    .prepare(
+                        `SELECT t.tag_code, t.tag_name, t.tag_type,
+                                (SELECT COUNT(*) FROM stock_tags st WHERE st.tag_code = t.tag_code) AS member_count
+                         FROM tags t
+                         WHERE t.tag_code IN (${placeholders})`,
+                    )
+                    .bind(...tagCodes)
+                    .all<TagListRow>();
+                for (const row of results || []) {
+                    localTags.set(row.tag_code, row);
+                }
+            }
+
+            const data = {
+                '来源': '东方财富 https://push2.eastmoney.com/api/qt/clist/get',
+                '板块类型': tagType,
+                '排序字段': EmTagRankService.SORT_FIELDS[sort].label,
+                '排序方式': orderParam === 'asc' ? '升序' : '降序',
+                '数量': rankList.length,
+                '板块列表': rankList.map((item, index) => {
+                    const local = localTags.get(item['板块代码']);
+                    return {
+                        '排名': index + 1,
+                        ...item,
+                        '已收录': !!local,
+                        '成分股数量': local ? local.member_count : null,
+                    };
+                }),
+            };
+
+            if (cacheService) {
+                try {
+                    const ttlSeconds = await getAShareAdaptiveCacheTtlSeconds(TAG_RANK_TRADING_TTL_SECONDS);
+                    cacheService.set(cacheKey, buildTimestampedCachePayload(data), ttlSeconds);
+                } catch (err) {
+                    console.error(`Error writing tag rank cache ${cacheKey}:`, err);
+                }
+            }
+
+            return createResponse(200, 'success', data);
+        } catch (err: any) {
+            console.error('Error fetching tag rank:', err);
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+    }
+}
@@ -1,19 +1,29 @@
 import { createResponse } from '../utils/response';
 import { verifyJwt } from '../utils/jwt';
-import { isValidAShareSymbol } from '../utils/validator';
+import { isValidSecuritySymbol } from '../utils/validator';
+import { formatToChinaTime } from '../utils/datetime';
+import { PushNewsService } from '../services/PushNewsService';
+import { WechatMessageService, WechatSendResult } from '../services/WechatMessageService';
 import type { Env } from '../index';
 
 /**
  * 用户相关接口（自选股管理）
  */
 export class UserController {
+    /** 推送新闻默认返回条数 */
+    private static readonly PUSH_NEWS_DEFAULT_LIMIT = 20;
+    /** 推送新闻最大返回条数 */
+    private static readonly PUSH_NEWS_MAX_LIMIT = 50;
+    /** 测试消息最大长度 */
+    private static readonly TEST_MESSAGE_MAX_LENGTH = 200;
+
     private static log(stage: string, message: string, data?: any): void {
         const ts = new Date().toISOString();
         const detail = data !== undefined ? ` | ${JSON.stringify(data)}` : '';
         console.log(`[User][${stage}] ${ts} ${message}${detail}`);
     }
 
-    private static async requireAuth(request: Request, env: Env): Promise<{ ok: true; openid: string } | { ok: false; code: number; message: string }> {
+    static async requireAuth(request: Request, env: Env): Promise<{ ok: true; openid: string } | { ok: false; code: number; message: string }> {
         const cookie = request.headers.get('Cookie') || '';
         const tokenMatch = cookie.match(/(?:^|;\s*)token=([^;]+)/);
         if (!tokenMatch) return { ok: false, code: 401, message: '未登录' };
@@ -23,6 +33,17 @@ export class UserController {
         return { ok: true, openid: payload.openid };
     }
 
+    /**
+     * 运维接口鉴权：需已登录，且 openid 在 ADMIN_OPENIDS（逗号分隔）中；未配置时任何用户均无权限
+     */
+    static async requireAdmin(request: Request, env: Env): Promise<{ ok: true; openid: string } | { ok: false; code: number; message: string }> {
+        const auth = await UserController.requireAuth(request, env);
+        if (!auth.ok) return auth;
+        const adminOpenids = (env.ADMIN_OPENIDS || '').split(',').map(s => s.trim()).filter(Boolean);
+        if (!adminOpenids.includes(auth.openid)) return { ok: false, code: 403, message: '无权限访问' };
+        return auth;
+    }
+
     private static async extractSymbols(request: Request, allowQuery = true): Promise<string[]> {
         if (request.headers.get('Content-Type')?.includes('application/json')) {
             try {
@@ -148,10 +169,10 @@ export class UserController {
             return createResponse(400, '缺少 symbols 参数');
         }
 
-        const validSymbols = symbols.filter(isValidAShareSymbol);
+        const validSymbols = symbols.filter(isValidSecuritySymbol);
         UserController.log('addFavorites', '过滤有效 symbols', { count: validSymbols.length, validSymbols });
         if (validSymbols.length === 0) {
-            return createResponse(400, 'symbols 均无效，需 6 位 A 股代码');
+            return createResponse(400, 'symbols 均无效，仅支持 A股 / ETF / LOF / 可转债的6位代码');
         }
 
         const stmt = env.DB.prepare('INSERT OR IGNORE INTO user_stocks (openid, symbol) VALUES (?1, ?2)');
@@ -191,10 +212,10 @@ export class UserController {
             return createResponse(400, '缺少 symbols 参数');
         }
 
-        const validSymbols = symbols.filter(isValidAShareSymbol);
+        const validSymbols = symbols.filter(isValidSecuritySymbol);
         UserController.log('removeFavorites', '过滤有效 symbols', { count: validSymbols.length, validSymbols });
         if (validSymbols.length === 0) {
-            return createResponse(400, 'symbols 均无效，需 6 位 A 股代码');
+            return createResponse(400, 'symbols 均无效，仅支持 A股 / ETF / LOF / 可转债的6位代码');
         }
 
         const stmt = env.DB.prepare('DELETE FROM user_stocks WHERE openid = ?1 AND symbol = ?2');
@@ -208,8 +229,11 @@ export class UserController {
     }
 
     /**
-     * 获取当前用户推送新闻（占位）
+     * 获取当前用户推送新闻
      * GET /api/users/me/news/push
+     * 参数:
+     * - limit: 返回条数（1-50，默认20）
+     * - lastTime: 翻页时间戳（Unix 秒，默认0），与个股新闻接口语义一致
      */
     static async getPushNews(request: Request, env: Env): Promise<Response> {
         UserController.log('getPushNews', '收到获取用户推送新闻请求', { method: request.method, url: request.url });
@@ -222,10 +246,53 @@ export class UserController {
         if (!auth.ok) {
             return createResponse(auth.code, auth.message);
         }
+        const { openid } = auth;
 
-        return createResponse(200, 'success', {
-            推送新闻: [],
-        });
+        const url = new URL(request.url);
+        const limitParam = url.searchParams.get('limit');
+        const lastTimeParam = url.searchParams.get('lastTime');
+
+        let limit = UserController.PUSH_NEWS_DEFAULT_LIMIT;
+        if (limitParam !== null) {
+            const parsedLimit = Number(limitParam);
+            if (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > UserController.PUSH_NEWS_MAX_LIMIT) {
+                return createResponse(400, `Invalid limit - limit 必须是 1-${UserController.PUSH_NEWS_MAX_LIMIT} 的整数`);
+            }
+            limit = parsedLimit;
+        }
+
+        let lastTime = 0;
+        if (lastTimeParam !== null) {
+            const parsedLastTime = Number(lastTimeParam);
+            if (!Number.isInteger(parsedLastTime) || parsedLastTime < 0) {
+                return createResponse(400, 'Invalid lastTime - lastTime 必须是大于等于0的整数');
+            }
+            lastTime = parsedLastTime;
+        }
+
+        try {
+            const feed = await PushNewsService.buildFeed(openid, env, { limit, lastTime });
+            UserController.log('getPushNews', '✅ 推送新闻组装完成', {
+                openid,
+                favoriteCount: feed.favoriteCount,
+                searchedCount: feed.searchedSymbols.length,
+                count: feed.items.length,
+            });
+
+            return createResponse(200, 'success', {
+                '来源': '财联社',
+                '更新时间': formatToChinaTime(Date.now()),
+                'lastTime': lastTime,
+                '自选股数量': feed.favoriteCount,
+                '已覆盖自选股': feed.searchedSymbols,
+                '新闻数量': feed.items.length,
+                '推送新闻': feed.items,
+            });
+        } catch (err: any) {
+            const errMsg = err instanceof Error ? err.message : String(err);
+            UserController.log('getPushNews', '❌ 推送新闻组装失败', { openid, error: errMsg });
+            return createResponse(500, errMsg);
+        }
     }
 
     /**
@@ -335,4 +402,86 @@ export class UserController {
             updated_at: updated?.updated_at || null,
         });
     }
+
+    /**
+     * 向当前用户发送一条测试消息（不受推送开关限制）
+     * POST /api/users/me/messages/test
+     * Body: { "channel": "custom", "content": "..." } 或 { "channel": "template", "templateId": "...", "data": { ... }, "url": "..." }
+     */
+    static async sendTestMessage(request: Request, env: Env): Promise<Response> {
+        UserController.log('testMessage', '收到测试消息请求', { method: request.method });
+
+        if (request.method !== 'POST') {
+            return createResponse(405, 'Method Not Allowed');
+        }
+
+        const auth = await UserController.requireAuth(request, env);
+        if (!auth.ok) {
+            return createResponse(auth.code, auth.message);
+        }
+        const { openid } = auth;
+
+        let body: any = {};
+        if (request.headers.get('Content-Type')?.includes('application/json')) {
+            try {
+                body = (await request.json()) || {};
+            } catch {
+                return createResponse(400, '请求体必须是 JSON');
+            }
+        }
+
+        const channel = body.channel === undefined ? 'custom' : body.channel;
+        if (channel !== 'custom' && channel !== 'template') {
+            return createResponse(400, 'Invalid channel - channel 必须是 custom 或 template');
+        }
+
+        let result: WechatSendResult;
+        try {
+            if (channel === 'template') {
+                const templateId = typeof body.templateId === 'string' ? body.templateId.trim() : '';
+                if (!templateId) {
+                    return createResponse(400, 'Invalid templateId - 模板消息必须指定 templateId');
+                }
+                if (!body.data || typeof body.data !== 'object' || Array.isArray(body.data)) {
+                    return createResponse(400, 'Invalid data - data 必须是 { key: { value } } 对象');
+                }
+                result = await WechatMessageService.sendTemplateMessage({
+                    openid,
+                    category: 'test',
+                    templateId,
+                    data: body.data,
+                    url: typeof body.url === 'string' ? body.url : undefined,
+                }, env);
+            } else {
+                const content = typeof body.content === 'string' && body.content.trim()
+                    ? body.content.trim()
+                    : `这是一条测试消息，发送时间 ${formatToChinaTime(Date.now())}`;
+                if (content.length > UserController.TEST_MESSAGE_MAX_LENGTH) {
+                    return createResponse(400, `Invalid content - content 最多 ${UserController.TEST_MESSAGE_MAX_LENGTH} 个字符`);
+                }
+                result = await WechatMessageService.sendCustomMessage({ openid, category: 'test', content }, env);
+            }
+        } catch (err: any) {
+            return createResponse(500, err instanceof Error ? err.message : 'Internal Server Error');
+        }
+
+        const outcome = {
+            sent: { code: 200, log: '✅ 测试消息发送成功' },
+            // 未发送（如已取消关注），属于用户状态问题而非服务端错误
+            skipped: { code: 409, log: '❌ 测试消息未发送' },
+            failed: { code: 500, log: '❌ 测试消息发送失败' },
+        }[result.status];
+        UserController.log('testMessage', outcome.log, { openid, ...result });
+
+        return createResponse(outcome.code, result.status === 'sent' ? 'success' : (result.errmsg || result.status), {
+            openid,
+            channel: result.channel,
+            status: result.status,
+            errcode: result.errcode,
+            errmsg: result.errmsg,
+            msgid: result.msgid,
+            retries: result.retries,
+            logId: result.logId,
+        });
+    }
 }
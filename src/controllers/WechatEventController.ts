@@ -1,5 +1,8 @@
 import { createResponse } from '../utils/response';
 import { ScanLoginController } from './ScanLoginController';
+import { WechatCommandService } from '../services/WechatCommandService';
+import { WechatMessageService } from '../services/WechatMessageService';
+import { WechatUserService } from '../services/WechatUserService';
 import type { Env } from '../index';
 
 /**
@@ -7,10 +10,17 @@ import type { Env } from '../index';
  * 文档: https://developers.weixin.qq.com/doc/service/guide/dev/push/
  *
  * 已支持事件:
- *  - subscribe（首次关注，含带参二维码场景）
+ *  - subscribe（关注，含带参二维码场景；记录关注状态并回复欢迎语）
+ *  - unsubscribe（取消关注，此后不再推送消息）
  *  - SCAN（已关注用户扫码）
+ *
+ * 已支持消息:
+ *  - text（文本指令，见 WechatCommandService；超时未生成回复时改用客服消息异步发送）
  */
 export class WechatEventController {
+    /** 被动回复等待上限：微信要求 5 秒内响应，预留网络开销 */
+    private static readonly PASSIVE_REPLY_TIMEOUT_MS = 4000;
+
     private static log(stage: string, message: string, data?: any): void {
         const ts = new Date().toISOString();
         const detail = data !== undefined ? ` | ${JSON.stringify(data)}` : '';
@@ -47,11 +57,56 @@ export class WechatEventController {
         return plainMatch ? plainMatch[1] : '';
     }
 
+    private static buildTextReply(toUser: string, fromUser: string, content: string): Response {
+        // CDATA 中不能出现 ]]>
+        const safeContent = content.replace(/]]>/g, ']]]]><![CDATA[>');
+        const xml = '<xml>'
+            + `<ToUserName><![CDATA[${toUser}]]></ToUserName>`
+            + `<FromUserName><![CDATA[${fromUser}]]></FromUserName>`
+            + `<CreateTime>${Math.floor(Date.now() / 1000)}</CreateTime>`
+            + '<MsgType><![CDATA[text]]></MsgType>'
+            + `<Content><![CDATA[${safeContent}]]></Content>`
+            + '</xml>';
+        return new Response(xml, { status: 200, headers: { 'Content-Type': 'application/xml; charset=utf-8' } });
+    }
+
+    /**
+     * 处理文本指令：限定时间内生成回复则被动回复，否则回复 success 并在后台生成后以客服消息发送
+     */
+    private static async handleTextMessage(body: string, env: Env, ctx: ExecutionContext): Promise<Response | null> {
+        const openid = WechatEventController.extractXmlTag(body, 'FromUserName');
+        const accountId = WechatEventController.extractXmlTag(body, 'ToUserName');
+        const content = WechatEventController.extractXmlTag(body, 'Content');
+        WechatEventController.log('text', '收到文本消息', { openid, content });
+
+        const replyPromise = WechatCommandService.handleText(openid, content, env).catch((err: any) => {
+            WechatEventController.log('text', '❌ 指令处理失败', { error: err instanceof Error ? err.message : String(err) });
+            return '服务繁忙，请稍后再试';
+        });
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const timeoutPromise = new Promise<null>(resolve => {
+            timer = setTimeout(() => resolve(null), WechatEventController.PASSIVE_REPLY_TIMEOUT_MS);
+        });
+        const reply = await Promise.race([replyPromise, timeoutPromise]);
+        clearTimeout(timer);
+
+        if (reply !== null) {
+            return WechatEventController.buildTextReply(openid, accountId, reply);
+        }
+
+        WechatEventController.log('text', '⏱️ 回复超时，改用客服消息异步发送', { openid });
+        ctx.waitUntil(
+            replyPromise.then(text => WechatMessageService.sendCustomMessage({ openid, category: 'command', content: text }, env)),
+        );
+        return null;
+    }
+
     /**
      * GET: 用于微信服务器首次校验
      * POST: 微信消息/事件推送
      */
-    static async handle(request: Request, env: Env): Promise<Response> {
+    static async handle(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
         const url = new URL(request.url);
         const signature = url.searchParams.get('signature') || undefined;
         const timestamp = url.searchParams.get('timestamp') || undefined;
@@ -88,6 +143,18 @@ export class WechatEventController {
                     ? eventKey.replace(/^qrscene_/, '')
                     : eventKey;
 
+                let isFirstSubscribe: boolean | null = null;
+                try {
+                    if (event === 'subscribe') {
+                        isFirstSubscribe = await WechatUserService.handleSubscribe(fromUser, sceneStr, env);
+                        WechatEventController.log('push', '✅ 关注状态已记录', { openid: fromUser, isFirstSubscribe });
+                    } else {
+                        await WechatUserService.markSubscribed(fromUser, env);
+                    }
+                } catch (err: any) {
+                    WechatEventController.log('push', '❌ 关注状态记录失败', { error: err instanceof Error ? err.message : String(err) });
+                }
+
                 if (sceneStr && sceneStr.startsWith('login_')) {
                     WechatEventController.log('push', '🔑 扫码登录事件，转交 ScanLoginController', { sceneStr, openid: fromUser });
                     try {
@@ -102,11 +169,30 @@ export class WechatEventController {
                 } else {
                     WechatEventController.log('push', '普通关注/扫码事件（非登录场景）', { sceneStr });
                 }
+
+                if (event === 'subscribe') {
+                    const accountId = WechatEventController.extractXmlTag(body, 'ToUserName');
+                    return WechatEventController.buildTextReply(
+                        fromUser,
+                        accountId,
+                        WechatUserService.buildWelcomeText(isFirstSubscribe !== false),
+                    );
+                }
+            } else if (event === 'unsubscribe') {
+                try {
+                    await WechatUserService.handleUnsubscribe(fromUser, env);
+                    WechatEventController.log('push', '✅ 取消关注已记录', { openid: fromUser });
+                } catch (err: any) {
+                    WechatEventController.log('push', '❌ 取消关注记录失败', { error: err instanceof Error ? err.message : String(err) });
+                }
             } else {
                 WechatEventController.log('push', '其他事件，暂不处理', { event });
             }
+        } else if (msgType === 'text') {
+            const reply = await WechatEventController.handleTextMessage(body, env, ctx);
+            if (reply) return reply;
         } else {
-            WechatEventController.log('push', '非事件消息，暂不处理', { msgType });
+            WechatEventController.log('push', '非文本消息，暂不处理', { msgType });
         }
 
         // 微信要求 5 秒内返回，返回 success 表示不需要被动回复
@@ -2,19 +2,27 @@ import { ProfitForecastController } from './controllers/ProfitForecastController
 import { StockInfoController } from './controllers/StockInfoController';
 import { StockQuoteController } from './controllers/StockQuoteController';
 import { StockRankController } from './controllers/StockRankController';
+import { MarketController } from './controllers/MarketController';
+import { FundFlowController } from './controllers/FundFlowController';
+import { FundController } from './controllers/FundController';
+import { CbondController } from './controllers/CbondController';
 import { StockListController } from './controllers/StockListController';
 import { IndexQuoteController } from './controllers/IndexQuoteController';
 import { TagLeaderController } from './controllers/TagLeaderController';
+import { TagController } from './controllers/TagController';
 import { NewsController } from './controllers/NewsController';
 import { AuthController } from './controllers/AuthController';
 import { UserController } from './controllers/UserController';
+import { AlertController } from './controllers/AlertController';
 import { WechatEventController } from './controllers/WechatEventController';
 import { ScanLoginController } from './controllers/ScanLoginController';
 import { StockAnalysisController } from './controllers/StockAnalysisController';
 import { StockOcrController } from './controllers/StockOcrController';
+import { CronController } from './controllers/CronController';
+import { CronService } from './services/CronService';
 import { readFileSync } from 'node:fs';
 import { createResponse } from './utils/response';
-import { isValidAShareSymbol } from './utils/validator';
+import { isValidAShareSymbol, isValidConvertibleBondSymbol, isValidFundCode, isValidSecuritySymbol } from './utils/validator';
 
 /**
  * Cloudflare Worker 入口
@@ -40,6 +48,10 @@ export interface Env {
     OPENAI_API_KEY: string;
     EVA_MODEL: string;
     OCR_MODEL: string;
+    /** 行情提醒模板消息 ID（可选，未配置时使用客服消息） */
+    WECHAT_ALERT_TEMPLATE_ID?: string;
+    /** 管理员 openid 列表（逗号分隔，可选），用于同步记录等运维接口 */
+    ADMIN_OPENIDS?: string;
 }
 
 /** 带数字 ID 参数的路由 */
@@ -54,8 +66,12 @@ type QueryRouteHandler = (request: Request, env: Env, ctx: ExecutionContext) =>
 type SymbolQueryRouteHandler = (symbol: string, request: Request, env: Env, ctx: ExecutionContext) => Promise<Response>;
 /** 路径中携带 tagCode，且带查询参数的路由 */
 type TagQueryRouteHandler = (tagCode: string, request: Request, env: Env, ctx: ExecutionContext) => Promise<Response>;
+/** 路径中携带新闻 ID，且带查询参数的路由 */
+type NewsQueryRouteHandler = (newsId: string, request: Request, env: Env, ctx: ExecutionContext) => Promise<Response>;
 /** 路径中携带 settingType，且带查询参数的路由 */
 type SettingQueryRouteHandler = (settingType: string, request: Request, env: Env, ctx: ExecutionContext) => Promise<Response>;
+/** 路径中携带提醒 ID 的路由 */
+type AlertQueryRouteHandler = (alertId: string, request: Request, env: Env, ctx: ExecutionContext) => Promise<Response>;
 
 const idRoutes: [string, IdRouteHandler][] = [
     ['/api/news/', NewsController.getNewsDetail.bind(NewsController)],
@@ -67,6 +83,7 @@ const simpleRoutes: [string, SimpleRouteHandler][] = [
     ['/api/news/hk', NewsController.getHkNews.bind(NewsController)],
     ['/api/news/gb', NewsController.getGlobalNews.bind(NewsController)],
     ['/api/news/fund', NewsController.getFundNews.bind(NewsController)],
+    ['/api/cn/market/overview', MarketController.getOverview.bind(MarketController)],
 ];
 
 const queryRoutes: [string, QueryRouteHandler][] = [
@@ -81,35 +98,95 @@ const queryRoutes: [string, QueryRouteHandler][] = [
     ['/api/users/me/news/push', UserController.getPushNews.bind(UserController)],
     ['/api/users/me/favorites', UserController.addFavorites.bind(UserController)],
     ['/api/users/me/favorites/delete', UserController.removeFavorites.bind(UserController)],
+    ['/api/users/me/messages/test', UserController.sendTestMessage.bind(UserController)],
+    ['/api/users/me/alerts', AlertController.handleAlerts.bind(AlertController)],
+    ['/api/users/me/alerts/logs', AlertController.getAlertLogs.bind(AlertController)],
     ['/api/cn/market/stockrank', StockRankController.getHotRank.bind(StockRankController)],
+    ['/api/cn/market/limit-pool', MarketController.getLimitPool.bind(MarketController)],
+    ['/api/cn/stocks/search', StockListController.searchStocks.bind(StockListController)],
+    ['/api/cn/stocks/sync/report', StockListController.getSyncReport.bind(StockListController)],
+    ['/api/cron/jobs', CronController.getJobs.bind(CronController)],
     ['/api/cn/stocks', StockListController.getStockList.bind(StockListController)],
+    ['/api/cn/tags', TagController.getTagList.bind(TagController)],
+    ['/api/cn/tags/rank', TagController.getTagRank.bind(TagController)],
     ['/api/cn/stock/infos', StockInfoController.getBatchStockInfo.bind(StockInfoController)],
     ['/api/cn/stock/quotes/core', StockQuoteController.getCoreQuotes.bind(StockQuoteController)],
     ['/api/cn/stock/quotes/activity', StockQuoteController.getActivityQuotes.bind(StockQuoteController)],
     ['/api/cn/stock/quotes/kline', StockQuoteController.getKLine.bind(StockQuoteController)],
+    ['/api/cn/stock/indicators', StockQuoteController.getIndicators.bind(StockQuoteController)],
     ['/api/cn/stock/fundamentals', StockQuoteController.getFundamentalQuotes.bind(StockQuoteController)],
     ['/api/cn/stocks/profit-forecast', ProfitForecastController.getForecastList.bind(ProfitForecastController)],
     ['/api/cn/stocks/profit-forecast/search', ProfitForecastController.searchForecastList.bind(ProfitForecastController)],
     ['/api/cn/stocks/ocr', StockOcrController.batchOcr.bind(StockOcrController)],
+    ['/api/cn/stocks/analysis/batch', StockAnalysisController.handleBatchStockAnalysis.bind(StockAnalysisController)],
+    ['/api/cn/funds/quotes', FundController.getFundQuotes.bind(FundController)],
+    ['/api/cn/cbonds', CbondController.getCbondList.bind(CbondController)],
     ['/api/cn/index/quotes', IndexQuoteController.getIndexQuotes.bind(IndexQuoteController)],
     ['/api/gb/index/quotes', IndexQuoteController.getGlobalIndexQuotes.bind(IndexQuoteController)],
 ];
 
-const symbolQueryRoutes: [RegExp, SymbolQueryRouteHandler][] = [
-    [/^\/api\/cn\/stocks\/([0-9]{6})\/news\/?$/, NewsController.getStockNews.bind(NewsController)],
-    [/^\/api\/cn\/stocks\/([0-9]{6})\/analysis\/history\/?$/, StockAnalysisController.getStockAnalysisHistory.bind(StockAnalysisController)],
-    [/^\/api\/cn\/stocks\/([0-9]{6})\/analysis\/?$/, StockAnalysisController.handleStockAnalysis.bind(StockAnalysisController)],
-    [/^\/api\/cn\/stock\/([0-9]{6})\/profit-forecast\/?$/, ProfitForecastController.getThsForecast.bind(ProfitForecastController)],
+/** 路径中 symbol 的校验规则 */
+interface SymbolRule {
+    validate: (symbol: string) => boolean;
+    message: string;
+}
+
+/** 仅股票（资讯 / 板块 / 评价 / 盈利预测） */
+const STOCK_SYMBOL_RULE: SymbolRule = {
+    validate: isValidAShareSymbol,
+    message: 'Invalid symbol - A股代码必须是6位数字',
+};
+
+/** 可交易证券（行情类接口，含 ETF / LOF / 可转债） */
+const SECURITY_SYMBOL_RULE: SymbolRule = {
+    validate: isValidSecuritySymbol,
+    message: 'Invalid symbol - 仅支持 A股 / ETF / LOF / 可转债的6位代码',
+};
+
+/** 基金代码（场内 / 场外） */
+const FUND_CODE_RULE: SymbolRule = {
+    validate: isValidFundCode,
+    message: 'Invalid code - 基金代码必须是6位数字',
+};
+
+/** 可转债代码 */
+const CBOND_SYMBOL_RULE: SymbolRule = {
+    validate: isValidConvertibleBondSymbol,
+    message: 'Invalid code - 可转债代码必须是 110 / 111 / 113 / 118 / 123 / 127 / 128 开头的6位数字',
+};
+
+const symbolQueryRoutes: [RegExp, SymbolQueryRouteHandler, SymbolRule][] = [
+    [/^\/api\/cn\/stocks\/([0-9]{6})\/news\/?$/, NewsController.getStockNews.bind(NewsController), STOCK_SYMBOL_RULE],
+    [/^\/api\/cn\/stocks\/([0-9]{6})\/tags\/?$/, TagController.getStockTags.bind(TagController), STOCK_SYMBOL_RULE],
+    [/^\/api\/cn\/stocks\/([0-9]{6})\/fundflow\/?$/, FundFlowController.getStockFundFlow.bind(FundFlowController), SECURITY_SYMBOL_RULE],
+    [/^\/api\/cn\/stocks\/([0-9]{6})\/trends\/?$/, StockQuoteController.getTrends.bind(StockQuoteController), SECURITY_SYMBOL_RULE],
+    [/^\/api\/cn\/stocks\/([0-9]{6})\/orderbook\/?$/, StockQuoteController.getOrderBook.bind(StockQuoteController), SECURITY_SYMBOL_RULE],
+    [/^\/api\/cn\/stocks\/([0-9]{6})\/ticks\/?$/, StockQuoteController.getTicks.bind(StockQuoteController), SECURITY_SYMBOL_RULE],
+    [/^\/api\/cn\/stocks\/([0-9]{6})\/analysis\/history\/?$/, StockAnalysisController.getStockAnalysisHistory.bind(StockAnalysisController), STOCK_SYMBOL_RULE],
+    [/^\/api\/cn\/stocks\/([0-9]{6})\/analysis\/?$/, StockAnalysisController.handleStockAnalysis.bind(StockAnalysisController), STOCK_SYMBOL_RULE],
+    [/^\/api\/cn\/stock\/([0-9]{6})\/profit-forecast\/?$/, ProfitForecastController.getThsForecast.bind(ProfitForecastController), STOCK_SYMBOL_RULE],
+    [/^\/api\/cn\/funds\/([0-9]{6})\/nav\/?$/, FundController.getFundNav.bind(FundController), FUND_CODE_RULE],
+    [/^\/api\/cn\/cbonds\/([0-9]{6})\/?$/, CbondController.getCbond.bind(CbondController), CBOND_SYMBOL_RULE],
 ];
 
 const tagQueryRoutes: [RegExp, TagQueryRouteHandler][] = [
     [/^\/api\/cn\/tags\/([^/]+)\/leaders\/?$/, TagLeaderController.getTagLeaders.bind(TagLeaderController)],
+    [/^\/api\/cn\/tags\/([^/]+)\/stocks\/?$/, TagController.getTagStocks.bind(TagController)],
+    [/^\/api\/cn\/tags\/([^/]+)\/news\/?$/, TagController.getTagNews.bind(TagController)],
+];
+
+const newsQueryRoutes: [RegExp, NewsQueryRouteHandler][] = [
+    [/^\/api\/news\/(\d+)\/tags\/?$/, NewsController.getNewsTags.bind(NewsController)],
 ];
 
 const settingQueryRoutes: [RegExp, SettingQueryRouteHandler][] = [
     [/^\/api\/users\/me\/settings\/([^/]+)\/?$/, UserController.updateSetting.bind(UserController)],
 ];
 
+const alertQueryRoutes: [RegExp, AlertQueryRouteHandler][] = [
+    [/^\/api\/users\/me\/alerts\/(\d+)\/?$/, AlertController.handleAlert.bind(AlertController)],
+];
+
 function escapeHtml(text: string): string {
     return text
         .replace(/&/g, '&amp;')
@@ -289,12 +366,12 @@ export default {
             }
 
             // 路径中携带 symbol 且带查询参数的路由
-            for (const [pattern, handler] of symbolQueryRoutes) {
+            for (const [pattern, handler, rule] of symbolQueryRoutes) {
                 const match = pathname.match(pattern);
                 if (match && match[1]) {
                     const symbol = match[1];
-                    if (!isValidAShareSymbol(symbol)) {
-                        return withCors(createResponse(400, 'Invalid symbol - A股代码必须是6位数字'), request, env);
+                    if (!rule.validate(symbol)) {
+                        return withCors(createResponse(400, rule.message), request, env);
                     }
                     return withCors(await handler(symbol, request, env, ctx), request, env);
                 }
@@ -309,6 +386,14 @@ export default {
                 }
             }
 
+            // 路径中携带新闻 ID 且带查询参数的路由（需在数字 ID 路由之前匹配）
+            for (const [pattern, handler] of newsQueryRoutes) {
+                const match = pathname.match(pattern);
+                if (match && match[1]) {
+                    return withCors(await handler(match[1], request, env, ctx), request, env);
+                }
+            }
+
             // 路径中携带 settingType 且带查询参数的路由
             for (const [pattern, handler] of settingQueryRoutes) {
                 const match = pathname.match(pattern);
@@ -318,6 +403,14 @@ export default {
                 }
             }
 
+            // 路径中携带提醒 ID 的路由
+            for (const [pattern, handler] of alertQueryRoutes) {
+                const match = pathname.match(pattern);
+                if (match && match[1]) {
+                    return withCors(await handler(match[1], request, env, ctx), request, env);
+                }
+            }
+
             // 带数字 ID 参数路由
             for (const [prefix, handler] of idRoutes) {
                 if (pathname.startsWith(prefix)) {
@@ -332,9 +425,13 @@ export default {
                 }
             }
 
-            return withCors(createResponse(404, 'Not Found - 可用接口: /api/auth/wechat/login, /api/auth/wechat/login/scan, /api/auth/wechat/login/scan/poll, /api/auth/wechat/callback, /api/auth/wechat/push, /api/auth/logout, /api/users/me, /api/users/me/settings, /api/users/me/settings/:settingType, /api/users/me/news/push, /api/users/me/favorites, /api/users/me/favorites/delete, /api/cn/stocks, /api/cn/stocks/profit-forecast, /api/cn/stocks/profit-forecast/search, /api/cn/stocks/ocr, /api/cn/stocks/:symbol/news, /api/cn/stocks/:symbol/analysis, /api/cn/stocks/:symbol/analysis/history, /api/cn/stock/:symbol/profit-forecast, /api/cn/stock/infos, /api/cn/stock/quotes/core, /api/cn/stock/quotes/activity, /api/cn/stock/quotes/kline, /api/cn/stock/fundamentals, /api/cn/market/stockrank, /api/cn/tags/:tagCode/leaders, /api/cn/index/quotes, /api/gb/index/quotes, /api/news/headlines, /api/news/cn, /api/news/hk, /api/news/gb, /api/news/fund, /api/news/:id'), request, env);
+            return withCors(createResponse(404, 'Not Found - 可用接口: /api/auth/wechat/login, /api/auth/wechat/login/scan, /api/auth/wechat/login/scan/poll, /api/auth/wechat/callback, /api/auth/wechat/push, /api/auth/logout, /api/users/me, /api/users/me/settings, /api/users/me/settings/:settingType, /api/users/me/news/push, /api/users/me/favorites, /api/users/me/favorites/delete, /api/users/me/messages/test, /api/users/me/alerts, /api/users/me/alerts/:id, /api/users/me/alerts/logs, /api/cn/stocks, /api/cn/stocks/search, /api/cn/stocks/sync/report, /api/cn/stocks/profit-forecast, /api/cn/stocks/profit-forecast/search, /api/cn/stocks/ocr, /api/cn/stocks/analysis/batch, /api/cn/stocks/:symbol/news, /api/cn/stocks/:symbol/tags, /api/cn/stocks/:symbol/fundflow, /api/cn/stocks/:symbol/trends, /api/cn/stocks/:symbol/orderbook, /api/cn/stocks/:symbol/ticks, /api/cn/stocks/:symbol/analysis, /api/cn/stocks/:symbol/analysis/history, /api/cn/stock/:symbol/profit-forecast, /api/cn/stock/infos, /api/cn/stock/quotes/core, /api/cn/stock/quotes/activity, /api/cn/stock/quotes/kline, /api/cn/stock/indicators, /api/cn/stock/fundamentals, /api/cn/market/stockrank, /api/cn/market/overview, /api/cn/market/limit-pool, /api/cn/funds/quotes, /api/cn/funds/:code/nav, /api/cn/cbonds, /api/cn/cbonds/:code, /api/cn/tags, /api/cn/tags/rank, /api/cn/tags/:tagCode/leaders, /api/cn/tags/:tagCode/stocks, /api/cn/tags/:tagCode/news, /api/cn/index/quotes, /api/gb/index/quotes, /api/news/headlines, /api/news/cn, /api/news/hk, /api/news/gb, /api/news/fund, /api/news/:id, /api/news/:id/tags, /api/cron/jobs'), request, env);
         } catch (err: any) {
             return withCors(createResponse(500, err instanceof Error ? err.message : 'Internal Server Error'), request, env);
         }
-    }
+    },
+
+    async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+        await CronService.runScheduled(controller.cron, env, ctx);
+    },
 };
@@ -0,0 +1,343 @@
+import { EmQuoteService } from './EmQuoteService';
+import { MarketSnapshotService } from './MarketSnapshotService';
+import { CacheService } from './CacheService';
+import { WechatMessageService, WechatSendResult } from './WechatMessageService';
+import { formatToChinaTime } from '../utils/datetime';
+import type { Env } from '../index';
+
+/** 提醒类型 */
+export type AlertType =
+    | 'price_above'
+    | 'price_below'
+    | 'change_up'
+    | 'change_down'
+    | 'volume_ratio_above'
+    | 'limit_up'
+    | 'limit_down';
+
+export interface AlertRow {
+    id: number;
+    openid: string;
+    symbol: string;
+    stock_name?: string | null;
+    alert_type: AlertType;
+    threshold: number | null;
+    note: string | null;
+    enabled: number;
+    triggered: number;
+    last_triggered_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+/** 本轮新触发的提醒 */
+export interface TriggeredAlert {
+    alertId: number;
+    openid: string;
+    symbol: string;
+    stockName: string;
+    alertType: AlertType;
+    threshold: number | null;
+    triggerValue: number;
+    price: number | null;
+    message: string;
+    triggeredAt: string;
+}
+
+export interface AlertEvaluationSummary {
+    alerts: number;
+    symbols: number;
+    triggered: number;
+    rearmed: number;
+    skipped: number;
+    triggeredAlerts: TriggeredAlert[];
+}
+
+export interface AlertDeliverySummary {
+    pending: number;
+    sent: number;
+    skipped: number;
+    failed: number;
+    /** 超过推送时效直接标记 skipped 的记录数 */
+    expired: number;
+}
+
+interface PendingAlertLogRow {
+    id: number;
+    openid: string;
+    symbol: string;
+    alert_type: AlertType;
+    threshold: number | null;
+    message: string;
+    triggered_at: string;
+}
+
+interface AlertCheckResult {
+    met: boolean;
+    /** 参与判断的指标值 */
+    value: number;
+}
+
+/**
+ * 用户行情提醒服务
+ * 批量拉取 activity 级别行情判断提醒条件；条件由不满足变为满足时触发一次并写入 user_alert_logs，
+ * 条件解除后自动重置，下一次满足时再次触发；触发记录通过 WechatMessageService 推送给用户。
+ */
+export class AlertService {
+    static readonly ALERT_TYPE_LABELS: Record<AlertType, string> = {
+        price_above: '股价高于',
+        price_below: '股价低于',
+        change_up: '涨幅达到',
+        change_down: '跌幅达到',
+        volume_ratio_above: '量比高于',
+        limit_up: '触及涨停',
+        limit_down: '触及跌停',
+    };
+
+    /** 单次推送的最大记录数 */
+    private static readonly DELIVERY_BATCH_SIZE = 50;
+    /** 触发后超过该时长仍未推送的记录不再推送 */
+    private static readonly DELIVERY_MAX_DELAY_MINUTES = 30;
+
+    /** 无需阈值的提醒类型 */
+    private static readonly NO_THRESHOLD_TYPES = new Set<AlertType>(['limit_up', 'limit_down']);
+
+    static isAlertType(value: string): value is AlertType {
+        return Object.prototype.hasOwnProperty.call(this.ALERT_TYPE_LABELS, value);
+    }
+
+    static requiresThreshold(type: AlertType): boolean {
+        return !this.NO_THRESHOLD_TYPES.has(type);
+    }
+
+    static describeCondition(type: AlertType, threshold: number | null): string {
+        const label = this.ALERT_TYPE_LABELS[type];
+        if (threshold === null || !this.requiresThreshold(type)) return label;
+        if (type === 'change_up' || type === 'change_down') return `${label} ${threshold}%`;
+        return `${label} ${threshold}`;
+    }
+
+    private static toNumber(value: unknown): number | null {
+        return typeof value === 'number' && Number.isFinite(value) ? value : null;
+    }
+
+    /**
+     * 判断提醒条件，行情字段缺失（停牌等）时返回 null
+     */
+    private static checkCondition(alert: AlertRow, quote: Record<string, any>): AlertCheckResult | null {
+        const price = this.toNumber(quote['最新价']);
+        const threshold = alert.threshold;
+
+        switch (alert.alert_type) {
+            case 'price_above':
+                return price === null || threshold === null ? null : { met: price >= threshold, value: price };
+            case 'price_below':
+                return price === null || threshold === null ? null : { met: price <= threshold, value: price };
+            case 'change_up': {
+                const change = this.toNumber(quote['涨跌幅']);
+                return change === null || threshold === null ? null : { met: change >= threshold, value: change };
+            }
+            case 'change_down': {
+                const change = this.toNumber(quote['涨跌幅']);
+                return change === null || threshold === null ? null : { met: change <= -threshold, value: change };
+            }
+            case 'volume_ratio_above': {
+                const ratio = this.toNumber(quote['量比']);
+                return ratio === null || threshold === null ? null : { met: ratio >= threshold, value: ratio };
+            }
+            case 'limit_up': {
+                const limit = this.toNumber(quote['涨停价']);
+                return price === null || limit === null || limit <= 0 ? null : { met: price >= limit, value: price };
+            }
+            case 'limit_down': {
+                const limit = this.toNumber(quote['跌停价']);
+                return price === null || limit === null || limit <= 0 ? null : { met: price <= limit, value: price };
+            }
+            default:
+                return null;
+        }
+    }
+
+    private static buildMessage(alert: AlertRow, stockName: string, quote: Record<string, any>): string {
+        const condition = this.describeCondition(alert.alert_type, alert.threshold);
+        const parts = [`最新价 ${quote['最新价']}`, `涨跌幅 ${quote['涨跌幅']}%`];
+        if (alert.alert_type === 'volume_ratio_above') {
+            parts.push(`量比 ${quote['量比']}`);
+        }
+        const note = alert.note ? `（${alert.note}）` : '';
+        return `${stockName}(${alert.symbol}) ${condition}${note}：${parts.join('，')}`;
+    }
+
+    /**
+     * 读取提醒涉及股票的 activity 行情：优先读全市场快照，快照未覆盖的（ETF / LOF / 可转债、快照过期）逐只回源
+     */
+    private static async getActivityQuotes(symbols: string[], env: Env, ctx: ExecutionContext): Promise<Map<string, Record<string, any>>> {
+        const quoteMap = env.KV
+            ? await MarketSnapshotService.getQuotes(symbols, 'activity', new CacheService(env.KV, ctx))
+            : new Map<string, Record<string, any>>();
+
+        const missedSymbols = symbols.filter(symbol => !quoteMap.has(symbol));
+        if (missedSymbols.length > 0) {
+            const quotes = await EmQuoteService.getBatchQuotes(missedSymbols, 'activity');
+            quotes.forEach((quote, index) => {
+                if (!('错误' in quote)) quoteMap.set(missedSymbols[index], quote);
+            });
+        }
+
+        return quoteMap;
+    }
+
+    /**
+     * 评估全部启用中的提醒
+     */
+    static async evaluateAlerts(env: Env, ctx: ExecutionContext): Promise<AlertEvaluationSummary> {
+        const { results } = await env.DB
+            .prepare(
+                `SELECT id, openid, symbol, alert_type, threshold, note, enabled, triggered, last_triggered_at, created_at, updated_at
+                 FROM user_alerts
+                 WHERE enabled = 1`
+            )
+            .all<AlertRow>();
+        const alerts = results || [];
+        const symbols = Array.from(new Set(alerts.map(alert => alert.symbol)));
+
+        const summary: AlertEvaluationSummary = {
+            alerts: alerts.length,
+            symbols: symbols.length,
+            triggered: 0,
+            rearmed: 0,
+            skipped: 0,
+            triggeredAlerts: [],
+        };
+        if (alerts.length === 0) return summary;
+
+        const quoteMap = await this.getActivityQuotes(symbols, env, ctx);
+
+        const triggeredAt = formatToChinaTime(Date.now());
+        const statements: D1PreparedStatement[] = [];
+
+        for (const alert of alerts) {
+            const quote = quoteMap.get(alert.symbol);
+            const check = quote ? this.checkCondition(alert, quote) : null;
+            if (!quote || !check) {
+                summary.skipped += 1;
+                continue;
+            }
+
+            if (check.met && alert.triggered === 0) {
+                const stockName = String(quote['股票简称'] || alert.symbol);
+                const message = this.buildMessage(alert, stockName, quote);
+                const price = this.toNumber(quote['最新价']);
+
+                // 先写日志再置位，二者在同一批次内执行；triggered = 0 条件避免并发重复触发
+                statements.push(
+                    env.DB
+                        .prepare(
+                            `INSERT INTO user_alert_logs
+                                (alert_id, openid, symbol, alert_type, threshold, trigger_value, price, message, delivery_status, triggered_at)
+                             SELECT ?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, 'pending', ?9
+                             WHERE EXISTS (SELECT 1 FROM user_alerts WHERE id = ?1 AND triggered = 0 AND enabled = 1)`
+                        )
+                        .bind(alert.id, alert.openid, alert.symbol, alert.alert_type, alert.threshold, check.value, price, message, triggeredAt),
+                    env.DB
+                        .prepare('UPDATE user_alerts SET triggered = 1, last_triggered_at = ?2 WHERE id = ?1 AND triggered = 0')
+                        .bind(alert.id, triggeredAt),
+                );
+
+                summary.triggered += 1;
+                summary.triggeredAlerts.push({
+                    alertId: alert.id,
+                    openid: alert.openid,
+                    symbol: alert.symbol,
+                    stockName,
+                    alertType: alert.alert_type,
+                    threshold: alert.threshold,
+                    triggerValue: check.value,
+                    price,
+                    message,
+                    triggeredAt,
+                });
+            } else if (!check.met && alert.triggered === 1) {
+                statements.push(
+                    env.DB
+                        .prepare('UPDATE user_alerts SET triggered = 0 WHERE id = ?1')
+                        .bind(alert.id),
+                );
+                summary.rearmed += 1;
+            }
+        }
+
+        if (statements.length > 0) {
+            await env.DB.batch(statements);
+        }
+
+        return summary;
+    }
+
+    private static async sendAlertMessage(log: PendingAlertLogRow, env: Env): Promise<WechatSendResult> {
+        if (env.WECHAT_ALERT_TEMPLATE_ID) {
+            return WechatMessageService.sendTemplateMessage({
+                openid: log.openid,
+                category: 'alert',
+                templateId: env.WECHAT_ALERT_TEMPLATE_ID,
+                data: {
+                    first: { value: '行情提醒' },
+                    keyword1: { value: log.symbol },
+                    keyword2: { value: this.describeCondition(log.alert_type, log.threshold) },
+                    keyword3: { value: log.triggered_at },
+                    remark: { value: log.message },
+                },
+            }, env);
+        }
+
+        return WechatMessageService.sendCustomMessage({
+            openid: log.openid,
+            category: 'alert',
+            content: `【行情提醒】${log.message}\n触发时间：${log.triggered_at}`,
+        }, env);
+    }
+
+    /**
+     * 推送待发送的提醒触发记录，并回写 delivery_status
+     * 配置 WECHAT_ALERT_TEMPLATE_ID 时使用模板消息，否则使用客服消息
+     */
+    static async deliverPendingAlerts(env: Env): Promise<AlertDeliverySummary> {
+        const cutoff = formatToChinaTime(Date.now() - this.DELIVERY_MAX_DELAY_MINUTES * 60 * 1000);
+        const expired = await env.DB
+            .prepare(`UPDATE user_alert_logs SET delivery_status = 'skipped' WHERE delivery_status = 'pending' AND triggered_at < ?1`)
+            .bind(cutoff)
+            .run();
+
+        const { results } = await env.DB
+            .prepare(
+                `SELECT id, openid, symbol, alert_type, threshold, message, triggered_at
+                 FROM user_alert_logs
+                 WHERE delivery_status = 'pending'
+                 ORDER BY triggered_at ASC, id ASC
+                 LIMIT ?1`
+            )
+            .bind(this.DELIVERY_BATCH_SIZE)
+            .all<PendingAlertLogRow>();
+        const logs = results || [];
+
+        const summary: AlertDeliverySummary = {
+            pending: logs.length,
+            sent: 0,
+            skipped: 0,
+            failed: 0,
+            expired: expired.meta?.changes ?? 0,
+        };
+
+        // 逐条发送，避免并发触发微信接口频率限制
+        for (const log of logs) {
+            const result = await this.sendAlertMessage(log, env);
+            summary[result.status] += 1;
+            await env.DB
+                .prepare(`UPDATE user_alert_logs SET delivery_status = ?2 WHERE id = ?1 AND delivery_status = 'pending'`)
+                .bind(log.id, result.status)
+                .run();
+        }
+
+        return summary;
+    }
+}
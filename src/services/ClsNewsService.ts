@@ -0,0 +1,251 @@
+import * as cheerio from 'cheerio';
+import { formatToChinaTime } from '../utils/datetime';
+import { cailianpressThrottler } from '../utils/throttlers';
+
+export interface ClsNewsSummary {
+    id: string;
+    link: string;
+    time: string;
+    title: string;
+    brief: string;
+    author: string;
+}
+
+export interface ClsNewsDetail {
+    id: string;
+    link: string;
+    time: string;
+    title: string;
+    brief: string;
+    content: string;
+}
+
+/**
+ * 财联社新闻服务
+ * 统一封装分类新闻列表与新闻详情页的抓取解析逻辑，供新闻控制器、用户推送流与新闻板块标注复用。
+ */
+export class ClsNewsService {
+    /** 财联社深度首页 API 基础 URL */
+    private static readonly BASE_URL = 'https://www.cls.cn/v3/depth/home/assembled';
+    /** 固定签名 */
+    private static readonly SIGN = '9f8797a1f4de66c2370f7a03990d2737';
+    /** 分类新闻返回条数 */
+    private static readonly CATEGORY_NEWS_LIMIT = 5;
+    /** 摘要前缀样式：`【...】` */
+    private static readonly BRACKET_PREFIX_PATTERN = /^【[^】]*】\s*/;
+
+    private static cleanSummaryPrefix(summary: unknown): string {
+        if (typeof summary !== 'string') return '';
+        return summary.trim().replace(this.BRACKET_PREFIX_PATTERN, '').trim();
+    }
+
+    private static normalizePublishTime(raw: string): string {
+        if (!raw) return '';
+
+        const trimmed = raw.trim();
+
+        // Unix 时间戳格式
+        if (/^\d{10,13}$/.test(trimmed)) {
+            const timestamp = Number(trimmed);
+            const ms = trimmed.length === 10 ? timestamp * 1000 : timestamp;
+            return formatToChinaTime(ms);
+        }
+
+        // 清理格式：去掉星期、年月日等中文字符，统一为 YYYY-MM-DD HH:mm 格式
+        const normalized = trimmed
+            .replace(/\s*星期[一二三四五六日天]\s*/g, ' ')
+            .replace(/年|\//g, '-')
+            .replace(/月/g, '-')
+            .replace(/日/g, ' ')
+            .replace(/\s+/g, ' ')
+            .trim();
+
+        // 匹配 YYYY-MM-DD HH:mm 或 YYYY-MM-DD HH:mm:ss 格式
+        // 这些时间已经是中国时间，不需要再做时区转换
+        const dateTimeMatch = normalized.match(/^(\d{4})-(\d{1,2})-(\d{1,2})\s+(\d{1,2}):(\d{1,2})(?::(\d{1,2}))?$/);
+        if (dateTimeMatch) {
+            const [, year, month, day, hour, minute, second] = dateTimeMatch;
+            const pad = (n: string) => n.padStart(2, '0');
+            return `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}:${pad(second || '00')}`;
+        }
+
+        return trimmed;
+    }
+
+    /**
+     * 获取分类新闻（top_article 不足时从 depth_list 补充）
+     * @param categoryId 分类 ID
+     */
+    static async getCategoryNews(categoryId: number): Promise<ClsNewsSummary[]> {
+        const url = new URL(`${this.BASE_URL}/${categoryId}`);
+        url.searchParams.set('app', 'CailianpressWeb');
+        url.searchParams.set('os', 'web');
+        url.searchParams.set('sv', '8.4.6');
+        url.searchParams.set('sign', this.SIGN);
+
+        // 限流 (财联社)
+        await cailianpressThrottler.throttle();
+
+        const response = await fetch(url.toString(), {
+            headers: {
+                'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+                'Accept': 'application/json',
+                'Referer': 'https://www.cls.cn/',
+            },
+        });
+
+        if (!response.ok) {
+            throw new Error(`财联社接口请求失败: ${response.status}`);
+        }
+
+        const data: any = await response.json();
+
+        if (data.errno !== 0) {
+            throw new Error(`财联社接口返回错误: ${data.msg || 'Unknown error'}`);
+        }
+
+        let articles = data.data?.top_article || [];
+
+        // 如果 top_article 不足，从 depth_list 补充
+        if (articles.length < this.CATEGORY_NEWS_LIMIT) {
+            const depthList = data.data?.depth_list || [];
+            const needed = this.CATEGORY_NEWS_LIMIT - articles.length;
+            articles = [...articles, ...depthList.slice(0, needed)];
+        }
+
+        return articles.slice(0, this.CATEGORY_NEWS_LIMIT).map((article: any) => ({
+            id: article.id ? String(article.id) : '',
+            link: article.id ? `https://www.cls.cn/detail/${article.id}` : '',
+            time: formatToChinaTime(article.ctime * 1000), // Unix 秒转毫秒
+            title: (article.title || '').trim(),
+            brief: this.cleanSummaryPrefix(article.brief),
+            author: (article.author || article.source || '').trim(),
+        }));
+    }
+
+    /**
+     * 获取新闻详情（含全文）
+     * @param id 新闻 ID
+     * @returns 页面中未解析到任何内容时返回 null
+     */
+    static async getNewsDetail(id: string): Promise<ClsNewsDetail | null> {
+        const url = `https://www.cls.cn/detail/${id}`;
+
+        // 限流 (财联社)
+        await cailianpressThrottler.throttle();
+
+        const response = await fetch(url, {
+            headers: {
+                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/114.0.0.0 Safari/537.36',
+                'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
+            },
+        });
+
+        if (!response.ok) {
+            throw new Error(`财联社新闻页面请求失败: ${response.status}`);
+        }
+
+        const html = await response.text();
+
+        // 剥离 script/style 提升性能
+        const cleanHtml = html
+            .replace(/<script[\s\S]*?<\/script>/gi, '')
+            .replace(/<style[\s\S]*?<\/style>/gi, '')
+            .replace(/<!--[\s\S]*?-->/g, '');
+
+        const $ = cheerio.load(cleanHtml, { scriptingEnabled: false });
+
+        // 提取标题（支持两种格式）
+        let title = '';
+        // 格式1: 标准详情页
+        $('.detail-title span').each((_, elem) => {
+            title = $(elem).text().trim();
+            return false;
+        });
+        // 格式2: 电报快讯页
+        if (!title) {
+            $('.detail-header').each((_, elem) => {
+                title = $(elem).text().trim();
+                return false;
+            });
+        }
+
+        // 提取时间
+        let publishTime = '';
+        const timeCandidates = [
+            $('.m-b-20.f-s-14.l-h-2.c-999.clearfix .f-l.m-r-10').first().text(),
+            $('.detail-time').first().text(),
+            $('[class*="detail-time"]').first().text(),
+            $('time').first().attr('datetime') || $('time').first().text(),
+            $('meta[property="article:published_time"]').attr('content'),
+            $('meta[name="pubdate"]').attr('content'),
+        ]
+            .map(value => (value || '').trim())
+            .filter(Boolean);
+
+        if (timeCandidates.length > 0) {
+            publishTime = this.normalizePublishTime(timeCandidates[0]);
+        }
+
+        // 查找包含 detail-brief 的元素（摘要）
+        let brief = '';
+        $('[class*="detail-brief"]').each((_, elem) => {
+            const text = $(elem).text().trim();
+            brief = this.cleanSummaryPrefix(text);
+            return false; // 找到第一个即停止
+        });
+
+        // 查找详细内容（支持两种格式，保留HTML格式）
+        let content = '';
+
+        // 格式1: 标准详情页
+        $('.detail-content').each((_, elem) => {
+            let htmlContent = $(elem).html() || '';
+            htmlContent = htmlContent.replace(/^<div[^>]*>/, '').replace(/<\/div>$/, '');
+            htmlContent = htmlContent.replace(/\n\s*\n/g, '\n').trim();
+            content = htmlContent;
+            return false;
+        });
+
+        // 格式2: 电报快讯页
+        if (!content) {
+            const telegraphContent = $('.detail-telegraph-content').first();
+            const telegraphImages = $('.telegraph-images-box img');
+
+            if (telegraphContent.length > 0) {
+                let htmlContent = '';
+
+                // 添加正文内容
+                const textContent = telegraphContent.html() || '';
+                if (textContent) {
+                    htmlContent += textContent;
+                }
+
+                // 添加图片
+                if (telegraphImages.length > 0) {
+                    telegraphImages.each((_, img) => {
+                        const src = $(img).attr('src');
+                        if (src) {
+                            htmlContent += `\n<p><img src="${src}" alt="image"></p>`;
+                        }
+                    });
+                }
+
+                content = htmlContent.trim();
+            }
+        }
+
+        if (!title && !brief && !content) {
+            return null;
+        }
+
+        return {
+            id,
+            link: url,
+            time: publishTime,
+            title,
+            brief,
+            content,
+        };
+    }
+}
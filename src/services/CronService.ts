@@ -0,0 +1,266 @@
+import { StockRankController } from '../controllers/StockRankController';
+import { IndexQuoteController } from '../controllers/IndexQuoteController';
+import { StockQuoteController } from '../controllers/StockQuoteController';
+import { ScanLoginController } from '../controllers/ScanLoginController';
+import { NewsTagService } from './NewsTagService';
+import { AlertService } from './AlertService';
+import { WechatUserService } from './WechatUserService';
+import { StockSyncService } from './StockSyncService';
+import { formatToChinaTime } from '../utils/datetime';
+import { isAShareTradingTime } from '../utils/tradingTime';
+import {
+    CRON_JOB_STATUS_CACHE_KEY_PREFIX,
+    CRON_JOB_STATUS_CACHE_TTL_SECONDS,
+} from '../constants/cache';
+import type { Env } from '../index';
+
+/** 任务运行时段：交易时段 / 非交易时段 / 不限 */
+export type CronJobWindow = 'trading' | 'off_hours' | 'always';
+
+export type CronJobResult = Record<string, string | number | boolean>;
+
+export interface CronJob {
+    /** 任务名（唯一，用于状态存储） */
+    name: string;
+    description: string;
+    /** Cron 表达式（UTC），需同时在 wrangler.toml [triggers] 中声明 */
+    cron: string;
+    window: CronJobWindow;
+    run(env: Env, ctx: ExecutionContext): Promise<CronJobResult>;
+}
+
+export interface CronJobStatus {
+    name: string;
+    cron: string;
+    status: 'success' | 'failed';
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+    result: CronJobResult | null;
+    error: string | null;
+}
+
+/** 交易时段预热的 A 股指数：上证指数、深证成指、创业板指、沪深300、科创50 */
+const WARMUP_INDEX_SYMBOLS = ['000001', '399001', '399006', '000300', '000688'];
+
+/** 预热核心行情的自选上限（按收藏人数降序，东财限流 300ms/次） */
+const WARMUP_FAVORITE_SYMBOL_LIMIT = 50;
+
+/**
+ * 收藏人数最多、且不在 stocks 表中的自选（ETF / LOF / 可转债），全市场快照只收录 A 股，这部分仍需逐只预热
+ */
+async function getTopFavoriteNonStockSymbols(env: Env, limit: number): Promise<string[]> {
+    const { results } = await env.DB
+        .prepare(
+            `SELECT us.symbol, COUNT(*) AS favorite_count
+             FROM user_stocks us
+             WHERE NOT EXISTS (SELECT 1 FROM stocks s WHERE s.symbol = us.symbol)
+             GROUP BY us.symbol
+             ORDER BY favorite_count DESC, us.symbol ASC
+             LIMIT ?1`,
+        )
+        .bind(limit)
+        .all<{ symbol: string; favorite_count: number }>();
+    return (results || []).map(row => row.symbol);
+}
+
+/**
+ * 定时任务注册表
+ * 新增任务只需在此追加，并在 wrangler.toml 中声明对应的 cron 表达式。
+ */
+const CRON_JOBS: CronJob[] = [
+    {
+        name: 'warmup_hot_rank',
+        description: '预热热门人气榜缓存',
+        cron: '*/10 1-7 * * MON-FRI',
+        window: 'trading',
+        async run(env) {
+            const count = await StockRankController.refreshHotStocksCache(env);
+            return { count };
+        },
+    },
+    {
+        name: 'warmup_index_quotes',
+        description: '预热 A 股主要指数行情缓存',
+        cron: '*/1 1-7 * * MON-FRI',
+        window: 'trading',
+        async run(env, ctx) {
+            const refreshed = await IndexQuoteController.refreshCnIndexQuotes(WARMUP_INDEX_SYMBOLS, env, ctx);
+            return { total: WARMUP_INDEX_SYMBOLS.length, refreshed };
+        },
+    },
+    {
+        name: 'refresh_market_snapshot',
+        description: '刷新全市场 A 股行情快照（批量行情接口优先读取）',
+        cron: '*/1 1-7 * * MON-FRI',
+        window: 'trading',
+        async run(env, ctx) {
+            const summary = await StockQuoteController.refreshMarketSnapshot(env, ctx);
+            return { ...summary };
+        },
+    },
+    {
+        name: 'warmup_favorite_quotes',
+        description: '预热全市场快照未覆盖的自选（ETF / LOF / 可转债）核心行情缓存',
+        cron: '*/1 1-7 * * MON-FRI',
+        window: 'trading',
+        async run(env, ctx) {
+            const symbols = await getTopFavoriteNonStockSymbols(env, WARMUP_FAVORITE_SYMBOL_LIMIT);
+            const refreshed = await StockQuoteController.refreshQuoteCache(symbols, 'core', env, ctx);
+            return { total: symbols.length, refreshed };
+        },
+    },
+    {
+        name: 'evaluate_user_alerts',
+        description: '评估用户行情提醒并推送触发消息',
+        cron: '*/1 1-7 * * MON-FRI',
+        window: 'trading',
+        async run(env, ctx) {
+            const { triggeredAlerts, ...summary } = await AlertService.evaluateAlerts(env, ctx);
+            const delivery = await AlertService.deliverPendingAlerts(env);
+            return {
+                ...summary,
+                sent: delivery.sent,
+                deliverySkipped: delivery.skipped,
+                deliveryFailed: delivery.failed,
+                deliveryExpired: delivery.expired,
+            };
+        },
+    },
+    {
+        name: 'tag_news_sentiment',
+        description: '大模型标注财联社最新新闻的板块利好/利空',
+        cron: '*/20 * * * *',
+        window: 'always',
+        async run(env) {
+            const summary = await NewsTagService.tagLatestNews(env);
+            return { ...summary };
+        },
+    },
+    {
+        name: 'sync_wechat_subscriptions',
+        description: '同步公众号用户关注状态（昵称头像由网页授权登录写入）',
+        cron: '30 */2 * * *',
+        window: 'always',
+        async run(env) {
+            const summary = await WechatUserService.syncSubscriptions(env);
+            return { ...summary };
+        },
+    },
+    {
+        name: 'sync_stocks',
+        description: '同步东方财富 A 股列表到 stocks 表（新股 / 更名 / 退市）',
+        cron: '15 0 * * *',
+        window: 'always',
+        async run(env) {
+            const summary = await StockSyncService.syncStocks(env);
+            return { ...summary };
+        },
+    },
+    {
+        name: 'purge_scan_login_states',
+        description: '清理过期扫码登录状态',
+        cron: '30 */2 * * *',
+        window: 'off_hours',
+        async run(env) {
+            const deleted = await ScanLoginController.cleanExpiredStates(env);
+            return { deleted };
+        },
+    },
+];
+
+/**
+ * 定时任务服务
+ * 按触发的 cron 表达式匹配注册表中的任务，结合交易时段过滤后执行，并将每个任务的最近运行状态写入 KV。
+ */
+export class CronService {
+    static getJobs(): CronJob[] {
+        return CRON_JOBS;
+    }
+
+    private static buildStatusKey(name: string): string {
+        return `${CRON_JOB_STATUS_CACHE_KEY_PREFIX}${name}`;
+    }
+
+    static async getLastStatus(name: string, env: Env): Promise<CronJobStatus | null> {
+        if (!env.KV) return null;
+
+        try {
+            return await env.KV.get<CronJobStatus>(this.buildStatusKey(name), 'json');
+        } catch (err) {
+            console.error(`[Cron] 读取任务状态失败 ${name}:`, err);
+            return null;
+        }
+    }
+
+    private static async writeStatus(status: CronJobStatus, env: Env): Promise<void> {
+        if (!env.KV) return;
+
+        try {
+            await env.KV.put(this.buildStatusKey(status.name), JSON.stringify(status), {
+                expirationTtl: CRON_JOB_STATUS_CACHE_TTL_SECONDS,
+            });
+        } catch (err) {
+            console.error(`[Cron] 写入任务状态失败 ${status.name}:`, err);
+        }
+    }
+
+    private static async runJob(job: CronJob, env: Env, ctx: ExecutionContext): Promise<CronJobStatus> {
+        const startedMs = Date.now();
+        let result: CronJobResult | null = null;
+        let error: string | null = null;
+
+        try {
+            result = await job.run(env, ctx);
+        } catch (err) {
+            error = err instanceof Error ? err.message : String(err);
+            console.error(`[Cron] ❌ ${job.name} 执行失败:`, err);
+        }
+
+        const finishedMs = Date.now();
+        const status: CronJobStatus = {
+            name: job.name,
+            cron: job.cron,
+            status: error === null ? 'success' : 'failed',
+            startedAt: formatToChinaTime(startedMs),
+            finishedAt: formatToChinaTime(finishedMs),
+            durationMs: finishedMs - startedMs,
+            result,
+            error,
+        };
+
+        if (error === null) {
+            console.log(`[Cron] ✅ ${job.name} ${status.durationMs}ms ${JSON.stringify(result)}`);
+        }
+
+        await this.writeStatus(status, env);
+        return status;
+    }
+
+    /**
+     * 执行与触发 cron 表达式匹配的任务
+     * 任务之间互不影响，单个任务失败仅记录状态。
+     */
+    static async runScheduled(cron: string, env: Env, ctx: ExecutionContext): Promise<void> {
+        const matchedJobs = CRON_JOBS.filter(job => job.cron === cron);
+        if (matchedJobs.length === 0) {
+            console.warn(`[Cron] 未注册的 cron 表达式: ${cron}`);
+            return;
+        }
+
+        let trading = false;
+        try {
+            trading = await isAShareTradingTime();
+        } catch (err) {
+            console.error('[Cron] 交易时段判断失败，按非交易时段处理:', err);
+        }
+
+        const runnableJobs = matchedJobs.filter(job => (
+            job.window === 'always'
+            || (job.window === 'trading' && trading)
+            || (job.window === 'off_hours' && !trading)
+        ));
+
+        await Promise.all(runnableJobs.map(job => this.runJob(job, env, ctx)));
+    }
+}
@@ -0,0 +1,324 @@
+import { CacheService } from './CacheService';
+import { getEastmoneySecid } from '../utils/security';
+import { eastmoneyThrottler } from '../utils/throttlers';
+import {
+    CBOND_INFO_CACHE_KEY,
+    CBOND_INFO_CACHE_TTL_SECONDS,
+    buildTimestampedCachePayload,
+    isValidTimestampedRecordCachePayload,
+} from '../constants/cache';
+
+export type CbondSortField = 'premium' | 'price' | 'change' | 'value';
+
+export interface CbondListQuery {
+    page: number;
+    pageSize: number;
+    sort: CbondSortField;
+    order: 'asc' | 'desc';
+}
+
+export interface CbondListPage {
+    total: number;
+    list: Record<string, any>[];
+}
+
+/** 可转债基础资料（数据中心，日更） */
+interface CbondInfo {
+    rating: string | null;
+    /** 发行规模（亿元） */
+    issueScale: number | null;
+    /** YYYY-MM-DD */
+    expireDate: string | null;
+    /** 起息日 YYYY-MM-DD，每年同月同日付息 */
+    valueDate: string | null;
+    /** 各年票面利率（%），按第一年起排列 */
+    couponRates: number[] | null;
+}
+
+/** 排序字段 -> clist fid */
+const SORT_FIELDS: Record<CbondSortField, string> = {
+    premium: 'f237',
+    price: 'f2',
+    change: 'f3',
+    value: 'f236',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+const CHINESE_YEAR_NUMBERS: Record<string, number> = {
+    '一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9, '十': 10,
+};
+/** 文本字段（代码、简称），其余字段按数值处理 */
+const TEXT_FIELDS = new Set(['f12', 'f14', 'f232', 'f234']);
+
+/**
+ * 东方财富 - 可转债
+ * 行情走 clist / ulist（可转债比价表字段：正股价格、转股价、转股价值、溢价率等），
+ * 信用评级、发行规模、到期日、起息日与票面利率等基础资料走数据中心 RPT_BOND_CB_LIST，按日缓存后合并。
+ */
+export class EmCbondService {
+    private static readonly LIST_URL = 'https://push2.eastmoney.com/api/qt/clist/get';
+    private static readonly QUOTE_URL = 'https://push2.eastmoney.com/api/qt/ulist.np/get';
+    private static readonly INFO_URL = 'https://datacenter-web.eastmoney.com/api/data/v1/get';
+    private static readonly UT = 'bd1d9ddb04089700cf9c27f6f7426281';
+    /** 沪深可转债 */
+    private static readonly FS = 'b:MK0354';
+    /** 数据中心单页数量 / 分页上限 */
+    private static readonly INFO_PAGE_SIZE = 500;
+    private static readonly INFO_MAX_PAGES = 10;
+
+    private static readonly HEADERS = {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+        'Accept': '*/*',
+        'Referer': 'https://quote.eastmoney.com/center/fullscreenlist.html',
+    };
+
+    /** 东方财富可转债字段 -> 中文名称 */
+    private static readonly CODE_NAME_MAP: Record<string, string> = {
+        'f12': '债券代码',
+        'f14': '债券简称',
+        'f2': '转债最新价',
+        'f3': '转债涨跌幅',
+        'f232': '正股代码',
+        'f234': '正股简称',
+        'f229': '正股最新价',
+        'f230': '正股涨跌幅',
+        'f235': '转股价',
+        'f236': '转股价值',      /*100 / 转股价 × 正股价*/
+        'f237': '转股溢价率',    /*(转债价 - 转股价值) / 转股价值 × 100*/
+        'f227': '纯债价值',
+        'f238': '纯债溢价率',
+        'f239': '回售触发价',
+        'f240': '强赎触发价',
+        'f241': '到期赎回价',
+        'f242': '开始转股日',
+        'f26': '上市日期',
+    };
+
+    private static toNumberOrNull(value: unknown): number | null {
+        if (typeof value !== 'number') return null;
+        return Number.isFinite(value) ? value : null;
+    }
+
+    private static mapRow(item: Record<string, any>): Record<string, any> {
+        const row: Record<string, any> = {};
+        for (const [key, name] of Object.entries(this.CODE_NAME_MAP)) {
+            const value = item[key];
+            // 停牌 / 无数据时数值字段返回 "-"
+            row[name] = TEXT_FIELDS.has(key)
+                ? (typeof value === 'string' ? value : null)
+                : this.toNumberOrNull(value);
+        }
+        return row;
+    }
+
+    private static toChinaTime(date: string): number {
+        return Date.parse(`${date}T00:00:00+08:00`);
+    }
+
+    /**
+     * 解析利率说明中的各年票面利率，如 "第一年0.20%、第二年0.40%、……、第六年2.00%"；无法解析时为 null
+     */
+    private static parseCouponRates(explain: unknown): number[] | null {
+        if (typeof explain !== 'string') return null;
+        const rates: number[] = [];
+        for (const [, year, rate] of explain.matchAll(/第([一二三四五六七八九十]|\d+)年[^\d%]*?([\d.]+)\s*%/g)) {
+            const index = (CHINESE_YEAR_NUMBERS[year] ?? Number(year)) - 1;
+            const value = Number(rate);
+            if (index < 0 || !Number.isFinite(value)) return null;
+            rates[index] = value;
+        }
+        if (rates.length === 0 || rates.some(rate => rate === undefined)) return null;
+        return rates;
+    }
+
+    /**
+     * 到期收益率（税前，%）：以转债现价（全价）买入持有到期，剩余各期票息按起息日周年付息，
+     * 末期按到期赎回价（含最后一期利息）兑付，二分法求解复利折现率；缺少票息或赎回价时为 null
+     */
+    private static calculateYtm(price: unknown, redemptionPrice: unknown, info: CbondInfo | undefined): number | null {
+        const p = this.toNumberOrNull(price);
+        const redemption = this.toNumberOrNull(redemptionPrice);
+        const rates = info?.couponRates;
+        if (p === null || redemption === null || p <= 0 || !info?.expireDate || !info.valueDate || !rates) return null;
+
+        const now = Date.now();
+        const expireTime = this.toChinaTime(info.expireDate);
+        if (!Number.isFinite(expireTime) || expireTime <= now) return null;
+
+        const [valueYear, valueMonthDay] = [Number(info.valueDate.slice(0, 4)), info.valueDate.slice(4)];
+        const cashflows: { years: number; amount: number }[] = [];
+        // 最后一期利息已含在到期赎回价中
+        rates.slice(0, -1).forEach((rate, index) => {
+            const payTime = this.toChinaTime(`${valueYear + index + 1}${valueMonthDay}`);
+            if (Number.isFinite(payTime) && payTime > now) {
+                cashflows.push({ years: (payTime - now) / YEAR_MS, amount: rate });
+            }
+        });
+        cashflows.push({ years: (expireTime - now) / YEAR_MS, amount: redemption });
+
+        const presentValue = (rate: number) => cashflows.reduce((sum, cf) => sum + cf.amount / Math.pow(1 + rate, cf.years), 0);
+        let low = -0.99;
+        let high = 10;
+        if (presentValue(low) < p || presentValue(high) > p) return null;
+        for (let i = 0; i < 100; i++) {
+            const mid = (low + high) / 2;
+            if (presentValue(mid) > p) low = mid;
+            else high = mid;
+        }
+        return Number((((low + high) / 2) * 100).toFixed(2));
+    }
+
+    /** 合并基础资料并计算剩余年限、到期收益率 */
+    private static enrichRow(row: Record<string, any>, info: CbondInfo | undefined): Record<string, any> {
+        const expireTime = info?.expireDate ? this.toChinaTime(info.expireDate) : NaN;
+        const remainingYears = Number.isFinite(expireTime)
+            ? Number(((expireTime - Date.now()) / YEAR_MS).toFixed(2))
+            : null;
+
+        return {
+            ...row,
+            '信用评级': info?.rating ?? null,
+            '发行规模': info?.issueScale ?? null,
+            '到期日期': info?.expireDate ?? null,
+            '剩余年限': remainingYears,
+            '到期收益率': this.calculateYtm(row['转债最新价'], row['到期赎回价'], info),
+        };
+    }
+
+    private static async fetchJson(url: URL, label: string): Promise<any> {
+        // 限流 (东方财富)
+        await eastmoneyThrottler.throttle();
+
+        const response = await fetch(url.toString(), { method: 'GET', headers: this.HEADERS });
+        if (!response.ok) {
+            throw new Error(`东方财富${label}接口请求失败: ${response.status}`);
+        }
+        return response.json();
+    }
+
+    /**
+     * 拉取数据中心全部可转债基础资料
+     */
+    private static async fetchInfoMap(): Promise<Record<string, CbondInfo>> {
+        const infoMap: Record<string, CbondInfo> = {};
+        let page = 0;
+        let pages = 1;
+
+        do {
+            page += 1;
+            const url = new URL(this.INFO_URL);
+            url.searchParams.set('reportName', 'RPT_BOND_CB_LIST');
+            url.searchParams.set('columns', 'SECURITY_CODE,RATING,ACTUAL_ISSUE_SCALE,EXPIRE_DATE,VALUE_DATE,INTEREST_RATE_EXPLAIN');
+            url.searchParams.set('sortColumns', 'SECURITY_CODE');
+            url.searchParams.set('sortTypes', '1');
+            url.searchParams.set('pageSize', String(this.INFO_PAGE_SIZE));
+            url.searchParams.set('pageNumber', String(page));
+            url.searchParams.set('source', 'WEB');
+            url.searchParams.set('client', 'WEB');
+
+            const json = await this.fetchJson(url, '可转债资料');
+            if (json?.success === false) {
+                throw new Error(`东方财富可转债资料接口返回错误: ${json?.message || 'unknown'}`);
+            }
+
+            pages = Number(json?.result?.pages) || 1;
+            const rows: any[] = Array.isArray(json?.result?.data) ? json.result.data : [];
+            for (const row of rows) {
+                if (typeof row?.SECURITY_CODE !== 'string') continue;
+                infoMap[row.SECURITY_CODE] = {
+                    rating: typeof row.RATING === 'string' && row.RATING ? row.RATING : null,
+                    issueScale: this.toNumberOrNull(row.ACTUAL_ISSUE_SCALE),
+                    expireDate: typeof row.EXPIRE_DATE === 'string' ? row.EXPIRE_DATE.slice(0, 10) : null,
+                    valueDate: typeof row.VALUE_DATE === 'string' ? row.VALUE_DATE.slice(0, 10) : null,
+                    couponRates: this.parseCouponRates(row.INTEREST_RATE_EXPLAIN),
+                };
+            }
+        } while (page < pages && page < this.INFO_MAX_PAGES);
+
+        return infoMap;
+    }
+
+    /**
+     * 可转债基础资料（KV 缓存 1 天），拉取失败时返回空表，行情字段照常返回
+     */
+    private static async getInfoMap(cacheService: CacheService | null): Promise<Record<string, CbondInfo>> {
+        if (cacheService) {
+            try {
+                const cached = await cacheService.get(CBOND_INFO_CACHE_KEY);
+                if (isValidTimestampedRecordCachePayload(cached)) {
+                    return cached.data as Record<string, CbondInfo>;
+                }
+            } catch (err) {
+                console.error(`Error reading cbond info cache ${CBOND_INFO_CACHE_KEY}:`, err);
+            }
+        }
+
+        try {
+            const infoMap = await this.fetchInfoMap();
+            if (cacheService && Object.keys(infoMap).length > 0) {
+                cacheService.set(CBOND_INFO_CACHE_KEY, buildTimestampedCachePayload(infoMap), CBOND_INFO_CACHE_TTL_SECONDS);
+            }
+            return infoMap;
+        } catch (err) {
+            console.error('Error fetching cbond info:', err);
+            return {};
+        }
+    }
+
+    /**
+     * 可转债列表（分页、排序）
+     */
+    static async getList(query: CbondListQuery, cacheService: CacheService | null): Promise<CbondListPage> {
+        const url = new URL(this.LIST_URL);
+        url.searchParams.set('pn', String(query.page));
+        url.searchParams.set('pz', String(query.pageSize));
+        url.searchParams.set('po', query.order === 'desc' ? '1' : '0');
+        url.searchParams.set('np', '1');
+        url.searchParams.set('fltt', '2');
+        url.searchParams.set('invt', '2');
+        url.searchParams.set('fid', SORT_FIELDS[query.sort]);
+        url.searchParams.set('ut', this.UT);
+        url.searchParams.set('fs', this.FS);
+        url.searchParams.set('fields', Object.keys(this.CODE_NAME_MAP).join(','));
+
+        const [json, infoMap] = await Promise.all([
+            this.fetchJson(url, '可转债列表'),
+            this.getInfoMap(cacheService),
+        ]);
+
+        const diff = json?.data?.diff;
+        const items: Record<string, any>[] = Array.isArray(diff) ? diff : Object.values(diff || {});
+
+        return {
+            total: Number(json?.data?.total) || 0,
+            list: items
+                .filter(item => typeof item?.f12 === 'string')
+                .map(item => this.enrichRow(this.mapRow(item), infoMap[item.f12])),
+        };
+    }
+
+    /**
+     * 单只可转债行情与资料，接口未返回时为 null
+     */
+    static async getBond(code: string, cacheService: CacheService | null): Promise<Record<string, any> | null> {
+        const url = new URL(this.QUOTE_URL);
+        url.searchParams.set('fltt', '2');
+        url.searchParams.set('invt', '2');
+        url.searchParams.set('ut', this.UT);
+        url.searchParams.set('fields', Object.keys(this.CODE_NAME_MAP).join(','));
+        url.searchParams.set('secids', getEastmoneySecid(code));
+
+        const [json, infoMap] = await Promise.all([
+            this.fetchJson(url, '可转债行情'),
+            this.getInfoMap(cacheService),
+        ]);
+
+        const diff = json?.data?.diff;
+        const items: Record<string, any>[] = Array.isArray(diff) ? diff : Object.values(diff || {});
+        const item = items.find(entry => entry?.f12 === code);
+        if (!item) return null;
+
+        return this.enrichRow(this.mapRow(item), infoMap[code]);
+    }
+}
@@ -0,0 +1,104 @@
+import { eastmoneyThrottler } from '../utils/throttlers';
+import { getEastmoneySecid } from '../utils/security';
+
+/** 资金流向周期：当日分钟级 / 历史日级 */
+export type FundFlowPeriod = 'intraday' | 'daily';
+
+/**
+ * 东方财富个股资金流向服务
+ * 按单笔成交额拆分：超大单（≥100 万）、大单（20–100 万）、中单（4–20 万）、小单（<4 万），
+ * 主力 = 超大单 + 大单。金额单位为元。
+ */
+export class EmFundFlowService {
+    private static readonly INTRADAY_URL = 'https://push2.eastmoney.com/api/qt/stock/fflow/kline/get';
+    private static readonly DAILY_URL = 'https://push2his.eastmoney.com/api/qt/stock/fflow/daykline/get';
+    private static readonly UT = 'b2884a393a59ad64002292a3e90d46a5';
+
+    private static readonly HEADERS = {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+        'Accept': '*/*',
+        'Referer': 'https://data.eastmoney.com/zjlx/',
+    };
+
+    private static toNumber(value: string | undefined): number | null {
+        if (value === undefined || value === '' || value === '-') return null;
+        const num = Number(value);
+        return Number.isFinite(num) ? num : null;
+    }
+
+    private static async fetchKlines(url: URL, label: string): Promise<string[]> {
+        // 限流 (东方财富)
+        await eastmoneyThrottler.throttle();
+
+        const response = await fetch(url.toString(), { method: 'GET', headers: this.HEADERS });
+        if (!response.ok) {
+            throw new Error(`东方财富${label}接口请求失败: ${response.status}`);
+        }
+
+        const json: any = await response.json();
+        const klines = json?.data?.klines;
+        return Array.isArray(klines) ? klines.filter((line: unknown): line is string => typeof line === 'string') : [];
+    }
+
+    /**
+     * 当日分钟级资金流向（累计净流入）
+     * 行格式：时间,主力,小单,中单,大单,超大单
+     */
+    static async getIntradayFundFlow(symbol: string): Promise<Record<string, any>[]> {
+        const url = new URL(this.INTRADAY_URL);
+        url.searchParams.set('lmt', '0');
+        url.searchParams.set('klt', '1');
+        url.searchParams.set('secid', getEastmoneySecid(symbol));
+        url.searchParams.set('fields1', 'f1,f2,f3,f7');
+        url.searchParams.set('fields2', 'f51,f52,f53,f54,f55,f56');
+        url.searchParams.set('ut', this.UT);
+
+        const lines = await this.fetchKlines(url, '分钟资金流向');
+        return lines
+            .map(line => line.split(','))
+            .filter(parts => parts.length >= 6)
+            .map(parts => ({
+                '时间': parts[0],
+                '主力净流入': this.toNumber(parts[1]),
+                '超大单净流入': this.toNumber(parts[5]),
+                '大单净流入': this.toNumber(parts[4]),
+                '中单净流入': this.toNumber(parts[3]),
+                '小单净流入': this.toNumber(parts[2]),
+            }));
+    }
+
+    /**
+     * 最近 N 个交易日的资金流向，按日期正序
+     * 行格式：日期,主力,小单,中单,大单,超大单,主力占比,小单占比,中单占比,大单占比,超大单占比,收盘价,涨跌幅
+     */
+    static async getDailyFundFlow(symbol: string, days: number): Promise<Record<string, any>[]> {
+        const url = new URL(this.DAILY_URL);
+        url.searchParams.set('lmt', String(days));
+        url.searchParams.set('klt', '101');
+        url.searchParams.set('secid', getEastmoneySecid(symbol));
+        url.searchParams.set('fields1', 'f1,f2,f3,f7');
+        url.searchParams.set('fields2', 'f51,f52,f53,f54,f55,f56,f57,f58,f59,f60,f61,f62,f63');
+        url.searchParams.set('ut', this.UT);
+
+        const lines = await this.fetchKlines(url, '历史资金流向');
+        return lines
+            .map(line => line.split(','))
+            .filter(parts => parts.length >= 13)
+            .slice(-days)
+            .map(parts => ({
+                '日期': parts[0],
+                '收盘价': this.toNumber(parts[11]),
+                '涨跌幅': this.toNumber(parts[12]),
+                '主力净流入': this.toNumber(parts[1]),
+                '主力净占比': this.toNumber(parts[6]),
+                '超大单净流入': this.toNumber(parts[5]),
+                '超大单净占比': this.toNumber(parts[10]),
+                '大单净流入': this.toNumber(parts[4]),
+                '大单净占比': this.toNumber(parts[9]),
+                '中单净流入': this.toNumber(parts[3]),
+                '中单净占比': this.toNumber(parts[8]),
+                '小单净流入': this.toNumber(parts[2]),
+                '小单净占比': this.toNumber(parts[7]),
+            }));
+    }
+}
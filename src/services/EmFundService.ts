@@ -0,0 +1,178 @@
+import { formatToChinaTime } from '../utils/datetime';
+import { getEastmoneySecid, getSecurityIdentity } from '../utils/security';
+import { eastmoneyThrottler } from '../utils/throttlers';
+
+export interface FundNavQuery {
+    page: number;
+    pageSize: number;
+    /** YYYY-MM-DD */
+    startDate?: string;
+    endDate?: string;
+}
+
+export interface FundNavPage {
+    total: number;
+    list: Record<string, any>[];
+}
+
+/** 成交量字段（原始单位为手，返回时转换为份） */
+const VOLUME_FIELDS = new Set(['f5']);
+
+/**
+ * 东方财富 - 场内基金（ETF / LOF）行情与净值
+ * 行情走 ulist 批量接口（字段口径同 clist），净值走基金 F10 历史净值接口
+ */
+export class EmFundService {
+    private static readonly QUOTE_URL = 'https://push2.eastmoney.com/api/qt/ulist.np/get';
+    private static readonly NAV_URL = 'https://api.fund.eastmoney.com/f10/lsjz';
+    private static readonly UT = 'bd1d9ddb04089700cf9c27f6f7426281';
+
+    private static readonly USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36';
+
+    /** 东方财富 ulist 字段 -> 中文名称 */
+    private static readonly CODE_NAME_MAP: Record<string, string> = {
+        'f12': '基金代码',
+        'f14': '基金简称',
+        'f2': '最新价',
+        'f124': '更新时间',    /*Unix秒，返回时已转换为可读格式*/
+        'f4': '涨跌额',
+        'f3': '涨跌幅',
+        'f18': '昨收价',
+        'f17': '今开价',
+        'f15': '最高价',
+        'f16': '最低价',
+        'f5': '成交量',        /*原始单位为手(1手=100份)，返回时已转换为份*/
+        'f6': '成交额',
+        'f8': '换手率',
+        'f441': 'IOPV',        /*IOPV实时估值（交易时段每15秒更新）*/
+    };
+
+    private static toNumberOrNull(value: unknown): number | null {
+        if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+        if (typeof value === 'string' && value.trim() !== '') {
+            const num = Number(value);
+            return Number.isFinite(num) ? num : null;
+        }
+        return null;
+    }
+
+    /**
+     * 折溢价率（%）= (最新价 - IOPV) / IOPV × 100，正数为溢价、负数为折价
+     */
+    private static calcPremiumRate(price: unknown, iopv: unknown): number | null {
+        const p = this.toNumberOrNull(price);
+        const nav = this.toNumberOrNull(iopv);
+        if (p === null || nav === null || nav <= 0) return null;
+        return Number(((p - nav) / nav * 100).toFixed(2));
+    }
+
+    /**
+     * 批量获取场内基金实时行情（含 IOPV 与折溢价率）
+     * 接口未返回的代码以 `错误` 字段标记，顺序与入参一致
+     */
+    static async getQuotes(symbols: string[]): Promise<Record<string, any>[]> {
+        if (symbols.length === 0) return [];
+
+        const url = new URL(this.QUOTE_URL);
+        url.searchParams.set('fltt', '2');
+        url.searchParams.set('invt', '2');
+        url.searchParams.set('ut', this.UT);
+        url.searchParams.set('fields', Object.keys(this.CODE_NAME_MAP).join(','));
+        url.searchParams.set('secids', symbols.map(symbol => getEastmoneySecid(symbol)).join(','));
+
+        // 限流 (东方财富)
+        await eastmoneyThrottler.throttle();
+
+        const response = await fetch(url.toString(), {
+            method: 'GET',
+            headers: {
+                'User-Agent': this.USER_AGENT,
+                'Accept': '*/*',
+                'Referer': 'https://quote.eastmoney.com/center/gridlist.html',
+            },
+        });
+
+        if (!response.ok) {
+            throw new Error(`东方财富基金行情接口请求失败: ${response.status}`);
+        }
+
+        const json: any = await response.json();
+        const diff = json?.data?.diff;
+        const items: Record<string, any>[] = Array.isArray(diff) ? diff : Object.values(diff || {});
+
+        const quotesBySymbol = new Map<string, Record<string, any>>();
+        for (const item of items) {
+            if (typeof item?.f12 !== 'string') continue;
+
+            const { lotSize } = getSecurityIdentity(item.f12);
+            const quote: Record<string, any> = {};
+            for (const [key, name] of Object.entries(this.CODE_NAME_MAP)) {
+                let value = item[key];
+                if (VOLUME_FIELDS.has(key) && typeof value === 'number') {
+                    value = value * lotSize; // 手 -> 份
+                } else if (key === 'f124' && typeof value === 'number') {
+                    value = formatToChinaTime(value * 1000); // Unix秒 -> 毫秒 -> 可读格式
+                }
+                quote[name] = value;
+            }
+            quote['折溢价率'] = this.calcPremiumRate(item.f2, item.f441);
+
+            quotesBySymbol.set(item.f12, quote);
+        }
+
+        return symbols.map(symbol => quotesBySymbol.get(symbol) ?? {
+            '基金代码': symbol,
+            '错误': '未查询到基金行情',
+        });
+    }
+
+    /**
+     * 历史净值（按净值日期倒序分页）
+     * @param code 6位基金代码（场内 / 场外均可）
+     */
+    static async getNavHistory(code: string, query: FundNavQuery): Promise<FundNavPage> {
+        const url = new URL(this.NAV_URL);
+        url.searchParams.set('fundCode', code);
+        url.searchParams.set('pageIndex', String(query.page));
+        url.searchParams.set('pageSize', String(query.pageSize));
+        url.searchParams.set('startDate', query.startDate ?? '');
+        url.searchParams.set('endDate', query.endDate ?? '');
+
+        // 限流 (东方财富)
+        await eastmoneyThrottler.throttle();
+
+        const response = await fetch(url.toString(), {
+            method: 'GET',
+            headers: {
+                'User-Agent': this.USER_AGENT,
+                'Accept': '*/*',
+                'Referer': 'https://fundf10.eastmoney.com/',
+            },
+        });
+
+        if (!response.ok) {
+            throw new Error(`东方财富基金净值接口请求失败: ${response.status}`);
+        }
+
+        const json: any = await response.json();
+        if (typeof json?.ErrCode === 'number' && json.ErrCode !== 0) {
+            throw new Error(`东方财富基金净值接口返回错误: ${json.ErrMsg || json.ErrCode}`);
+        }
+
+        const rows: any[] = Array.isArray(json?.Data?.LSJZList) ? json.Data.LSJZList : [];
+        const list = rows.map(row => ({
+            '净值日期': row?.FSRQ ?? null,
+            '单位净值': this.toNumberOrNull(row?.DWJZ),
+            '累计净值': this.toNumberOrNull(row?.LJJZ),
+            '日增长率': this.toNumberOrNull(row?.JZZZL),
+            '申购状态': row?.SGZT || null,
+            '赎回状态': row?.SHZT || null,
+            '分红送配': row?.FHSP || null,
+        }));
+
+        return {
+            total: Number(json?.TotalCount) || 0,
+            list,
+        };
+    }
+}
@@ -1,4 +1,4 @@
-import { getStockIdentity } from '../utils/stock';
+import { getEastmoneySecid, getSecurityIdentity } from '../utils/security';
 import { eastmoneyThrottler } from '../utils/throttlers';
 
 /**
@@ -30,10 +30,9 @@ export class EmService {
      * @param symbol 6位股票代码
      */
     static async getStockInfo(symbol: string): Promise<Record<string, any>> {
-        const identity = getStockIdentity(symbol);
-        const { eastmoneyId } = identity;
+        const identity = getSecurityIdentity(symbol);
 
-        const url = `${this.BASE_URL}?invt=2&fltt=2&fields=${this.FIELDS}&secid=${eastmoneyId}.${symbol}`;
+        const url = `${this.BASE_URL}?invt=2&fltt=2&fields=${this.FIELDS}&secid=${getEastmoneySecid(symbol)}`;
 
         // 限流 (东方财富)
         await eastmoneyThrottler.throttle();
@@ -60,7 +59,7 @@ export class EmService {
         }
 
         const result: Record<string, any> = {
-            '市场代码': identity.market.toUpperCase(),
+            '市场代码': identity.exchange ?? 'UNKNOWN',
         };
 
         for (const [key, name] of Object.entries(this.CODE_NAME_MAP)) {
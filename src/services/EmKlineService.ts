@@ -1,4 +1,4 @@
-import { getStockIdentity } from '../utils/stock';
+import { getEastmoneySecid } from '../utils/security';
 import { eastmoneyThrottler } from '../utils/throttlers';
 
 /** K 线周期 */
@@ -56,8 +56,7 @@ export class EmKlineService {
             endDate,
         } = options;
 
-        const identity = getStockIdentity(symbol);
-        const secid = `${identity.eastmoneyId}.${symbol}`;
+        const secid = getEastmoneySecid(symbol);
 
         const url = new URL(this.BASE_URL);
         url.searchParams.set('secid', secid);
@@ -0,0 +1,238 @@
+import { eastmoneyThrottler } from '../utils/throttlers';
+
+/** 涨跌停股池类型：涨停 / 跌停 / 炸板 */
+export type LimitPoolType = 'up' | 'down' | 'broken';
+
+interface IndexDailyAmount {
+    date: string;
+    amount: number;
+}
+
+interface LimitPoolConfig {
+    path: string;
+    sort: string;
+    label: string;
+}
+
+/**
+ * 东方财富市场全景服务
+ * - 涨跌家数、两市成交额：上证指数 / 深证综指的 ulist 行情与日 K 线
+ * - 涨停 / 跌停 / 炸板股池：push2ex 题材股池接口（连板数、首次封板时间、封板资金）
+ */
+export class EmMarketService {
+    private static readonly ULIST_URL = 'https://push2.eastmoney.com/api/qt/ulist.np/get';
+    private static readonly KLINE_URL = 'https://push2his.eastmoney.com/api/qt/stock/kline/get';
+    private static readonly POOL_BASE_URL = 'https://push2ex.eastmoney.com';
+    private static readonly UT = '8dec03ba335b81bf4ebdf7b29ec27d15';
+    private static readonly POOL_UT = '7eea3edcaed734bea9cbfc24409ed989';
+    private static readonly POOL_PAGE_SIZE = 10000;
+    /** 上证指数（沪市全部）+ 深证综指（深市全部） */
+    private static readonly BREADTH_SECIDS = ['1.000001', '0.399106'];
+
+    static readonly LIMIT_POOL_CONFIGS: Record<LimitPoolType, LimitPoolConfig> = {
+        up: { path: 'getTopicZTPool', sort: 'fbt:asc', label: '涨停' },
+        down: { path: 'getTopicDTPool', sort: 'fund:asc', label: '跌停' },
+        broken: { path: 'getTopicZBPool', sort: 'fbt:asc', label: '炸板' },
+    };
+
+    private static readonly HEADERS = {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+        'Accept': '*/*',
+        'Referer': 'https://quote.eastmoney.com/',
+    };
+
+    private static toNumberOrNull(value: unknown): number | null {
+        if (typeof value !== 'number') return null;
+        return Number.isFinite(value) ? value : null;
+    }
+
+    /** 股池价格字段单位为厘 */
+    private static toPrice(value: unknown): number | null {
+        const num = this.toNumberOrNull(value);
+        return num === null ? null : Math.round(num) / 1000;
+    }
+
+    /** 股池时间字段为 HHMMSS 整数，如 93000 */
+    private static formatPoolTime(value: unknown): string | null {
+        const num = this.toNumberOrNull(value);
+        if (num === null || num <= 0) return null;
+        const text = String(Math.floor(num)).padStart(6, '0');
+        return `${text.slice(0, 2)}:${text.slice(2, 4)}:${text.slice(4, 6)}`;
+    }
+
+    private static async fetchJson(url: URL, label: string): Promise<any> {
+        // 限流 (东方财富)
+        await eastmoneyThrottler.throttle();
+
+        const response = await fetch(url.toString(), { method: 'GET', headers: this.HEADERS });
+        if (!response.ok) {
+            throw new Error(`东方财富${label}接口请求失败: ${response.status}`);
+        }
+        return response.json();
+    }
+
+    /**
+     * 指数最近两根日 K 线的成交额，按时间正序
+     */
+    private static async getIndexDailyAmounts(secid: string): Promise<IndexDailyAmount[]> {
+        const url = new URL(this.KLINE_URL);
+        url.searchParams.set('secid', secid);
+        url.searchParams.set('klt', '101');
+        url.searchParams.set('fqt', '0');
+        url.searchParams.set('lmt', '2');
+        url.searchParams.set('end', '20500101');
+        url.searchParams.set('ut', this.UT);
+        url.searchParams.set('fields1', 'f1,f2,f3');
+        url.searchParams.set('fields2', 'f51,f57');
+
+        const json = await this.fetchJson(url, '指数K线');
+        const klines = json?.data?.klines;
+        if (!Array.isArray(klines)) return [];
+
+        return klines
+            .map((line: string) => {
+                const [date, amount] = String(line).split(',');
+                return { date, amount: Number(amount) };
+            })
+            .filter((item: IndexDailyAmount) => item.date && Number.isFinite(item.amount));
+    }
+
+    /**
+     * 最近交易日（YYYY-MM-DD），交易日 09:15 前为上一交易日
+     */
+    static async getLatestTradeDate(): Promise<string> {
+        const amounts = await this.getIndexDailyAmounts(this.BREADTH_SECIDS[0]);
+        const latest = amounts[amounts.length - 1];
+        if (!latest) {
+            throw new Error('东方财富指数K线为空，无法确定交易日');
+        }
+        return latest.date;
+    }
+
+    /**
+     * 涨停 / 跌停 / 炸板股池
+     * @param date 交易日 YYYY-MM-DD
+     */
+    static async getLimitPool(type: LimitPoolType, date: string): Promise<Record<string, any>[]> {
+        const config = this.LIMIT_POOL_CONFIGS[type];
+        const url = new URL(`${this.POOL_BASE_URL}/${config.path}`);
+        url.searchParams.set('ut', this.POOL_UT);
+        url.searchParams.set('dpt', 'wz.ztzt');
+        url.searchParams.set('Pageindex', '0');
+        url.searchParams.set('pagesize', String(this.POOL_PAGE_SIZE));
+        url.searchParams.set('sort', config.sort);
+        url.searchParams.set('date', date.replace(/-/g, ''));
+
+        const json = await this.fetchJson(url, `${config.label}股池`);
+        const pool = json?.data?.pool;
+        if (!Array.isArray(pool)) return [];
+
+        return pool
+            .map((item: any): Record<string, any> => {
+                const base: Record<string, any> = {
+                    '股票代码': typeof item?.c === 'string' ? item.c : String(item?.c ?? ''),
+                    '股票名称': typeof item?.n === 'string' ? item.n : '',
+                    '最新价': this.toPrice(item?.p),
+                    '涨跌幅': this.toNumberOrNull(item?.zdp),
+                    '成交额': this.toNumberOrNull(item?.amount),
+                    '流通市值': this.toNumberOrNull(item?.ltsz),
+                    '换手率': this.toNumberOrNull(item?.hs),
+                    '所属行业': typeof item?.hybk === 'string' ? item.hybk : '',
+                };
+
+                if (type === 'up') {
+                    return {
+                        ...base,
+                        '连板数': this.toNumberOrNull(item?.lbc),
+                        '首次封板时间': this.formatPoolTime(item?.fbt),
+                        '最后封板时间': this.formatPoolTime(item?.lbt),
+                        '封板资金': this.toNumberOrNull(item?.fund),
+                        '炸板次数': this.toNumberOrNull(item?.zbc),
+                        '涨停统计': item?.zttj ? `${item.zttj.days}天${item.zttj.ct}板` : null,
+                    };
+                }
+
+                if (type === 'down') {
+                    return {
+                        ...base,
+                        '连板数': this.toNumberOrNull(item?.days),
+                        '首次封板时间': this.formatPoolTime(item?.fbt),
+                        '最后封板时间': this.formatPoolTime(item?.lbt),
+                        '封板资金': this.toNumberOrNull(item?.fund),
+                        '板上成交额': this.toNumberOrNull(item?.fba),
+                        '开板次数': this.toNumberOrNull(item?.zbc),
+                    };
+                }
+
+                return {
+                    ...base,
+                    '涨停价': this.toPrice(item?.ztp),
+                    '首次封板时间': this.formatPoolTime(item?.fbt),
+                    '炸板次数': this.toNumberOrNull(item?.zbc),
+                    '振幅': this.toNumberOrNull(item?.zf),
+                    '涨停统计': item?.zttj ? `${item.zttj.days}天${item.zttj.ct}板` : null,
+                };
+            })
+            .filter((item) => item['股票代码'] !== '');
+    }
+
+    /**
+     * 市场全景：涨跌家数、涨跌停家数、两市成交额与上一交易日对比
+     */
+    static async getMarketOverview(): Promise<Record<string, any>> {
+        const ulistUrl = new URL(this.ULIST_URL);
+        ulistUrl.searchParams.set('fltt', '2');
+        ulistUrl.searchParams.set('invt', '2');
+        ulistUrl.searchParams.set('ut', this.UT);
+        ulistUrl.searchParams.set('secids', this.BREADTH_SECIDS.join(','));
+        ulistUrl.searchParams.set('fields', 'f12,f14,f104,f105,f106');
+
+        const [breadthJson, ...amountSeries] = await Promise.all([
+            this.fetchJson(ulistUrl, '涨跌家数'),
+            ...this.BREADTH_SECIDS.map(secid => this.getIndexDailyAmounts(secid)),
+        ]);
+
+        const diff = breadthJson?.data?.diff;
+        const breadthList: any[] = Array.isArray(diff) ? diff : Object.values(diff || {});
+        const sumField = (field: string) => breadthList.reduce((sum, item) => sum + (this.toNumberOrNull(item?.[field]) ?? 0), 0);
+
+        const latestSeries = amountSeries[0];
+        const tradeDate = latestSeries[latestSeries.length - 1]?.date;
+        if (!tradeDate) {
+            throw new Error('东方财富指数K线为空，无法确定交易日');
+        }
+        // 两个指数的 K 线按日期对齐后求和
+        const sumAmount = (date: string | undefined) => date
+            ? amountSeries.reduce((sum, series) => sum + (series.find(item => item.date === date)?.amount ?? 0), 0)
+            : null;
+        const previousDate = latestSeries.length > 1 ? latestSeries[latestSeries.length - 2].date : undefined;
+        const amount = sumAmount(tradeDate);
+        const previousAmount = sumAmount(previousDate);
+
+        const [upPool, downPool, brokenPool] = await Promise.all([
+            this.getLimitPool('up', tradeDate),
+            this.getLimitPool('down', tradeDate),
+            this.getLimitPool('broken', tradeDate),
+        ]);
+        const sealedTotal = upPool.length + brokenPool.length;
+
+        return {
+            '交易日': tradeDate,
+            '统计范围': '沪深两市（上证指数 + 深证综指）',
+            '上涨家数': sumField('f104'),
+            '下跌家数': sumField('f105'),
+            '平盘家数': sumField('f106'),
+            '涨停家数': upPool.length,
+            '跌停家数': downPool.length,
+            '炸板家数': brokenPool.length,
+            '封板率': sealedTotal > 0 ? Number((upPool.length / sealedTotal * 100).toFixed(2)) : null,
+            '成交额': amount,
+            '上一交易日': previousDate ?? null,
+            '上一交易日成交额': previousAmount,
+            '成交额变化': amount !== null && previousAmount !== null ? amount - previousAmount : null,
+            '成交额变化率': amount !== null && previousAmount
+                ? Number(((amount - previousAmount) / previousAmount * 100).toFixed(2))
+                : null,
+        };
+    }
+}
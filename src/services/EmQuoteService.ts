@@ -1,12 +1,19 @@
-import { getStockIdentity } from '../utils/stock';
+import { getEastmoneySecid, getSecurityIdentity } from '../utils/security';
 import { formatToChinaTime } from '../utils/datetime';
 import { eastmoneyThrottler } from '../utils/throttlers';
 
 /** 查询级别 */
 export type QuoteLevel = 'core' | 'activity' | 'fundamental';
 
-/** 需要从 手 转换为 股 的字段 */
-const VOLUME_FIELDS = new Set(['f47', 'f49', 'f161']);
+/** 需要从 手 转换为 股 的字段（含五档挂单量） */
+const VOLUME_FIELDS = new Set(['f47', 'f49', 'f161', 'f12', 'f14', 'f16', 'f18', 'f20', 'f32', 'f34', 'f36', 'f38', 'f40', 'f192']);
+
+/** 逐笔成交方向编码 */
+const TICK_DIRECTION_NAMES: Record<string, string> = {
+    '1': '卖出',
+    '2': '买入',
+    '4': '中性',
+};
 
 /**
  * 东方财富实时行情服务
@@ -15,6 +22,16 @@ const VOLUME_FIELDS = new Set(['f47', 'f49', 'f161']);
 export class EmQuoteService {
     /** 行情接口 */
     private static readonly BASE_URL = 'https://push2.eastmoney.com/api/qt/stock/get';
+    /** 逐笔成交接口 */
+    private static readonly DETAILS_URL = 'https://push2.eastmoney.com/api/qt/stock/details/get';
+    private static readonly DETAILS_UT = 'fa5fd1943c7b386f172d6893dbfba10b';
+
+    private static readonly HEADERS = {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+        'Accept': '*/*',
+        'Accept-Language': 'zh-CN,zh;q=0.9',
+        'Referer': 'https://quote.eastmoney.com/',
+    };
 
     /* 
      * 一级请求字段（核心行情接口，适合高频请求，字段较少，保证快速响应）
@@ -75,6 +92,25 @@ export class EmQuoteService {
     */
     private static readonly FUNDAMENTAL_FIELDS = 'f57,f58,f55,f162,f92,f167,f183,f184,f105,f185,f186,f187,f173,f188,f84,f85,f116,f117,f190,f86';
 
+    /*
+     * 五档盘口字段
+     * f19/f20 ~ f11/f12: 买一 ~ 买五 价格 / 挂单量（手）→ 返回时转换为股
+     * f39/f40 ~ f31/f32: 卖一 ~ 卖五 价格 / 挂单量（手）→ 返回时转换为股
+     * f191: 委比（%）
+     * f192: 委差（手）→ 返回时转换为股
+     */
+    private static readonly ORDERBOOK_FIELDS = 'f57,f58,f43,f60,f86,f191,f192,f11,f12,f13,f14,f15,f16,f17,f18,f19,f20,f31,f32,f33,f34,f35,f36,f37,f38,f39,f40';
+
+    /** 买一 ~ 买五 的 [价格字段, 挂单量字段] */
+    private static readonly BID_LEVELS: [string, string][] = [
+        ['f19', 'f20'], ['f17', 'f18'], ['f15', 'f16'], ['f13', 'f14'], ['f11', 'f12'],
+    ];
+
+    /** 卖一 ~ 卖五 的 [价格字段, 挂单量字段] */
+    private static readonly ASK_LEVELS: [string, string][] = [
+        ['f39', 'f40'], ['f37', 'f38'], ['f35', 'f36'], ['f33', 'f34'], ['f31', 'f32'],
+    ];
+
     /** 级别 -> 请求字段 映射 */
     private static readonly LEVEL_FIELDS: Record<QuoteLevel, string> = {
         'core': EmQuoteService.CORE_FIELDS,
@@ -98,7 +134,7 @@ export class EmQuoteService {
         'f170': '涨跌幅',
         'f71': '均价',
         'f50': '量比',
-        'f47': '成交量',     /*原始单位为手(1手=100股)，返回时已转换为股*/
+        'f47': '成交量',     /*原始单位为手(股票 / 基金 1手=100，可转债 1手=10张)，返回时已转换为股 / 份 / 张*/
         'f48': '成交额',     /*单位为：元*/
         'f168': '换手率',
         'f161': '内盘',      /*原始单位为手，返回时已转换为股*/
@@ -123,29 +159,15 @@ export class EmQuoteService {
     };
 
     /**
-     * 获取单只股票实时行情
-     * @param symbol 6位股票代码
-     * @param level 查询级别，默认 core
+     * 请求行情接口并返回原始 data 字段
      */
-    static async getQuote(symbol: string, level: QuoteLevel = 'core'): Promise<Record<string, any>> {
-        const identity = getStockIdentity(symbol);
-        const { eastmoneyId } = identity;
-        const fields = this.LEVEL_FIELDS[level];
+    private static async fetchQuoteData(symbol: string, fields: string): Promise<Record<string, any>> {
+        const url = `${this.BASE_URL}?invt=2&fltt=2&fields=${fields}&secid=${getEastmoneySecid(symbol)}`;
 
-        const url = `${this.BASE_URL}?invt=2&fltt=2&fields=${fields}&secid=${eastmoneyId}.${symbol}`;
-        
         // 限流 (东方财富)
         await eastmoneyThrottler.throttle();
 
-        const response = await fetch(url, {
-            method: 'GET',
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
-                'Accept': '*/*',
-                'Accept-Language': 'zh-CN,zh;q=0.9',
-                'Referer': 'https://quote.eastmoney.com/',
-            },
-        });
+        const response = await fetch(url, { method: 'GET', headers: this.HEADERS });
 
         if (!response.ok) {
             throw new Error(`东方财富行情接口请求失败: ${response.status}`);
@@ -158,6 +180,31 @@ export class EmQuoteService {
             throw new Error('东方财富行情接口返回数据格式异常');
         }
 
+        return innerData;
+    }
+
+    /** 价格为 "-"（无挂单 / 停牌）时返回 null */
+    private static toNumberOrNull(value: unknown): number | null {
+        if (typeof value !== 'number') return null;
+        return Number.isFinite(value) ? value : null;
+    }
+
+    /** 手 -> 股 / 份 / 张（股票、基金 1手 = 100，可转债 1手 = 10张） */
+    private static toShares(key: string, value: unknown, lotSize: number): number | null {
+        const num = this.toNumberOrNull(value);
+        if (num === null) return null;
+        return VOLUME_FIELDS.has(key) ? num * lotSize : num;
+    }
+
+    /**
+     * 获取单只股票实时行情
+     * @param symbol 6位股票代码
+     * @param level 查询级别，默认 core
+     */
+    static async getQuote(symbol: string, level: QuoteLevel = 'core'): Promise<Record<string, any>> {
+        const innerData = await this.fetchQuoteData(symbol, this.LEVEL_FIELDS[level]);
+        const { lotSize } = getSecurityIdentity(symbol);
+
         const result: Record<string, any> = {};
 
         for (const [key, name] of Object.entries(this.CODE_NAME_MAP)) {
@@ -165,7 +212,7 @@ export class EmQuoteService {
                 let value = innerData[key];
 
                 if (VOLUME_FIELDS.has(key) && typeof value === 'number') {
-                    value = value * 100; // 手 -> 股（1手 = 100股）
+                    value = value * lotSize; // 手 -> 股 / 份 / 张
                 } else if (key === 'f86' && typeof value === 'number') {
                     value = formatToChinaTime(value * 1000); // Unix秒 -> 毫秒 -> 可读格式
                 }
@@ -198,4 +245,82 @@ export class EmQuoteService {
             };
         });
     }
+
+    /**
+     * 五档盘口
+     * 挂单量单位为股（基金为份、可转债为张），无挂单的档位价格与数量为 null
+     */
+    static async getOrderBook(symbol: string): Promise<Record<string, any>> {
+        const data = await this.fetchQuoteData(symbol, this.ORDERBOOK_FIELDS);
+        const { lotSize } = getSecurityIdentity(symbol);
+        const buildLevels = (levels: [string, string][], label: string) => levels.map(([priceKey, volumeKey], index) => ({
+            '档位': `${label}${index + 1}`,
+            '价格': this.toNumberOrNull(data[priceKey]),
+            '数量': this.toShares(volumeKey, data[volumeKey], lotSize),
+        }));
+
+        return {
+            '股票代码': data.f57 ?? symbol,
+            '股票简称': data.f58 ?? '',
+            '最新价': this.toNumberOrNull(data.f43),
+            '昨收价': this.toNumberOrNull(data.f60),
+            '委比': this.toNumberOrNull(data.f191),
+            '委差': this.toShares('f192', data.f192, lotSize),
+            '买盘': buildLevels(this.BID_LEVELS, '买'),
+            '卖盘': buildLevels(this.ASK_LEVELS, '卖'),
+            '更新时间': typeof data.f86 === 'number' ? formatToChinaTime(data.f86 * 1000) : null,
+        };
+    }
+
+    /**
+     * 最近逐笔成交，按时间正序
+     * 行格式：时间,价格,成交量(手),笔数,方向(1 卖出 / 2 买入 / 4 中性)
+     * @param count 最多返回最近多少笔
+     */
+    static async getTicks(symbol: string, count: number): Promise<Record<string, any>> {
+        const { lotSize } = getSecurityIdentity(symbol);
+        const url = new URL(this.DETAILS_URL);
+        url.searchParams.set('secid', getEastmoneySecid(symbol));
+        url.searchParams.set('pos', String(-count));
+        url.searchParams.set('ut', this.DETAILS_UT);
+        url.searchParams.set('fields1', 'f1,f2,f3,f4');
+        url.searchParams.set('fields2', 'f51,f52,f53,f54,f55');
+
+        // 限流 (东方财富)
+        await eastmoneyThrottler.throttle();
+
+        const response = await fetch(url.toString(), { method: 'GET', headers: this.HEADERS });
+        if (!response.ok) {
+            throw new Error(`东方财富逐笔成交接口请求失败: ${response.status}`);
+        }
+
+        const json: any = await response.json();
+        const data = json?.data;
+        if (!data) {
+            throw new Error('东方财富逐笔成交接口返回数据格式异常');
+        }
+
+        const details: unknown[] = Array.isArray(data.details) ? data.details : [];
+        const ticks = details
+            .filter((line): line is string => typeof line === 'string')
+            .map(line => line.split(','))
+            .filter(parts => parts.length >= 5)
+            .map(parts => {
+                const volume = Number(parts[2]);
+                const price = Number(parts[1]);
+                return {
+                    '时间': parts[0],
+                    '价格': Number.isFinite(price) ? price : null,
+                    '成交量': Number.isFinite(volume) ? volume * lotSize : null,
+                    '笔数': Number.isFinite(Number(parts[3])) ? Number(parts[3]) : null,
+                    '方向': TICK_DIRECTION_NAMES[parts[4]] ?? '中性',
+                };
+            });
+
+        return {
+            '股票代码': typeof data.code === 'string' ? data.code : symbol,
+            '昨收价': this.toNumberOrNull(data.prePrice),
+            '逐笔成交': ticks,
+        };
+    }
 }
@@ -0,0 +1,95 @@
+import { eastmoneyThrottler } from '../utils/throttlers';
+
+export interface EmListedStock {
+    symbol: string;
+    name: string;
+    market: 'SH' | 'SZ' | 'BJ';
+}
+
+/**
+ * 东方财富 A 股全量列表
+ * 按交易所分别分页拉取 clist，market 口径与 D1 stocks 表一致（SH / SZ / BJ）
+ */
+export class EmStockListService {
+    private static readonly BASE_URL = 'https://push2.eastmoney.com/api/qt/clist/get';
+    private static readonly UT = 'bd1d9ddb04089700cf9c27f6f7426281';
+    /** clist 单页上限 */
+    private static readonly PAGE_SIZE = 100;
+    /** 单个交易所分页上限，防止 total 异常时无限翻页 */
+    private static readonly MAX_PAGES = 60;
+
+    /** 交易所 -> fs 筛选条件 */
+    private static readonly MARKET_FILTERS: Record<EmListedStock['market'], string> = {
+        SH: 'm:1+t:2,m:1+t:23',
+        SZ: 'm:0+t:6,m:0+t:80',
+        BJ: 'm:0+t:81+s:2048',
+    };
+
+    private static async fetchPage(fs: string, page: number): Promise<{ total: number; list: any[] }> {
+        const url = new URL(this.BASE_URL);
+        url.searchParams.set('pn', String(page));
+        url.searchParams.set('pz', String(this.PAGE_SIZE));
+        url.searchParams.set('po', '0');
+        url.searchParams.set('np', '1');
+        url.searchParams.set('fltt', '2');
+        url.searchParams.set('invt', '2');
+        url.searchParams.set('fid', 'f12');
+        url.searchParams.set('ut', this.UT);
+        url.searchParams.set('fs', fs);
+        url.searchParams.set('fields', 'f12,f14');
+
+        // 限流 (东方财富)
+        await eastmoneyThrottler.throttle();
+
+        const response = await fetch(url.toString(), {
+            method: 'GET',
+            headers: {
+                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+                'Accept': '*/*',
+                'Referer': 'https://quote.eastmoney.com/center/gridlist.html',
+            },
+        });
+
+        if (!response.ok) {
+            throw new Error(`东方财富股票列表接口请求失败: ${response.status} (fs=${fs}, page=${page})`);
+        }
+
+        const json: any = await response.json();
+        const diff = json?.data?.diff;
+        return {
+            total: Number(json?.data?.total) || 0,
+            list: Array.isArray(diff) ? diff : Object.values(diff || {}),
+        };
+    }
+
+    /**
+     * 拉取沪深京全部 A 股（代码、简称、市场），任一页失败即抛错
+     */
+    static async getAllAShares(): Promise<EmListedStock[]> {
+        const stocks = new Map<string, EmListedStock>();
+
+        for (const [market, fs] of Object.entries(this.MARKET_FILTERS) as [EmListedStock['market'], string][]) {
+            let page = 0;
+            let fetched = 0;
+            let total = 0;
+
+            do {
+                page += 1;
+                const result = await this.fetchPage(fs, page);
+                total = result.total;
+                fetched += result.list.length;
+
+                for (const item of result.list) {
+                    const symbol = typeof item?.f12 === 'string' ? item.f12.trim() : '';
+                    const name = typeof item?.f14 === 'string' ? item.f14.trim() : '';
+                    if (!/^\d{6}$/.test(symbol) || !name) continue;
+                    stocks.set(symbol, { symbol, name, market });
+                }
+
+                if (result.list.length === 0) break;
+            } while (fetched < total && page < this.MAX_PAGES);
+        }
+
+        return Array.from(stocks.values());
+    }
+}
@@ -0,0 +1,99 @@
+import { eastmoneyThrottler } from '../utils/throttlers';
+
+export type TagRankType = '概念板块' | '地域板块' | '行业板块';
+export type TagRankSort = 'change' | 'inflow' | 'turnover';
+
+/**
+ * 东方财富板块涨幅排行服务
+ * 按涨跌幅 / 主力净流入 / 成交额排序返回指定类型的板块列表
+ */
+export class EmTagRankService {
+    private static readonly BASE_URL = 'https://push2.eastmoney.com/api/qt/clist/get';
+    private static readonly UT = '8dec03ba335b81bf4ebdf7b29ec27d15';
+
+    /** 板块类型对应的 fs 筛选条件 */
+    private static readonly TYPE_FILTERS: Record<TagRankType, string> = {
+        '概念板块': 'm:90+t:3+f:!50',
+        '行业板块': 'm:90+t:2+f:!50',
+        '地域板块': 'm:90+t:1+f:!50',
+    };
+
+    /** 排序方式对应的字段 */
+    static readonly SORT_FIELDS: Record<TagRankSort, { fid: string; label: string }> = {
+        change: { fid: 'f3', label: '涨跌幅' },
+        inflow: { fid: 'f62', label: '主力净流入' },
+        turnover: { fid: 'f6', label: '成交额' },
+    };
+
+    private static toNumberOrNull(value: unknown): number | null {
+        if (typeof value !== 'number') return null;
+        return Number.isFinite(value) ? value : null;
+    }
+
+    private static toText(value: unknown): string {
+        return typeof value === 'string' && value !== '-' ? value : '';
+    }
+
+    /**
+     * @param ascending 为 true 时升序（跌幅榜 / 净流出榜）
+     */
+    static async getTagRank(
+        tagType: TagRankType,
+        sort: TagRankSort,
+        count: number,
+        ascending = false,
+    ): Promise<Record<string, any>[]> {
+        const url = new URL(this.BASE_URL);
+        url.searchParams.set('pn', '1');
+        url.searchParams.set('pz', String(count));
+        url.searchParams.set('np', '1');
+        url.searchParams.set('fltt', '2');
+        url.searchParams.set('invt', '2');
+        url.searchParams.set('fid', this.SORT_FIELDS[sort].fid);
+        url.searchParams.set('po', ascending ? '0' : '1');
+        url.searchParams.set('ut', this.UT);
+        url.searchParams.set('fs', this.TYPE_FILTERS[tagType]);
+        url.searchParams.set('fields', 'f12,f14,f2,f3,f6,f8,f62,f104,f105,f128,f136,f140');
+
+        // 限流 (东方财富)
+        await eastmoneyThrottler.throttle();
+
+        const response = await fetch(url.toString(), {
+            method: 'GET',
+            headers: {
+                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+                'Accept': '*/*',
+                'Referer': 'https://quote.eastmoney.com/',
+            },
+        });
+
+        if (!response.ok) {
+            throw new Error(`东方财富板块排行接口请求失败: ${response.status}`);
+        }
+
+        const json: any = await response.json();
+        const list = json?.data?.diff;
+        if (!Array.isArray(list)) return [];
+
+        return list
+            .map((item: any) => ({
+                '板块代码': this.toText(item?.f12).toUpperCase(),
+                '板块名称': this.toText(item?.f14),
+                '最新点位': this.toNumberOrNull(item?.f2),
+                '涨跌幅': this.toNumberOrNull(item?.f3),
+                '主力净流入': this.toNumberOrNull(item?.f62),
+                '成交额': this.toNumberOrNull(item?.f6),
+                '换手率': this.toNumberOrNull(item?.f8),
+                '上涨家数': this.toNumberOrNull(item?.f104),
+                '下跌家数': this.toNumberOrNull(item?.f105),
+                '领涨股': this.toText(item?.f140)
+                    ? {
+                        '股票代码': this.toText(item?.f140),
+                        '股票名称': this.toText(item?.f128),
+                        '涨跌幅': this.toNumberOrNull(item?.f136),
+                    }
+                    : null,
+            }))
+            .filter((item) => item['板块代码'] !== '');
+    }
+}
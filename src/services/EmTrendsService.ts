@@ -0,0 +1,128 @@
+import { eastmoneyThrottler } from '../utils/throttlers';
+import { getEastmoneySecid, getSecurityIdentity } from '../utils/security';
+
+/** 集合竞价截止时间，早于该时间的分时点视为竞价快照 */
+const AUCTION_END_TIME = '09:30';
+
+/**
+ * 东方财富分时服务
+ * trends2 接口返回最近 N 个交易日的分钟数据（含均价线），iscr=1 时附带 09:15-09:25 集合竞价快照。
+ */
+export class EmTrendsService {
+    private static readonly BASE_URL = 'https://push2his.eastmoney.com/api/qt/stock/trends2/get';
+    private static readonly UT = 'fa5fd1943c7b386f172d6893dbfba10b';
+
+    private static toNumber(value: string | undefined): number | null {
+        if (value === undefined || value === '' || value === '-') return null;
+        const num = Number(value);
+        return Number.isFinite(num) ? num : null;
+    }
+
+    private static toNumberOrNull(value: unknown): number | null {
+        if (typeof value !== 'number') return null;
+        return Number.isFinite(value) ? value : null;
+    }
+
+    /**
+     * 行格式：时间,开盘,价格,最高,最低,成交量(手),成交额(元),均价
+     * @param lotSize 每手数量，成交量由手转换为股 / 份 / 张
+     */
+    private static parseTrendRow(line: string, lotSize: number): Record<string, any> | null {
+        const parts = line.split(',');
+        if (parts.length < 8) return null;
+
+        const volume = this.toNumber(parts[5]);
+        return {
+            '时间': parts[0],
+            '价格': this.toNumber(parts[2]),
+            '均价': this.toNumber(parts[7]),
+            '成交量': volume === null ? null : volume * lotSize,
+            '成交额': this.toNumber(parts[6]),
+        };
+    }
+
+    /**
+     * 最近 days 个交易日的分时数据，按交易日正序分组
+     * 每日昨收：首日取接口 prePrice，之后取前一交易日最后一个分时价格
+     */
+    static async getTrends(symbol: string, days: number): Promise<Record<string, any>> {
+        const url = new URL(this.BASE_URL);
+        url.searchParams.set('secid', getEastmoneySecid(symbol));
+        url.searchParams.set('ndays', String(days));
+        url.searchParams.set('iscr', '1');
+        url.searchParams.set('iscca', '0');
+        url.searchParams.set('ut', this.UT);
+        url.searchParams.set('fields1', 'f1,f2,f3,f4,f5,f6,f7,f8,f9,f10,f11,f12,f13');
+        url.searchParams.set('fields2', 'f51,f52,f53,f54,f55,f56,f57,f58');
+
+        // 限流 (东方财富)
+        await eastmoneyThrottler.throttle();
+
+        const response = await fetch(url.toString(), {
+            method: 'GET',
+            headers: {
+                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+                'Accept': '*/*',
+                'Referer': 'https://quote.eastmoney.com/',
+            },
+        });
+
+        if (!response.ok) {
+            throw new Error(`东方财富分时接口请求失败: ${response.status}`);
+        }
+
+        const json: any = await response.json();
+        const data = json?.data;
+        if (!data) {
+            throw new Error(`东方财富分时数据为空 (symbol=${symbol})`);
+        }
+
+        const { lotSize } = getSecurityIdentity(symbol);
+        const rows: Record<string, any>[] = Array.isArray(data.trends)
+            ? data.trends
+                .map((line: unknown) => typeof line === 'string' ? this.parseTrendRow(line, lotSize) : null)
+                .filter((item: Record<string, any> | null): item is Record<string, any> => item !== null)
+            : [];
+
+        const dayMap = new Map<string, Record<string, any>[]>();
+        for (const row of rows) {
+            const [date] = String(row['时间']).split(' ');
+            const list = dayMap.get(date);
+            if (list) {
+                list.push(row);
+            } else {
+                dayMap.set(date, [row]);
+            }
+        }
+
+        const tradeDays: Record<string, any>[] = [];
+        let previousClose = this.toNumberOrNull(days > 1 ? data.prePrice : data.preClose)
+            ?? this.toNumberOrNull(data.preClose);
+
+        for (const [date, list] of dayMap) {
+            const auction = list.filter(row => String(row['时间']).slice(11, 16) < AUCTION_END_TIME);
+            const trends = list.filter(row => String(row['时间']).slice(11, 16) >= AUCTION_END_TIME);
+
+            tradeDays.push({
+                '日期': date,
+                '昨收': previousClose,
+                '集合竞价': auction.map(row => ({
+                    '时间': row['时间'],
+                    '价格': row['价格'],
+                    '成交量': row['成交量'],
+                    '成交额': row['成交额'],
+                })),
+                '分时': trends,
+            });
+
+            const lastPrice = trends.length > 0 ? trends[trends.length - 1]['价格'] : null;
+            if (lastPrice !== null) previousClose = lastPrice;
+        }
+
+        return {
+            '股票名称': typeof data.name === 'string' ? data.name : '',
+            '昨收': this.toNumberOrNull(data.preClose),
+            '交易日': tradeDays.slice(-days),
+        };
+    }
+}
@@ -0,0 +1,406 @@
+import { EmKlineService, KLineFqt, KLineOptions, KLinePeriod } from './EmKlineService';
+import { formatToChinaTime } from '../utils/datetime';
+import { getAShareAdaptiveCacheTtlSeconds } from '../utils/tradingTime';
+import {
+    STOCK_KLINE_INTRADAY_CACHE_KEY_PREFIX,
+    STOCK_KLINE_INTRADAY_TRADING_TTL_SECONDS,
+    STOCK_KLINE_SYNC_TRADING_TTL_SECONDS,
+    buildTimestampedCachePayload,
+    type TimestampedCachePayload,
+} from '../constants/cache';
+import type { Env } from '../index';
+
+interface StockKLineRow {
+    trade_date: string;
+    open: number | null;
+    close: number | null;
+    high: number | null;
+    low: number | null;
+    volume: number | null;
+    amount: number | null;
+    amplitude: number | null;
+    change_percent: number | null;
+    change_amount: number | null;
+    turnover_rate: number | null;
+}
+
+interface StockKLineSyncRow {
+    first_date: string;
+    last_date: string;
+    reached_start: number;
+    fresh_until: number;
+}
+
+interface KLineSeriesKey {
+    symbol: string;
+    klt: KLinePeriod;
+    fqt: KLineFqt;
+}
+
+export interface KLineCacheResult {
+    klines: Record<string, any>[];
+    /** 本次请求是否完全未回源 */
+    cached: boolean;
+}
+
+/**
+ * K 线缓存服务
+ * - 日 / 周 / 月线：持久化到 D1 `stock_kline`，以最后一根已存 K 线为 beg 增量回源
+ * - 分钟线：整体缓存在 KV，交易时段短 TTL，非交易时段缓存到下一交易日开盘
+ */
+export class KlineCacheService {
+    private static readonly PERSISTED_KLT = new Set<KLinePeriod>([101, 102, 103]);
+    /** 首次同步最少拉取的 K 线数量，减少后续向前补数次数 */
+    private static readonly INITIAL_FETCH_MIN_LIMIT = 500;
+    /** 增量同步单次最多拉取数量，超出视为断档并重建 */
+    private static readonly INCREMENTAL_FETCH_LIMIT = 1000;
+    /** 按日期向前补数时单次最多拉取数量 */
+    private static readonly BACKFILL_FETCH_LIMIT = 5000;
+    private static readonly WRITE_BATCH_SIZE = 100;
+    private static readonly PRICE_EPSILON = 1e-6;
+
+    private static isPersistedPeriod(klt: KLinePeriod): boolean {
+        return this.PERSISTED_KLT.has(klt);
+    }
+
+    /** YYYYMMDD -> YYYY-MM-DD */
+    private static toDateKey(date: string | undefined): string | null {
+        if (!date) return null;
+        return `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`;
+    }
+
+    /** YYYY-MM-DD -> YYYYMMDD */
+    private static toCompactDate(dateKey: string): string {
+        return dateKey.replace(/-/g, '');
+    }
+
+    private static mapRow(row: StockKLineRow): Record<string, any> {
+        return {
+            '时间': row.trade_date,
+            '开盘价': row.open,
+            '收盘价': row.close,
+            '最高价': row.high,
+            '最低价': row.low,
+            '成交量': row.volume,
+            '成交额': row.amount,
+            '振幅': row.amplitude,
+            '涨跌幅': row.change_percent,
+            '涨跌额': row.change_amount,
+            '换手率': row.turnover_rate,
+        };
+    }
+
+    /**
+     * K 线所属周期的起始日期：日线为当天，周线为当周周一，月线为当月 1 日。
+     * 东方财富以最新交易日标记未完成的周 / 月 K 线，日期每天后移，需按周期而非日期识别同一根 K 线
+     */
+    private static getPeriodStart(klt: KLinePeriod, dateKey: string): string {
+        if (klt === 103) return `${dateKey.slice(0, 7)}-01`;
+        if (klt !== 102) return dateKey;
+        const date = new Date(`${dateKey}T00:00:00Z`);
+        date.setUTCDate(date.getUTCDate() - (date.getUTCDay() + 6) % 7);
+        return date.toISOString().slice(0, 10);
+    }
+
+    private static isSamePrice(a: unknown, b: unknown): boolean {
+        if (typeof a !== 'number' || typeof b !== 'number') return a === b;
+        return Math.abs(a - b) <= this.PRICE_EPSILON;
+    }
+
+    private static async getSyncFreshUntil(now: number): Promise<number> {
+        try {
+            const ttlSeconds = await getAShareAdaptiveCacheTtlSeconds(STOCK_KLINE_SYNC_TRADING_TTL_SECONDS, { now });
+            return now + ttlSeconds * 1000;
+        } catch (err) {
+            console.error('[KlineCache] 计算同步有效期失败，按交易时段处理:', err);
+            return now + STOCK_KLINE_SYNC_TRADING_TTL_SECONDS * 1000;
+        }
+    }
+
+    private static async readSync(key: KLineSeriesKey, env: Env): Promise<StockKLineSyncRow | null> {
+        return env.DB
+            .prepare(
+                `SELECT first_date, last_date, reached_start, fresh_until
+                 FROM stock_kline_sync
+                 WHERE symbol = ?1 AND klt = ?2 AND fqt = ?3`
+            )
+            .bind(key.symbol, key.klt, key.fqt)
+            .first<StockKLineSyncRow>();
+    }
+
+    private static async writeSync(
+        key: KLineSeriesKey,
+        firstDate: string,
+        lastDate: string,
+        reachedStart: boolean,
+        env: Env,
+    ): Promise<StockKLineSyncRow> {
+        const now = Date.now();
+        const sync: StockKLineSyncRow = {
+            first_date: firstDate,
+            last_date: lastDate,
+            reached_start: reachedStart ? 1 : 0,
+            fresh_until: await this.getSyncFreshUntil(now),
+        };
+
+        await env.DB
+            .prepare(
+                `INSERT INTO stock_kline_sync (symbol, klt, fqt, first_date, last_date, reached_start, synced_at, fresh_until)
+                 VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)
+                 ON CONFLICT(symbol, klt, fqt) DO UPDATE SET
+                    first_date = excluded.first_date,
+                    last_date = excluded.last_date,
+                    reached_start = excluded.reached_start,
+                    synced_at = excluded.synced_at,
+                    fresh_until = excluded.fresh_until`
+            )
+            .bind(key.symbol, key.klt, key.fqt, firstDate, lastDate, sync.reached_start, formatToChinaTime(now), sync.fresh_until)
+            .run();
+
+        return sync;
+    }
+
+    private static async clearSeries(key: KLineSeriesKey, env: Env): Promise<void> {
+        await env.DB.batch([
+            env.DB.prepare('DELETE FROM stock_kline WHERE symbol = ?1 AND klt = ?2 AND fqt = ?3')
+                .bind(key.symbol, key.klt, key.fqt),
+            env.DB.prepare('DELETE FROM stock_kline_sync WHERE symbol = ?1 AND klt = ?2 AND fqt = ?3')
+                .bind(key.symbol, key.klt, key.fqt),
+        ]);
+    }
+
+    private static async upsertRows(key: KLineSeriesKey, rows: Record<string, any>[], env: Env): Promise<void> {
+        for (let i = 0; i < rows.length; i += this.WRITE_BATCH_SIZE) {
+            const statements = rows.slice(i, i + this.WRITE_BATCH_SIZE).map(row => env.DB
+                .prepare(
+                    `INSERT INTO stock_kline
+                        (symbol, klt, fqt, trade_date, open, close, high, low, volume, amount, amplitude, change_percent, change_amount, turnover_rate)
+                     VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14)
+                     ON CONFLICT(symbol, klt, fqt, trade_date) DO UPDATE SET
+                        open = excluded.open,
+                        close = excluded.close,
+                        high = excluded.high,
+                        low = excluded.low,
+                        volume = excluded.volume,
+                        amount = excluded.amount,
+                        amplitude = excluded.amplitude,
+                        change_percent = excluded.change_percent,
+                        change_amount = excluded.change_amount,
+                        turnover_rate = excluded.turnover_rate`
+                )
+                .bind(
+                    key.symbol,
+                    key.klt,
+                    key.fqt,
+                    row['时间'],
+                    row['开盘价'],
+                    row['收盘价'],
+                    row['最高价'],
+                    row['最低价'],
+                    row['成交量'],
+                    row['成交额'],
+                    row['振幅'],
+                    row['涨跌幅'],
+                    row['涨跌额'],
+                    row['换手率'],
+                ));
+            await env.DB.batch(statements);
+        }
+    }
+
+    /**
+     * 以最后一个已完成周期的 K 线为锚点增量回源（最后一个周期可能是盘中 / 周中 / 月中未完成的 K 线），
+     * 锚点之后的已存 K 线整体替换为回源结果，避免未完成的周 / 月 K 线按旧日期残留。
+     * 锚点价格不一致说明复权因子已变化（除权除息）或数据断档，清空后返回 null 由调用方重建。
+     */
+    private static async syncIncremental(key: KLineSeriesKey, sync: StockKLineSyncRow, env: Env): Promise<StockKLineSyncRow | null> {
+        const anchor = await env.DB
+            .prepare(
+                `SELECT trade_date, open, close, high, low
+                 FROM stock_kline
+                 WHERE symbol = ?1 AND klt = ?2 AND fqt = ?3 AND trade_date < ?4
+                 ORDER BY trade_date DESC
+                 LIMIT 1`
+            )
+            .bind(key.symbol, key.klt, key.fqt, this.getPeriodStart(key.klt, sync.last_date))
+            .first<Pick<StockKLineRow, 'trade_date' | 'open' | 'close' | 'high' | 'low'>>();
+        const begDate = anchor?.trade_date ?? sync.last_date;
+
+        const rows = await EmKlineService.getKLine({
+            ...key,
+            limit: this.INCREMENTAL_FETCH_LIMIT,
+            startDate: this.toCompactDate(begDate),
+        });
+
+        const first = rows[0];
+        const anchorMatched = Boolean(first) && first['时间'] === begDate && (!anchor || (
+            this.isSamePrice(first['开盘价'], anchor.open)
+            && this.isSamePrice(first['收盘价'], anchor.close)
+            && this.isSamePrice(first['最高价'], anchor.high)
+            && this.isSamePrice(first['最低价'], anchor.low)
+        ));
+        if (!anchorMatched) {
+            console.warn(`[KlineCache] ${key.symbol} klt=${key.klt} fqt=${key.fqt} 锚点 ${begDate} 不一致，重建 K 线缓存`);
+            await this.clearSeries(key, env);
+            return null;
+        }
+
+        await env.DB
+            .prepare('DELETE FROM stock_kline WHERE symbol = ?1 AND klt = ?2 AND fqt = ?3 AND trade_date > ?4')
+            .bind(key.symbol, key.klt, key.fqt, begDate)
+            .run();
+        await this.upsertRows(key, rows, env);
+        const lastDate = rows[rows.length - 1]['时间'] as string;
+        return this.writeSync(key, sync.first_date, lastDate, sync.reached_start === 1, env);
+    }
+
+    private static async countRows(key: KLineSeriesKey, endKey: string | null, env: Env): Promise<number> {
+        const row = await env.DB
+            .prepare(
+                `SELECT COUNT(*) AS total
+                 FROM stock_kline
+                 WHERE symbol = ?1 AND klt = ?2 AND fqt = ?3 AND (?4 IS NULL OR trade_date <= ?4)`
+            )
+            .bind(key.symbol, key.klt, key.fqt, endKey)
+            .first<{ total: number }>();
+        return row?.total || 0;
+    }
+
+    private static async getPersistedKLine(
+        key: KLineSeriesKey,
+        limit: number,
+        startDate: string | undefined,
+        endDate: string | undefined,
+        env: Env,
+    ): Promise<KLineCacheResult> {
+        const startKey = this.toDateKey(startDate);
+        const endKey = this.toDateKey(endDate);
+        let fetched = false;
+        let sync = await this.readSync(key, env);
+
+        // 1. 增量同步：已过有效期，且请求区间覆盖到最新 K 线
+        if (sync && Date.now() >= sync.fresh_until && !(endKey && endKey < sync.last_date)) {
+            fetched = true;
+            sync = await this.syncIncremental(key, sync, env);
+        }
+
+        // 2. 首次同步（或重建）
+        if (!sync) {
+            const fetchLimit = Math.max(limit, this.INITIAL_FETCH_MIN_LIMIT);
+            const rows = await EmKlineService.getKLine({ ...key, limit: fetchLimit });
+            fetched = true;
+            if (rows.length === 0) {
+                return { klines: [], cached: false };
+            }
+            await this.upsertRows(key, rows, env);
+            sync = await this.writeSync(
+                key,
+                rows[0]['时间'],
+                rows[rows.length - 1]['时间'],
+                rows.length < fetchLimit,
+                env,
+            );
+        }
+
+        // 3. 向前补数：请求的起始日期或数量超出已存范围
+        if (sync.reached_start !== 1) {
+            let backfillLimit = 0;
+            if (startKey) {
+                backfillLimit = startKey < sync.first_date ? this.BACKFILL_FETCH_LIMIT : 0;
+            } else {
+                const stored = await this.countRows(key, endKey, env);
+                // +1：补数区间包含 first_date 本身
+                backfillLimit = stored < limit ? limit - stored + 1 : 0;
+            }
+
+            if (backfillLimit > 0) {
+                const rows = await EmKlineService.getKLine({
+                    ...key,
+                    limit: backfillLimit,
+                    startDate,
+                    endDate: this.toCompactDate(sync.first_date),
+                });
+                fetched = true;
+                await this.upsertRows(key, rows, env);
+                const firstDate = rows.length > 0 && rows[0]['时间'] < sync.first_date ? rows[0]['时间'] : sync.first_date;
+                sync = await this.writeSync(
+                    key,
+                    firstDate,
+                    sync.last_date,
+                    !startKey && rows.length < backfillLimit,
+                    env,
+                );
+            }
+        }
+
+        const { results } = await env.DB
+            .prepare(
+                `SELECT trade_date, open, close, high, low, volume, amount, amplitude, change_percent, change_amount, turnover_rate
+                 FROM stock_kline
+                 WHERE symbol = ?1 AND klt = ?2 AND fqt = ?3
+                   AND (?4 IS NULL OR trade_date >= ?4)
+                   AND (?5 IS NULL OR trade_date <= ?5)
+                 ORDER BY trade_date DESC
+                 LIMIT ?6`
+            )
+            .bind(key.symbol, key.klt, key.fqt, startKey, endKey, limit)
+            .all<StockKLineRow>();
+
+        return {
+            klines: (results || []).reverse().map(row => this.mapRow(row)),
+            cached: !fetched,
+        };
+    }
+
+    private static buildIntradayCacheKey(options: Required<Pick<KLineOptions, 'symbol' | 'klt' | 'fqt' | 'limit'>> & KLineOptions): string {
+        return `${STOCK_KLINE_INTRADAY_CACHE_KEY_PREFIX}${options.symbol}:${options.klt}:${options.fqt}:${options.limit}:${options.startDate || ''}:${options.endDate || ''}`;
+    }
+
+    private static async getIntradayKLine(
+        options: Required<Pick<KLineOptions, 'symbol' | 'klt' | 'fqt' | 'limit'>> & KLineOptions,
+        env: Env,
+    ): Promise<KLineCacheResult> {
+        const cacheKey = this.buildIntradayCacheKey(options);
+
+        if (env.KV) {
+            try {
+                const cached = await env.KV.get<TimestampedCachePayload<Record<string, any>[]>>(cacheKey, 'json');
+                if (cached && Array.isArray(cached.data)) {
+                    return { klines: cached.data, cached: true };
+                }
+            } catch (err) {
+                console.error(`[KlineCache] 读取缓存失败 ${cacheKey}:`, err);
+            }
+        }
+
+        const klines = await EmKlineService.getKLine(options);
+
+        if (env.KV && klines.length > 0) {
+            try {
+                const ttlSeconds = await getAShareAdaptiveCacheTtlSeconds(STOCK_KLINE_INTRADAY_TRADING_TTL_SECONDS);
+                await env.KV.put(cacheKey, JSON.stringify(buildTimestampedCachePayload(klines)), {
+                    expirationTtl: Math.max(60, ttlSeconds),
+                });
+            } catch (err) {
+                console.error(`[KlineCache] 写入缓存失败 ${cacheKey}:`, err);
+            }
+        }
+
+        return { klines, cached: false };
+    }
+
+    /**
+     * 获取 K 线（带缓存），参数与返回行格式同 EmKlineService.getKLine
+     */
+    static async getKLine(options: KLineOptions, env: Env): Promise<KLineCacheResult> {
+        const klt = options.klt ?? 101;
+        const fqt = options.fqt ?? 1;
+        const limit = options.limit ?? 1000;
+
+        if (this.isPersistedPeriod(klt)) {
+            return this.getPersistedKLine({ symbol: options.symbol, klt, fqt }, limit, options.startDate, options.endDate, env);
+        }
+
+        return this.getIntradayKLine({ ...options, klt, fqt, limit }, env);
+    }
+}
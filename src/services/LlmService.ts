@@ -0,0 +1,311 @@
+import type { Env } from '../index';
+
+export interface LlmChatOptions {
+    systemPrompt: string;
+    prompt: string;
+    temperature: number;
+}
+
+/**
+ * 大模型接口调用（OpenAI 兼容 Chat Completions / Responses 输出格式）
+ * 供个股评价、新闻板块标注等结构化输出场景复用：配置校验、超时、内容提取与流式解析。
+ */
+export class LlmService {
+    private static readonly TIMEOUT_MS = 45_000;
+
+    /**
+     * 去除模型输出中的 Markdown 代码块包裹，兜底提取最外层 JSON 对象
+     */
+    static sanitizeJsonText(raw: string): string {
+        const trimmed = raw.trim();
+        if (!trimmed) return '';
+
+        // 兼容 ```json ... ``` 包裹
+        if (trimmed.startsWith('```')) {
+            const codeBlock = trimmed.replace(/^```json\s*/i, '').replace(/^```\s*/i, '').replace(/\s*```$/, '');
+            return codeBlock.trim();
+        }
+
+        // 兜底提取最外层 JSON 对象
+        const start = trimmed.indexOf('{');
+        const end = trimmed.lastIndexOf('}');
+        if (start >= 0 && end > start) {
+            return trimmed.slice(start, end + 1).trim();
+        }
+
+        return trimmed;
+    }
+
+    private static extractTextFromField(value: unknown): string {
+        if (typeof value === 'string') {
+            return value;
+        }
+
+        if (Array.isArray(value)) {
+            return value.map((item: any) => {
+                if (typeof item === 'string') return item;
+                if (item && typeof item === 'object' && typeof item.text === 'string') return item.text;
+                return '';
+            }).join('');
+        }
+
+        return '';
+    }
+
+    private static extractFinalContent(data: any): string {
+        if (typeof data?.output_text === 'string' && data.output_text.trim()) {
+            return data.output_text;
+        }
+
+        if (Array.isArray(data?.output)) {
+            const responseText = data.output
+                .map((item: any) => {
+                    const content = Array.isArray(item?.content) ? item.content : [];
+                    return content
+                        .map((part: any) => {
+                            if (typeof part?.text === 'string') return part.text;
+                            if (typeof part?.output_text === 'string') return part.output_text;
+                            return '';
+                        })
+                        .join('');
+                })
+                .join('');
+            if (responseText) return responseText;
+        }
+
+        const choice = data?.choices?.[0];
+        if (!choice) return '';
+
+        const messageContent = this.extractTextFromField(choice?.message?.content);
+        if (messageContent) return messageContent;
+
+        const textContent = this.extractTextFromField(choice?.text);
+        if (textContent) return textContent;
+
+        return '';
+    }
+
+    private static extractStreamDelta(data: any): string {
+        if (data?.type === 'response.output_text.delta') {
+            const delta = this.extractTextFromField(data?.delta);
+            if (delta) return delta;
+        }
+
+        if (typeof data?.delta === 'string') {
+            return data.delta;
+        }
+
+        if (typeof data?.output_text === 'string') {
+            return data.output_text;
+        }
+
+        const choice = data?.choices?.[0];
+        if (!choice) return '';
+
+        const deltaContent = this.extractTextFromField(choice?.delta?.content);
+        if (deltaContent) return deltaContent;
+
+        const messageContent = this.extractTextFromField(choice?.message?.content);
+        if (messageContent) return messageContent;
+
+        const textContent = this.extractTextFromField(choice?.text);
+        if (textContent) return textContent;
+
+        return '';
+    }
+
+    private static buildRequestBody(options: LlmChatOptions, env: Env, stream: boolean): Record<string, unknown> {
+        return {
+            model: env.EVA_MODEL,
+            temperature: options.temperature,
+            ...(stream ? { stream: true } : {}),
+            messages: [
+                {
+                    role: 'system',
+                    content: options.systemPrompt,
+                },
+                {
+                    role: 'user',
+                    content: options.prompt,
+                },
+            ],
+        };
+    }
+
+    private static async post(options: LlmChatOptions, env: Env, stream: boolean, signal: AbortSignal): Promise<Response> {
+        if (!env.OPENAI_API_BASE_URL) {
+            throw new Error('缺少 OPENAI_API_BASE_URL 配置');
+        }
+        if (!env.OPENAI_API_KEY) {
+            throw new Error('缺少 OPENAI_API_KEY 配置');
+        }
+        if (!env.EVA_MODEL) {
+            throw new Error('缺少 EVA_MODEL 配置');
+        }
+
+        const response = await fetch(env.OPENAI_API_BASE_URL, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${env.OPENAI_API_KEY}`,
+            },
+            body: JSON.stringify(this.buildRequestBody(options, env, stream)),
+            signal,
+        });
+
+        if (!response.ok) {
+            const errText = await response.text();
+            throw new Error(`大模型接口请求失败: ${response.status} ${errText.slice(0, 300)}`);
+        }
+
+        return response;
+    }
+
+    /**
+     * 非流式请求，返回完整文本
+     */
+    static async chat(options: LlmChatOptions, env: Env): Promise<string> {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), this.TIMEOUT_MS);
+
+        try {
+            const response = await this.post(options, env, false, controller.signal);
+            const data: any = await response.json();
+            const content = this.extractFinalContent(data).trim();
+            if (!content) {
+                throw new Error('大模型返回内容为空');
+            }
+
+            return content;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+
+    /**
+     * 流式请求（SSE），增量文本逐段回调，返回完整文本
+     * 接口不支持流式、直接返回 JSON 时整体回调一次
+     */
+    static async chatStream(options: LlmChatOptions, env: Env, onDelta: (delta: string) => void): Promise<string> {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), this.TIMEOUT_MS);
+
+        try {
+            const response = await this.post(options, env, true, controller.signal);
+
+            const contentType = (response.headers.get('content-type') || '').toLowerCase();
+            if (contentType.includes('application/json')) {
+                const data: any = await response.json();
+                const content = this.extractFinalContent(data).trim();
+                if (!content) {
+                    throw new Error('大模型流式返回内容为空');
+                }
+                try {
+                    onDelta(content);
+                } catch {
+                    // 忽略转发回调异常，不影响主流程
+                }
+                return content;
+            }
+
+            if (!response.body) {
+                throw new Error('大模型流式响应体为空');
+            }
+
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            let fullContent = '';
+            let doneReceived = false;
+            let currentEventDataLines: string[] = [];
+
+            const emitDelta = (delta: string) => {
+                if (!delta) return;
+                fullContent += delta;
+                try {
+                    onDelta(delta);
+                } catch {
+                    // 忽略转发回调异常，不影响主流程
+                }
+            };
+
+            const consumePayload = (payload: string) => {
+                if (!payload) return;
+                if (payload === '[DONE]') {
+                    doneReceived = true;
+                    return;
+                }
+
+                try {
+                    const parsed = JSON.parse(payload);
+                    const delta = this.extractStreamDelta(parsed);
+                    if (delta) {
+                        emitDelta(delta);
+                    }
+                } catch {
+                    const trimmed = payload.trim();
+                    if (trimmed && !trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+                        emitDelta(trimmed);
+                    }
+                }
+            };
+
+            const flushEventData = () => {
+                if (currentEventDataLines.length === 0) return;
+                const payload = currentEventDataLines.join('\n').trim();
+                currentEventDataLines = [];
+                if (!payload) return;
+                consumePayload(payload);
+            };
+
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+
+                buffer += decoder.decode(value, { stream: true });
+
+                let newlineIndex = buffer.indexOf('\n');
+                while (newlineIndex >= 0) {
+                    const rawLine = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+                    buffer = buffer.slice(newlineIndex + 1);
+
+                    if (rawLine === '') {
+                        flushEventData();
+                    } else if (rawLine.startsWith(':')) {
+                        // SSE 注释行
+                    } else if (rawLine.startsWith('data:')) {
+                        currentEventDataLines.push(rawLine.slice(5).trimStart());
+                    } else if (rawLine.startsWith('event:') || rawLine.startsWith('id:') || rawLine.startsWith('retry:')) {
+                        // SSE 元信息行，忽略
+                    } else {
+                        currentEventDataLines.push(rawLine.trim());
+                    }
+
+                    if (doneReceived) break;
+                    newlineIndex = buffer.indexOf('\n');
+                }
+
+                if (doneReceived) break;
+            }
+
+            flushEventData();
+
+            const tail = buffer.trim();
+            if (!doneReceived && tail) {
+                if (tail.startsWith('data:')) {
+                    consumePayload(tail.slice(5).trim());
+                } else {
+                    consumePayload(tail);
+                }
+            }
+
+            const finalContent = fullContent.trim();
+            if (!finalContent) {
+                throw new Error('大模型流式返回内容为空');
+            }
+            return finalContent;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+}
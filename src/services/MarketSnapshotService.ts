@@ -0,0 +1,229 @@
+import { CacheService } from './CacheService';
+import { QuoteLevel } from './EmQuoteService';
+import { formatToChinaTime } from '../utils/datetime';
+import { eastmoneyThrottler } from '../utils/throttlers';
+import { getAShareAdaptiveCacheTtlSeconds } from '../utils/tradingTime';
+import {
+    MARKET_SNAPSHOT_CACHE_KEY_PREFIX,
+    MARKET_SNAPSHOT_TRADING_TTL_SECONDS,
+    buildTimestampedCachePayload,
+    isValidTimestampedRecordCachePayload,
+} from '../constants/cache';
+
+/** 单个分片的缓存结构：列名 + 按股票代码索引的值数组，避免每行重复存储中文键名 */
+interface MarketSnapshotData {
+    columns: string[];
+    rows: Record<string, unknown[]>;
+}
+
+type ColumnReader = (item: Record<string, any>) => unknown;
+
+/** 手 -> 股（1手 = 100股），与 EmQuoteService 的 VOLUME_FIELDS 口径一致 */
+const toShares = (value: unknown) => (typeof value === 'number' ? value * 100 : value);
+
+/**
+ * 列名 -> clist 字段读取
+ * 列名与 EmQuoteService 单只查询返回的中文键保持一致，快照命中与逐只回源的结果结构相同。
+ */
+const COLUMN_READERS: Record<string, ColumnReader> = {
+    '股票代码': item => item.f12,
+    '股票简称': item => item.f14,
+    '最新价': item => item.f2,
+    '更新时间': item => (typeof item.f124 === 'number' ? formatToChinaTime(item.f124 * 1000) : item.f124),
+    '最高价': item => item.f15,
+    '最低价': item => item.f16,
+    '昨收价': item => item.f18,
+    '今开价': item => item.f17,
+    '涨停价': item => item.f350,
+    '跌停价': item => item.f351,
+    '涨跌额': item => item.f4,
+    '涨跌幅': item => item.f3,
+    // clist 无均价字段，按 成交额 / 成交股数 计算
+    '均价': item => (typeof item.f6 === 'number' && typeof item.f5 === 'number' && item.f5 > 0
+        ? Number((item.f6 / (item.f5 * 100)).toFixed(2))
+        : '-'),
+    '量比': item => item.f10,
+    '成交量': item => toShares(item.f5),
+    '成交额': item => item.f6,
+    '换手率': item => item.f8,
+    '内盘': item => toShares(item.f35),
+    '外盘': item => toShares(item.f34),
+    '市净率': item => item.f23,
+    'ROE': item => item.f37,
+    '总营收': item => item.f40,
+    '总营收-同比': item => item.f41,
+    '净利润-同比': item => item.f46,
+    '毛利率': item => item.f49,
+    '净利率': item => item.f129,
+    '负债率': item => item.f57,
+    '每股未分配利润': item => item.f48,
+    '动态市盈率': item => item.f9,
+    '每股净资产': item => item.f113,
+    '季度收益': item => item.f112,
+    '净利润': item => item.f45,
+    '总股本': item => item.f38,
+    '流通股': item => item.f39,
+    '总市值': item => item.f20,
+    '流通市值': item => item.f21,
+};
+
+/** 各级别快照包含的列（顺序与 EmQuoteService 返回一致） */
+const LEVEL_COLUMNS: Record<QuoteLevel, string[]> = {
+    core: ['股票代码', '股票简称', '最新价', '更新时间', '涨跌幅'],
+    activity: [
+        '股票代码', '股票简称', '最新价', '更新时间', '最高价', '最低价', '昨收价', '今开价', '涨停价', '跌停价',
+        '涨跌额', '涨跌幅', '均价', '量比', '成交量', '成交额', '换手率', '内盘', '外盘',
+    ],
+    fundamental: [
+        '股票代码', '股票简称', '更新时间', '市净率', 'ROE', '总营收', '总营收-同比', '净利润-同比', '毛利率', '净利率',
+        '负债率', '每股未分配利润', '动态市盈率', '每股净资产', '季度收益', '净利润', '总股本', '流通股', '总市值', '流通市值',
+    ],
+};
+
+const SNAPSHOT_LEVELS = Object.keys(LEVEL_COLUMNS) as QuoteLevel[];
+
+/** 每个级别的分片数：按股票代码取模分片，单只 / 少量查询只读取并解析所需分片 */
+const SNAPSHOT_SHARD_COUNT = 16;
+
+export interface MarketSnapshotRefreshSummary {
+    pages: number;
+    total: number;
+}
+
+/**
+ * 全市场行情快照
+ * 交易时段由定时任务分页拉取东方财富 clist 全部 A 股，按 core / activity / fundamental 三个级别、
+ * 每个级别按股票代码分 16 片写入 KV，批量行情接口与行情提醒优先从快照读取，未覆盖的股票再逐只回源。
+ */
+export class MarketSnapshotService {
+    private static readonly BASE_URL = 'https://push2.eastmoney.com/api/qt/clist/get';
+    private static readonly UT = 'bd1d9ddb04089700cf9c27f6f7426281';
+    /** 沪深京 A 股 */
+    private static readonly FS = 'm:0+t:6,m:0+t:80,m:1+t:2,m:1+t:23,m:0+t:81+s:2048';
+    private static readonly FIELDS = 'f2,f3,f4,f5,f6,f8,f9,f10,f12,f14,f15,f16,f17,f18,f20,f21,f23,f34,f35,f37,f38,f39,f40,f41,f45,f46,f48,f49,f57,f112,f113,f124,f129,f350,f351';
+    /** clist 单页上限 */
+    private static readonly PAGE_SIZE = 100;
+    /** 分页上限，防止 total 异常时无限翻页 */
+    private static readonly MAX_PAGES = 100;
+
+    private static getShard(symbol: string): number {
+        return Number(symbol) % SNAPSHOT_SHARD_COUNT;
+    }
+
+    private static buildCacheKey(level: QuoteLevel, shard: number): string {
+        return `${MARKET_SNAPSHOT_CACHE_KEY_PREFIX}${level}:${shard}`;
+    }
+
+    private static async fetchPage(page: number): Promise<{ total: number; list: Record<string, any>[] }> {
+        const url = new URL(this.BASE_URL);
+        url.searchParams.set('pn', String(page));
+        url.searchParams.set('pz', String(this.PAGE_SIZE));
+        url.searchParams.set('po', '0');
+        url.searchParams.set('np', '1');
+        url.searchParams.set('fltt', '2');
+        url.searchParams.set('invt', '2');
+        url.searchParams.set('fid', 'f12');
+        url.searchParams.set('ut', this.UT);
+        url.searchParams.set('fs', this.FS);
+        url.searchParams.set('fields', this.FIELDS);
+
+        // 限流 (东方财富)
+        await eastmoneyThrottler.throttle();
+
+        const response = await fetch(url.toString(), {
+            method: 'GET',
+            headers: {
+                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
+                'Accept': '*/*',
+                'Referer': 'https://quote.eastmoney.com/center/gridlist.html',
+            },
+        });
+
+        if (!response.ok) {
+            throw new Error(`东方财富行情列表接口请求失败: ${response.status} (page=${page})`);
+        }
+
+        const json: any = await response.json();
+        const diff = json?.data?.diff;
+        return {
+            total: Number(json?.data?.total) || 0,
+            list: Array.isArray(diff) ? diff : Object.values(diff || {}),
+        };
+    }
+
+    /**
+     * 分页拉取全部 A 股并写入三个级别的快照
+     * 任一页失败即整体失败，不写入残缺快照
+     */
+    static async refreshSnapshot(cacheService: CacheService): Promise<MarketSnapshotRefreshSummary> {
+        const items: Record<string, any>[] = [];
+        let total = 0;
+        let pages = 0;
+
+        do {
+            pages += 1;
+            const result = await this.fetchPage(pages);
+            total = result.total;
+            items.push(...result.list);
+            if (result.list.length === 0) break;
+        } while (items.length < total && pages < this.MAX_PAGES);
+
+        const validItems = items.filter(item => typeof item?.f12 === 'string' && /^\d{6}$/.test(item.f12));
+        if (validItems.length === 0) {
+            throw new Error('东方财富行情列表为空，跳过快照写入');
+        }
+
+        const timestamp = Date.now();
+        const ttlSeconds = await getAShareAdaptiveCacheTtlSeconds(MARKET_SNAPSHOT_TRADING_TTL_SECONDS);
+
+        await Promise.all(SNAPSHOT_LEVELS.flatMap(level => {
+            const columns = LEVEL_COLUMNS[level];
+            const shards: MarketSnapshotData[] = Array.from({ length: SNAPSHOT_SHARD_COUNT }, () => ({ columns, rows: {} }));
+            for (const item of validItems) {
+                shards[this.getShard(item.f12)].rows[item.f12] = columns.map(column => COLUMN_READERS[column](item));
+            }
+            return shards.map((data, shard) => cacheService.put(
+                this.buildCacheKey(level, shard),
+                buildTimestampedCachePayload(data, timestamp),
+                ttlSeconds,
+            ));
+        }));
+
+        return { pages, total: validItems.length };
+    }
+
+    /**
+     * 从快照读取指定股票的行情（仅读取涉及的分片），未收录的股票不在返回的 Map 中
+     * 分片不存在（未预热 / 已过期）时其中的股票同样视为未收录
+     */
+    static async getQuotes(symbols: string[], level: QuoteLevel, cacheService: CacheService): Promise<Map<string, Record<string, any>>> {
+        const quotes = new Map<string, Record<string, any>>();
+        const symbolsByShard = new Map<number, string[]>();
+        for (const symbol of symbols) {
+            if (!/^\d{6}$/.test(symbol)) continue;
+            const shard = this.getShard(symbol);
+            symbolsByShard.set(shard, [...(symbolsByShard.get(shard) ?? []), symbol]);
+        }
+
+        await Promise.all(Array.from(symbolsByShard, async ([shard, shardSymbols]) => {
+            const cacheKey = this.buildCacheKey(level, shard);
+            try {
+                const cached = await cacheService.get(cacheKey);
+                if (!isValidTimestampedRecordCachePayload(cached)) return;
+
+                const { columns, rows } = cached.data as MarketSnapshotData;
+                if (!Array.isArray(columns) || !rows || typeof rows !== 'object') return;
+
+                for (const symbol of shardSymbols) {
+                    const values = rows[symbol];
+                    if (!Array.isArray(values)) continue;
+                    quotes.set(symbol, Object.fromEntries(columns.map((column, index) => [column, values[index]])));
+                }
+            } catch (err) {
+                console.error(`Error reading market snapshot ${cacheKey}:`, err);
+            }
+        }));
+
+        return quotes;
+    }
+}
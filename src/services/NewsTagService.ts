@@ -0,0 +1,370 @@
+import { ClsNewsService, ClsNewsDetail } from './ClsNewsService';
+import { LlmService } from './LlmService';
+import {
+    NEWS_TAGS_PROCESSED_CACHE_KEY_PREFIX,
+    NEWS_TAGS_PROCESSED_CACHE_TTL_SECONDS,
+} from '../constants/cache';
+import type { Env } from '../index';
+
+export type NewsEffectType = '利好' | '利空';
+
+interface TagCatalogRow {
+    tag_code: string;
+    tag_name: string;
+    tag_type: string;
+}
+
+interface NewsTagRow {
+    tag_code: string;
+    tag_name: string | null;
+    tag_type: string | null;
+    effect_type: NewsEffectType;
+    created_at: string;
+}
+
+interface ModelNewsTag {
+    tagCode: string;
+    effect: NewsEffectType;
+}
+
+export interface NewsTagEntry {
+    '板块代码': string;
+    '板块名称': string;
+    '板块类型': string;
+    '影响': NewsEffectType;
+    '标注时间': string;
+}
+
+export interface NewsTaggingResult {
+    newsId: string;
+    title: string;
+    tags: NewsTagEntry[];
+}
+
+export interface NewsTaggingRunSummary {
+    candidates: number;
+    processed: number;
+    tagged: number;
+    failed: number;
+}
+
+/**
+ * 新闻板块标注服务
+ * 抓取财联社新闻，调用大模型判断受影响板块及利好/利空方向，校验板块代码后写入 news_tags。
+ */
+export class NewsTagService {
+    /** 参与标注的财联社分类：头条新闻、A股市场 */
+    private static readonly SOURCE_CATEGORIES = [1000, 1003];
+    /** 单次定时任务最多标注的新闻数量（逐条调用大模型） */
+    private static readonly MAX_NEWS_PER_RUN = 5;
+    /** 单条新闻最多标注的板块数量 */
+    private static readonly MAX_TAGS_PER_NEWS = 8;
+    /** 送入模型的正文最大字数 */
+    private static readonly CONTENT_MAX_CHARS = 1500;
+    private static readonly ALLOWED_EFFECTS = new Set<NewsEffectType>(['利好', '利空']);
+
+    private static readonly SYSTEM_PROMPT = `你是一名严谨的 A 股行业研究员。
+
+你必须严格遵守以下规则：
+1. 只能输出一个 JSON 对象，不得输出任何解释、前后缀、Markdown 代码块。
+2. 板块代码只能从给定的板块目录中选择，不得编造。
+3. 仅标注新闻直接影响的板块，不做牵强的延伸联想。`;
+
+    private static readonly PROMPT_TEMPLATE = `请阅读以下财联社新闻，判断其对哪些 A 股板块构成直接的利好或利空。
+
+【判断原则】
+1. 只选择受新闻直接影响的板块（政策、订单、价格、供需、监管、重大事件等），最多 {max_tags} 个。
+2. 新闻未点名具体板块时（如宏观、政策、产业类新闻），根据其影响的行业、产品、地区推断对应板块。
+3. 影响方向只能是“利好”或“利空”；影响不明确或无实质影响的板块不要输出。
+4. 同一板块只能出现一次。
+5. 若新闻与 A 股板块无直接关联，输出空数组。
+
+【新闻】
+标题: {title}
+时间: {time}
+摘要: {brief}
+正文: {content}
+
+【板块目录】（按板块类型分组，格式：板块代码 板块名称）
+{catalog}
+
+【输出要求】
+必须严格以 JSON 格式输出，结构如下：
+{
+  "板块影响": [
+    { "板块代码": "BK0000", "影响": "利好" }
+  ]
+}`;
+
+    private static normalizeText(value: unknown): string {
+        if (typeof value !== 'string') return '';
+        return value.trim().replace(/\s+/g, ' ');
+    }
+
+    private static clipText(text: string, max: number): string {
+        if (!text) return '';
+        const chars = Array.from(text);
+        if (chars.length <= max) return text;
+        return chars.slice(0, max).join('') + '...';
+    }
+
+    private static stripHtml(html: string): string {
+        return html
+            .replace(/<[^>]+>/g, ' ')
+            .replace(/&nbsp;/g, ' ')
+            .replace(/&amp;/g, '&')
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"');
+    }
+
+    private static buildProcessedKey(newsId: string): string {
+        return `${NEWS_TAGS_PROCESSED_CACHE_KEY_PREFIX}${newsId}`;
+    }
+
+    private static async loadTagCatalog(env: Env): Promise<Map<string, TagCatalogRow>> {
+        const { results } = await env.DB
+            .prepare('SELECT tag_code, tag_name, tag_type FROM tags ORDER BY tag_type, tag_code')
+            .all<TagCatalogRow>();
+        return new Map((results || []).map(row => [row.tag_code, row]));
+    }
+
+    /**
+     * 完整板块目录按类型分组，每组以顿号连接，交由模型推断受影响板块（不按新闻字面预筛选）
+     */
+    private static buildCatalogText(catalog: Map<string, TagCatalogRow>): string {
+        const grouped = new Map<string, string[]>();
+        for (const row of catalog.values()) {
+            const list = grouped.get(row.tag_type) || [];
+            list.push(`${row.tag_code} ${row.tag_name}`);
+            grouped.set(row.tag_type, list);
+        }
+
+        return Array.from(grouped.entries())
+            .map(([tagType, list]) => `[${tagType}]\n${list.join('、')}`)
+            .join('\n\n');
+    }
+
+    private static buildPrompt(detail: ClsNewsDetail, content: string, catalogText: string): string {
+        return this.PROMPT_TEMPLATE
+            .replace('{max_tags}', String(this.MAX_TAGS_PER_NEWS))
+            .replace('{title}', detail.title || '无')
+            .replace('{time}', detail.time || '未知')
+            .replace('{brief}', detail.brief || '无')
+            .replace('{content}', content || '无')
+            .replace('{catalog}', catalogText);
+    }
+
+    private static parseModelResult(raw: string): ModelNewsTag[] | null {
+        try {
+            const parsed = JSON.parse(LlmService.sanitizeJsonText(raw));
+            if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+
+            const list = (parsed as any)['板块影响'];
+            if (!Array.isArray(list)) return null;
+
+            const tags: ModelNewsTag[] = [];
+            for (const item of list) {
+                if (!item || typeof item !== 'object') return null;
+                const tagCode = this.normalizeText(item['板块代码']).toUpperCase();
+                const effect = this.normalizeText(item['影响']) as NewsEffectType;
+                if (!tagCode || !this.ALLOWED_EFFECTS.has(effect)) return null;
+                tags.push({ tagCode, effect });
+            }
+            return tags;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * 调用模型生成板块标注，最多尝试 2 次
+     * 首次输出含目录外板块代码时带上纠错提示重试；末次仍含非法代码则仅保留合法部分。
+     */
+    private static async generateNewsTags(
+        detail: ClsNewsDetail,
+        catalog: Map<string, TagCatalogRow>,
+        env: Env,
+    ): Promise<ModelNewsTag[]> {
+        const content = this.clipText(this.normalizeText(this.stripHtml(detail.content)), this.CONTENT_MAX_CHARS);
+        const basePrompt = this.buildPrompt(detail, content, this.buildCatalogText(catalog));
+        let lastError = '模型返回格式异常';
+
+        for (let attempt = 1; attempt <= 2; attempt++) {
+            const correction = attempt === 1
+                ? ''
+                : `\n\n【上次输出问题】\n${lastError}\n请严格修正并仅输出 JSON。`;
+            const raw = await LlmService.chat({
+                systemPrompt: this.SYSTEM_PROMPT,
+                prompt: basePrompt + correction,
+                temperature: 0.1,
+            }, env);
+            const parsed = this.parseModelResult(raw);
+            if (!parsed) {
+                lastError = 'JSON 结构不符合要求';
+                continue;
+            }
+
+            const unknownCodes = parsed.filter(tag => !catalog.has(tag.tagCode)).map(tag => tag.tagCode);
+            if (unknownCodes.length > 0 && attempt < 2) {
+                lastError = `以下板块代码不在板块目录中: ${unknownCodes.join(', ')}`;
+                continue;
+            }
+
+            const seen = new Set<string>();
+            return parsed
+                .filter(tag => catalog.has(tag.tagCode))
+                .filter(tag => {
+                    if (seen.has(tag.tagCode)) return false;
+                    seen.add(tag.tagCode);
+                    return true;
+                })
+                .slice(0, this.MAX_TAGS_PER_NEWS);
+        }
+
+        throw new Error(`大模型输出不符合约束: ${lastError}`);
+    }
+
+    /** created_at 使用列默认值 CURRENT_TIMESTAMP（UTC） */
+    private static async saveNewsTags(newsId: string, tags: ModelNewsTag[], env: Env): Promise<void> {
+        const statements = [
+            env.DB.prepare('DELETE FROM news_tags WHERE news_id = ?1').bind(newsId),
+            ...tags.map(tag => env.DB
+                .prepare('INSERT INTO news_tags (news_id, tag_code, effect_type) VALUES (?1, ?2, ?3)')
+                .bind(newsId, tag.tagCode, tag.effect)),
+        ];
+        await env.DB.batch(statements);
+    }
+
+    private static async markProcessed(newsId: string, env: Env): Promise<void> {
+        if (!env.KV) return;
+
+        try {
+            await env.KV.put(this.buildProcessedKey(newsId), '1', {
+                expirationTtl: NEWS_TAGS_PROCESSED_CACHE_TTL_SECONDS,
+            });
+        } catch (err) {
+            console.error(`[NewsTag] 写入标注标记失败 ${newsId}:`, err);
+        }
+    }
+
+    private static async isProcessed(newsId: string, env: Env): Promise<boolean> {
+        if (env.KV) {
+            try {
+                if (await env.KV.get(this.buildProcessedKey(newsId))) return true;
+            } catch (err) {
+                console.error(`[NewsTag] 读取标注标记失败 ${newsId}:`, err);
+            }
+        }
+
+        const row = await env.DB
+            .prepare('SELECT 1 AS found FROM news_tags WHERE news_id = ?1 LIMIT 1')
+            .bind(newsId)
+            .first<{ found: number }>();
+        return Boolean(row);
+    }
+
+    /**
+     * 标注单条新闻并覆盖写入 news_tags
+     * @param catalog 可复用的板块目录，批量标注时避免重复查询
+     */
+    static async tagNews(
+        newsId: string,
+        env: Env,
+        catalog?: Map<string, TagCatalogRow>,
+    ): Promise<NewsTaggingResult> {
+        const detail = await ClsNewsService.getNewsDetail(newsId);
+        if (!detail) {
+            throw new Error(`未找到新闻内容: ${newsId}`);
+        }
+
+        const tagCatalog = catalog ?? await this.loadTagCatalog(env);
+        if (tagCatalog.size === 0) {
+            throw new Error('tags 表为空，无法标注新闻板块');
+        }
+
+        const modelTags = await this.generateNewsTags(detail, tagCatalog, env);
+        await this.saveNewsTags(newsId, modelTags, env);
+        await this.markProcessed(newsId, env);
+
+        return {
+            newsId,
+            title: detail.title,
+            tags: modelTags.length > 0 ? await this.getNewsTags(newsId, env) : [],
+        };
+    }
+
+    /**
+     * 标注财联社最新新闻（供定时任务调用）
+     * 已标注过的新闻（KV 标记或 news_tags 已有记录）会被跳过。
+     */
+    static async tagLatestNews(env: Env): Promise<NewsTaggingRunSummary> {
+        const categoryResults = await Promise.allSettled(
+            this.SOURCE_CATEGORIES.map(categoryId => ClsNewsService.getCategoryNews(categoryId)),
+        );
+
+        const newsIds: string[] = [];
+        categoryResults.forEach((result, index) => {
+            if (result.status !== 'fulfilled') {
+                console.error(`[NewsTag] 分类新闻抓取失败 ${this.SOURCE_CATEGORIES[index]}:`, result.reason);
+                return;
+            }
+            for (const article of result.value) {
+                if (article.id && !newsIds.includes(article.id)) {
+                    newsIds.push(article.id);
+                }
+            }
+        });
+
+        const pendingIds: string[] = [];
+        for (const newsId of newsIds) {
+            if (pendingIds.length >= this.MAX_NEWS_PER_RUN) break;
+            if (!(await this.isProcessed(newsId, env))) {
+                pendingIds.push(newsId);
+            }
+        }
+
+        const summary: NewsTaggingRunSummary = { candidates: newsIds.length, processed: 0, tagged: 0, failed: 0 };
+        if (pendingIds.length === 0) return summary;
+
+        const catalog = await this.loadTagCatalog(env);
+
+        // 逐条串行调用，避免并发打满大模型接口
+        for (const newsId of pendingIds) {
+            try {
+                const result = await this.tagNews(newsId, env, catalog);
+                summary.processed += 1;
+                if (result.tags.length > 0) summary.tagged += 1;
+            } catch (err) {
+                summary.failed += 1;
+                console.error(`[NewsTag] 新闻标注失败 ${newsId}:`, err);
+            }
+        }
+
+        return summary;
+    }
+
+    /**
+     * 查询单条新闻的板块标注
+     */
+    static async getNewsTags(newsId: string, env: Env): Promise<NewsTagEntry[]> {
+        const { results } = await env.DB
+            .prepare(
+                `SELECT nt.tag_code, t.tag_name, t.tag_type, nt.effect_type, nt.created_at
+                 FROM news_tags nt
+                 LEFT JOIN tags t ON t.tag_code = nt.tag_code
+                 WHERE nt.news_id = ?1
+                 ORDER BY nt.effect_type, nt.tag_code`,
+            )
+            .bind(newsId)
+            .all<NewsTagRow>();
+
+        return (results || []).map(row => ({
+            '板块代码': row.tag_code,
+            '板块名称': row.tag_name || '',
+            '板块类型': row.tag_type || '',
+            '影响': row.effect_type,
+            '标注时间': row.created_at,
+        }));
+    }
+}
@@ -0,0 +1,231 @@
+import { ClsStockNewsService } from './ClsStockNewsService';
+import { ClsNewsService } from './ClsNewsService';
+import type { Env } from '../index';
+
+export interface PushNewsOptions {
+    limit: number;
+    lastTime: number;
+}
+
+export interface PushNewsFeed {
+    /** 用户自选股总数 */
+    favoriteCount: number;
+    /** 参与个股新闻检索的自选股代码（板块新闻覆盖全部自选股） */
+    searchedSymbols: string[];
+    items: Record<string, any>[];
+}
+
+interface FavoriteStockRow {
+    symbol: string;
+    name: string | null;
+}
+
+interface SectorNewsRow {
+    news_id: string;
+    tag_code: string;
+    tag_name: string | null;
+    effect_type: '利好' | '利空';
+    symbol: string;
+    created_at: string;
+}
+
+interface RelatedStock {
+    '股票代码': string;
+    '股票简称': string;
+}
+
+interface RelatedTag {
+    '板块代码': string;
+    '板块名称': string;
+    '影响': '利好' | '利空';
+}
+
+interface PushNewsEntry {
+    id: string;
+    link: string;
+    title: string;
+    time: string;
+    content: string;
+    stocks: Map<string, RelatedStock>;
+    tags: Map<string, RelatedTag>;
+}
+
+/**
+ * 用户推送新闻服务
+ * 以用户自选股为入口，合并个股新闻（财联社检索，最近添加的自选股）与板块新闻（news_tags × stock_tags，全部自选股），
+ * 去重后按时间倒序输出。
+ */
+export class PushNewsService {
+    /** 参与个股新闻检索的自选股上限（财联社限流 300ms/次，避免请求耗时过长） */
+    private static readonly MAX_SEARCH_SYMBOLS = 10;
+    /** 板块新闻候选上限 */
+    private static readonly MAX_SECTOR_NEWS = 50;
+
+    /**
+     * 将中国时间字符串（YYYY-MM-DD HH:mm:ss）转换为 Unix 秒
+     */
+    private static parseChinaTimeSeconds(time: string): number | null {
+        const match = time.match(/^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})$/);
+        if (!match) return null;
+        const [, year, month, day, hour, minute, second] = match.map(Number);
+        return Math.floor(Date.UTC(year, month - 1, day, hour - 8, minute, second) / 1000);
+    }
+
+    private static async getFavoriteStocks(openid: string, env: Env): Promise<FavoriteStockRow[]> {
+        const { results } = await env.DB
+            .prepare(
+                `SELECT us.symbol, s.name
+                 FROM user_stocks us
+                 LEFT JOIN stocks s ON us.symbol = s.symbol
+                 WHERE us.openid = ?1
+                 ORDER BY us.created_at DESC`,
+            )
+            .bind(openid)
+            .all<FavoriteStockRow>();
+        return results || [];
+    }
+
+    private static async getSectorNewsRows(openid: string, env: Env): Promise<SectorNewsRow[]> {
+        const { results } = await env.DB
+            .prepare(
+                `SELECT nt.news_id, nt.tag_code, t.tag_name, nt.effect_type, st.symbol, nt.created_at
+                 FROM stock_tags st
+                 INNER JOIN news_tags nt ON nt.tag_code = st.tag_code
+                 LEFT JOIN tags t ON t.tag_code = nt.tag_code
+                 WHERE st.symbol IN (SELECT symbol FROM user_stocks WHERE openid = ?1)
+                 ORDER BY nt.created_at DESC
+                 LIMIT ?2`,
+            )
+            .bind(openid, this.MAX_SECTOR_NEWS)
+            .all<SectorNewsRow>();
+        return results || [];
+    }
+
+    private static toOutput(entry: PushNewsEntry): Record<string, any> {
+        return {
+            'ID': entry.id,
+            '链接': entry.link,
+            '标题': entry.title,
+            '时间': entry.time,
+            '内容': entry.content,
+            '关联股票': Array.from(entry.stocks.values()),
+            '关联板块': Array.from(entry.tags.values()),
+        };
+    }
+
+    static async buildFeed(openid: string, env: Env, options: PushNewsOptions): Promise<PushNewsFeed> {
+        const { limit, lastTime } = options;
+        const favorites = await this.getFavoriteStocks(openid, env);
+        if (favorites.length === 0) {
+            return { favoriteCount: 0, searchedSymbols: [], items: [] };
+        }
+
+        const nameBySymbol = new Map(favorites.map(row => [row.symbol, (row.name || '').trim()]));
+        const searched = favorites.slice(0, this.MAX_SEARCH_SYMBOLS);
+        const entries = new Map<string, PushNewsEntry>();
+
+        // 1. 个股新闻：逐只检索最近添加的自选股
+        const stockNewsResults = await Promise.allSettled(
+            searched.map(row => ClsStockNewsService.getStockNews(row.symbol, env, { limit, lastTime })),
+        );
+
+        stockNewsResults.forEach((result, index) => {
+            const symbol = searched[index].symbol;
+            if (result.status !== 'fulfilled') {
+                console.error(`[PushNews] 个股新闻抓取失败 ${symbol}:`, result.reason);
+                return;
+            }
+
+            for (const item of result.value.items) {
+                const id = String(item.id || '').trim();
+                if (!id) continue;
+
+                let entry = entries.get(id);
+                if (!entry) {
+                    entry = {
+                        id,
+                        link: item.link,
+                        title: item.title,
+                        time: item.time,
+                        content: item.content,
+                        stocks: new Map(),
+                        tags: new Map(),
+                    };
+                    entries.set(id, entry);
+                }
+                entry.stocks.set(symbol, {
+                    '股票代码': symbol,
+                    '股票简称': nameBySymbol.get(symbol) || result.value.stockName || '',
+                });
+            }
+        });
+
+        // 2. 板块新闻：全部自选股所属板块下的利好/利空新闻
+        let sectorRows: SectorNewsRow[] = [];
+        try {
+            sectorRows = await this.getSectorNewsRows(openid, env);
+        } catch (err) {
+            console.error('[PushNews] 板块新闻查询失败:', err);
+        }
+
+        const sectorOnly = new Map<string, { stocks: Map<string, RelatedStock>; tags: Map<string, RelatedTag> }>();
+        for (const row of sectorRows) {
+            const id = String(row.news_id || '').trim();
+            if (!id) continue;
+
+            const stock: RelatedStock = { '股票代码': row.symbol, '股票简称': nameBySymbol.get(row.symbol) || '' };
+            const tag: RelatedTag = { '板块代码': row.tag_code, '板块名称': row.tag_name || '', '影响': row.effect_type };
+
+            const existing = entries.get(id);
+            if (existing) {
+                existing.stocks.set(row.symbol, stock);
+                existing.tags.set(row.tag_code, tag);
+                continue;
+            }
+
+            let pending = sectorOnly.get(id);
+            if (!pending) {
+                pending = { stocks: new Map(), tags: new Map() };
+                sectorOnly.set(id, pending);
+            }
+            pending.stocks.set(row.symbol, stock);
+            pending.tags.set(row.tag_code, tag);
+        }
+
+        // 仅个股检索未覆盖的板块新闻需要补抓详情；按入库时间倒序取前 limit 条，保证本页可容纳的板块新闻都有详情
+        const detailIds = Array.from(sectorOnly.keys()).slice(0, limit);
+        const detailResults = await Promise.allSettled(detailIds.map(id => ClsNewsService.getNewsDetail(id)));
+
+        detailResults.forEach((result, index) => {
+            const id = detailIds[index];
+            if (result.status !== 'fulfilled') {
+                console.error(`[PushNews] 板块新闻详情抓取失败 ${id}:`, result.reason);
+                return;
+            }
+            const detail = result.value;
+            if (!detail) return;
+
+            const publishSeconds = this.parseChinaTimeSeconds(detail.time);
+            if (publishSeconds !== null && publishSeconds < lastTime) return;
+
+            const related = sectorOnly.get(id)!;
+            entries.set(id, {
+                id,
+                link: detail.link,
+                title: detail.title,
+                time: detail.time,
+                content: detail.brief,
+                stocks: related.stocks,
+                tags: related.tags,
+            });
+        });
+
+        // 3. 按时间倒序排列并截断
+        const items = Array.from(entries.values())
+            .sort((a, b) => b.time.localeCompare(a.time))
+            .slice(0, limit)
+            .map(entry => this.toOutput(entry));
+
+        return { favoriteCount: favorites.length, searchedSymbols: searched.map(row => row.symbol), items };
+    }
+}
@@ -1,11 +1,37 @@
 import { EmQuoteService } from './EmQuoteService';
+import { KLinePeriod } from './EmKlineService';
+import { KlineCacheService } from './KlineCacheService';
 import { ThsService } from './ThsService';
 import { ClsStockNewsService } from './ClsStockNewsService';
+import { LlmChatOptions, LlmService } from './LlmService';
 import { formatToChinaTime } from '../utils/datetime';
+import { getSecurityIdentity } from '../utils/security';
 import type { Env } from '../index';
 
 type AnalysisConclusion = '重大利好' | '利好' | '中性' | '利空' | '重大利空';
 
+/** 评价模式：日内短线 / 1-4 周波段 / 季度基本面 */
+export type AnalysisProfile = 'intraday' | 'swing' | 'quarterly';
+
+type AnalysisInputKey = 'news' | 'forecast' | 'trading' | 'technical' | 'fundamental' | 'kline';
+
+interface AnalysisProfileConfig {
+    label: string;
+    horizon: string;
+    focus: string;
+    goal: string;
+    principles: string;
+    framework: string;
+    inputs: AnalysisInputKey[];
+    kline?: { klt: KLinePeriod; limit: number; title: string };
+}
+
+interface AnalysisInputResult {
+    text: string;
+    summary: Record<string, unknown>;
+    meta?: Record<string, unknown>;
+}
+
 interface StockNewsDigest {
     title: string;
     time: string;
@@ -39,6 +65,7 @@ interface StockAnalysisRow {
     symbol: string;
     stock_name: string | null;
     analysis_time: string;
+    profile: AnalysisProfile;
     conclusion: AnalysisConclusion;
     core_logic: string;
     risk_warning: string;
@@ -48,12 +75,36 @@ interface StockAnalysisHistoryCountRow {
     total: number;
 }
 
+export interface StockAnalysisBatchOptions {
+    profile: AnalysisProfile;
+    /** 复用已有评价的最大时长（分钟），0 表示全部重新生成 */
+    maxAgeMinutes: number;
+    /** 同时生成的评价数量 */
+    concurrency: number;
+}
+
+type StockAnalysisBatchStatus = '新生成' | '复用' | '失败';
+
 /**
  * 个股 AI 评价服务
- * 聚合新闻 / 盈利预测 / 交易数据，调用大模型生成结构化结论并写入 D1。
+ * 按评价模式聚合新闻 / 盈利预测 / 交易 / 基本面 / K 线数据，调用大模型生成结构化结论并写入 D1。
  */
 export class StockAnalysisService {
     private static readonly NEWS_LIMIT = 5;
+    /** 技术面摘要使用的日 K 数量（需覆盖 MA60） */
+    private static readonly TECHNICAL_KLINE_LIMIT = 80;
+    /** 数字校验时可视为计数 / 周期的整数上限（“第 2 条”“近 3 日”等） */
+    private static readonly NUMBER_CHECK_MAX_COUNT = 10;
+    /** 模型引用数字及其前后文：计数前缀、数值、单位 / 计数后缀 */
+    private static readonly CITED_NUMBER_PATTERN = /(第|前|近|连续|连)?\s*(\d+(?:\.\d+)?)\s*(个交易日|交易日|季度|日|天|周|月|年|个|条|项|只|家|次|%|万|亿|手|股)?/g;
+    /** 数字校验按引用单位允许的换算倍数（元/万/亿、手/股、小数/百分比），无单位时须与输入数据一致 */
+    private static readonly NUMBER_CHECK_UNIT_SCALES: Record<string, number[]> = {
+        '%': [1, 0.01],
+        '万': [1, 1e4, 1e-4],
+        '亿': [1, 1e4, 1e8],
+        '手': [1, 100],
+        '股': [1, 0.01],
+    };
     private static readonly ALLOWED_CONCLUSIONS = new Set<AnalysisConclusion>(['重大利好', '利好', '中性', '利空', '重大利空']);
 
     private static readonly ANALYSIS_SYSTEM_PROMPT = `你是一名严谨的 A 股投研分析师与风险控制助手。
@@ -66,10 +117,10 @@ export class StockAnalysisService {
 5. 语言应专业、清晰、克制，避免口号式和空泛表达。
 6. 若采用分点分析，必须使用 \\n 在分点之间换行。`;
 
-    private static readonly ANALYSIS_PROMPT_TEMPLATE = `请基于给定信息，评估该个股在 {today} 之后 1-4 周维度的综合影响（情绪、估值与盈利预期）。
+    private static readonly ANALYSIS_PROMPT_TEMPLATE = `请基于给定信息，评估该个股在 {today} 之后{horizon}维度的综合影响（{focus}）。
 
 【分析目标】
-综合新闻、业绩预测和最近交易数据，给出可执行的方向判断。
+{goal}
 
 【结论分类】
 只能选择以下五种之一：
@@ -80,11 +131,7 @@ export class StockAnalysisService {
 - 重大利空
 
 【判断原则】
-1. 优先判断新闻事件的直接冲击（政策、监管、订单、业绩预告、行业供需等）。
-2. 用盈利预测验证事件是否具备基本面支撑（预期上修/下修、兑现能力）。
-3. 用交易数据判断市场是否已计价及情绪强弱。
-4. 若新闻互相冲突，必须说明主次、时效性与权重依据。
-5. 若证据不足或已充分计价，应偏向“中性”。
+{principles}
 
 【重大影响标准】
 - 重大利好 / 重大利空：可能显著影响未来业绩或估值（>10%利润影响或行业格局改变）。
@@ -92,10 +139,7 @@ export class StockAnalysisService {
 - 中性：无明显影响或市场已充分消化。
 
 【分析框架（核心逻辑必须按此顺序组织）】
-1. 新闻驱动：指出最关键的 1-2 条信息及方向性影响。
-2. 基本面验证：说明盈利预测是否支持上述判断。
-3. 交易面验证：判断资金与价格行为是否已反映预期。
-4. 综合结论：给出最终方向判断及主要因果链。
+{framework}
 
 【引用规则】
 - 若在核心逻辑中引用具体新闻，必须使用 Markdown 超链接格式，并使用\`\`将新闻标题包裹：
@@ -103,6 +147,7 @@ export class StockAnalysisService {
 - 仅引用真正用于分析判断的新闻。
 - 不允许重复引用。
 - 不得虚构新闻链接。
+- 引用的价格、涨跌幅、均线、估值等数值必须直接取自输入数据，不得自行估算或编造。
 
 【写作要求】
 - 核心逻辑必须为 350-500 字。
@@ -113,14 +158,7 @@ export class StockAnalysisService {
 
 【输入数据】
 
-相关最新新闻内容：
-{news_text}
-
-最新业绩预测数据：
-{forecast_data}
-
-最近一个交易日的数据：
-{trading_data}
+{inputs}
 
 【输出要求】
 必须严格以 JSON 格式输出，不得输出任何额外解释文字。
@@ -134,6 +172,79 @@ JSON 结构如下：
   "风险提示": ""
 }`;
 
+    private static readonly ANALYSIS_PROFILES: Record<AnalysisProfile, AnalysisProfileConfig> = {
+        intraday: {
+            label: '日内短线',
+            horizon: ' 1-2 个交易日',
+            focus: '资金博弈、盘面情绪与消息催化',
+            goal: '结合今日分时 K 线、最近交易数据与最新新闻，给出短线方向判断。',
+            principles: `1. 优先判断当日盘面：量价配合、分时走势强弱、资金承接力度。
+2. 新闻仅关注当日或隔夜的催化与利空，判断是否已被盘中价格消化。
+3. 结合换手率、量比、涨跌幅及距涨跌停空间判断情绪是否过热或衰竭。
+4. 短线结论必须给出盘面证据，不得以中长期基本面替代。
+5. 若盘面信号矛盾或成交清淡，应偏向“中性”。`,
+            framework: `1. 盘面结构：概括分时 K 线的走势与量能特征。
+2. 消息催化：指出影响短线情绪的关键信息（如无则说明）。
+3. 资金与情绪：结合交易数据判断资金态度与情绪强弱。
+4. 综合结论：给出 1-2 个交易日的方向判断及主要依据。`,
+            inputs: ['kline', 'trading', 'technical', 'news'],
+            kline: { klt: 5, limit: 48, title: '最近 48 根 5 分钟 K 线' },
+        },
+        swing: {
+            label: '1-4 周波段',
+            horizon: ' 1-4 周',
+            focus: '情绪、估值与盈利预期',
+            goal: '综合新闻、业绩预测和最近交易数据，给出可执行的方向判断。',
+            principles: `1. 优先判断新闻事件的直接冲击（政策、监管、订单、业绩预告、行业供需等）。
+2. 用盈利预测验证事件是否具备基本面支撑（预期上修/下修、兑现能力）。
+3. 用交易数据与技术面摘要判断趋势方向、市场是否已计价及情绪强弱。
+4. 若新闻互相冲突，必须说明主次、时效性与权重依据。
+5. 若证据不足或已充分计价，应偏向“中性”。`,
+            framework: `1. 新闻驱动：指出最关键的 1-2 条信息及方向性影响。
+2. 基本面验证：说明盈利预测是否支持上述判断。
+3. 交易面验证：结合均线排列、波动率与量能判断趋势位置，以及资金与价格行为是否已反映预期。
+4. 综合结论：给出最终方向判断及主要因果链。`,
+            inputs: ['news', 'forecast', 'trading', 'technical'],
+        },
+        quarterly: {
+            label: '季度基本面',
+            horizon: ' 1-2 个季度',
+            focus: '盈利趋势、估值水平与基本面质量',
+            goal: '结合基本面数据、业绩预测与中期价格走势，判断公司基本面与估值的中期方向。',
+            principles: `1. 优先判断盈利趋势：营收与利润增速、盈利预测的上修或下修。
+2. 结合市盈率、市净率等估值指标判断当前定价是否合理。
+3. 用周线走势与技术面摘要验证市场对基本面变化的定价程度。
+4. 新闻仅作为基本面变化的佐证，短期情绪类消息权重应降低。
+5. 若基本面数据不足或估值已充分反映预期，应偏向“中性”。`,
+            framework: `1. 盈利趋势：基本面数据与业绩预测揭示的增长方向。
+2. 估值水平：当前估值与盈利增速是否匹配。
+3. 中期走势：周线趋势是否验证基本面判断。
+4. 综合结论：给出 1-2 个季度的方向判断及主要因果链。`,
+            inputs: ['fundamental', 'forecast', 'kline', 'technical', 'news'],
+            kline: { klt: 102, limit: 26, title: '最近 26 周周线' },
+        },
+    };
+
+    /** 输入数据项：抓取进度中的名称 / 提示词中的段落标题 */
+    private static readonly ANALYSIS_INPUT_LABELS: Record<AnalysisInputKey, { name: string; title: string }> = {
+        news: { name: '个股新闻', title: '相关最新新闻内容' },
+        forecast: { name: '盈利预测', title: '最新业绩预测数据' },
+        trading: { name: '交易数据', title: '最近一个交易日的数据' },
+        technical: { name: '技术面摘要', title: '日 K 线技术面摘要（前复权）' },
+        fundamental: { name: '基本面数据', title: '最新基本面数据' },
+        kline: { name: 'K 线', title: 'K 线数据' },
+    };
+
+    static readonly DEFAULT_PROFILE: AnalysisProfile = 'swing';
+
+    static isAnalysisProfile(value: string): value is AnalysisProfile {
+        return Object.prototype.hasOwnProperty.call(this.ANALYSIS_PROFILES, value);
+    }
+
+    static getProfileNames(): AnalysisProfile[] {
+        return Object.keys(this.ANALYSIS_PROFILES) as AnalysisProfile[];
+    }
+
     private static emitProgress(
         onProgress: StockAnalysisProgressHandler | undefined,
         stage: string,
@@ -206,29 +317,9 @@ JSON 结构如下：
             `${pad2(d.getHours())}:${pad2(d.getMinutes())}:${pad2(d.getSeconds())}.${pad3(d.getMilliseconds())}`;
     }
 
-    private static sanitizeModelJsonText(raw: string): string {
-        const trimmed = raw.trim();
-        if (!trimmed) return '';
-
-        // 兼容 ```json ... ``` 包裹
-        if (trimmed.startsWith('```')) {
-            const codeBlock = trimmed.replace(/^```json\s*/i, '').replace(/^```\s*/i, '').replace(/\s*```$/, '');
-            return codeBlock.trim();
-        }
-
-        // 兜底提取最外层 JSON 对象
-        const start = trimmed.indexOf('{');
-        const end = trimmed.lastIndexOf('}');
-        if (start >= 0 && end > start) {
-            return trimmed.slice(start, end + 1).trim();
-        }
-
-        return trimmed;
-    }
-
     private static parseModelResult(raw: string): StockAnalysisResult | null {
         try {
-            const jsonText = this.sanitizeModelJsonText(raw);
+            const jsonText = LlmService.sanitizeJsonText(raw);
             const parsed = JSON.parse(jsonText);
 
             if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
@@ -255,7 +346,49 @@ JSON 结构如下：
         }
     }
 
-    private static validateModelResult(data: StockAnalysisResult): string | null {
+    private static extractNumbers(text: string): string[] {
+        return text.match(/\d+(?:\.\d+)?/g) || [];
+    }
+
+    /**
+     * 判断模型引用的数字能否在输入数据中找到（允许四舍五入，及引用单位对应的换算）
+     */
+    private static isNumberInSource(cited: string, unit: string, sourceValues: number[]): boolean {
+        const value = Number(cited);
+        const decimals = cited.includes('.') ? cited.split('.')[1].length : 0;
+        const tolerance = 0.5 * Math.pow(10, -decimals) + 1e-9;
+        const scales = this.NUMBER_CHECK_UNIT_SCALES[unit] ?? [1];
+
+        return sourceValues.some(source => scales.some(
+            scale => Math.abs(source / scale - value) <= tolerance,
+        ));
+    }
+
+    /**
+     * 找出核心逻辑 / 风险提示中引用、但输入数据中不存在的数字
+     */
+    private static findUnsupportedNumbers(data: StockAnalysisResult, sourceText: string): string[] {
+        const sourceValues = Array.from(new Set(this.extractNumbers(sourceText))).map(Number);
+        // 新闻链接中的数字不属于引用数据
+        const citedText = `${data['核心逻辑']}\n${data['风险提示']}`.replace(/\]\((https?:\/\/[^)\s]+)\)/g, ']');
+        const unsupported = new Set<string>();
+
+        for (const match of citedText.matchAll(this.CITED_NUMBER_PATTERN)) {
+            const [, prefix, cited, suffix = ''] = match;
+            // 仅跳过作计数 / 周期使用的小整数
+            const isCount = !cited.includes('.')
+                && Number(cited) <= this.NUMBER_CHECK_MAX_COUNT
+                && (prefix !== undefined || (suffix !== '' && !(suffix in this.NUMBER_CHECK_UNIT_SCALES)));
+            if (isCount) continue;
+            if (!this.isNumberInSource(cited, suffix, sourceValues)) {
+                unsupported.add(cited);
+            }
+        }
+
+        return Array.from(unsupported);
+    }
+
+    private static validateModelResult(data: StockAnalysisResult, sourceText: string): string | null {
         // 校验核心逻辑中的新闻链接是否重复
         const linkRegex = /\[[^\]]+\]\((https?:\/\/[^)\s]+)\)/g;
         const links: string[] = [];
@@ -269,6 +402,11 @@ JSON 结构如下：
             return '核心逻辑中的新闻链接存在重复引用';
         }
 
+        const unsupportedNumbers = this.findUnsupportedNumbers(data, sourceText);
+        if (unsupportedNumbers.length > 0) {
+            return `核心逻辑或风险提示引用了输入数据中不存在的数值：${unsupportedNumbers.slice(0, 5).join('、')}，数值必须直接取自输入数据`;
+        }
+
         return null;
     }
 
@@ -311,332 +449,182 @@ JSON 结构如下：
         )).join('\n\n');
     }
 
-    private static buildPrompt(newsText: string, forecastData: string, tradingData: string, today: string): string {
-        return this.ANALYSIS_PROMPT_TEMPLATE
-            .replace('{today}', today)
-            .replace('{news_text}', newsText)
-            .replace('{forecast_data}', forecastData)
-            .replace('{trading_data}', tradingData);
+    private static roundTo(value: number, digits = 2): number {
+        const factor = Math.pow(10, digits);
+        return Math.round(value * factor) / factor;
     }
 
-    private static extractTextFromModelField(value: unknown): string {
-        if (typeof value === 'string') {
-            return value;
-        }
-
-        if (Array.isArray(value)) {
-            return value.map((item: any) => {
-                if (typeof item === 'string') return item;
-                if (item && typeof item === 'object' && typeof item.text === 'string') return item.text;
-                return '';
-            }).join('');
-        }
-
-        return '';
+    private static average(values: number[]): number | null {
+        if (values.length === 0) return null;
+        return values.reduce((sum, value) => sum + value, 0) / values.length;
     }
 
-    private static extractModelFinalContent(data: any): string {
-        if (typeof data?.output_text === 'string' && data.output_text.trim()) {
-            return data.output_text;
-        }
-
-        if (Array.isArray(data?.output)) {
-            const responseText = data.output
-                .map((item: any) => {
-                    const content = Array.isArray(item?.content) ? item.content : [];
-                    return content
-                        .map((part: any) => {
-                            if (typeof part?.text === 'string') return part.text;
-                            if (typeof part?.output_text === 'string') return part.output_text;
-                            return '';
-                        })
-                        .join('');
-                })
-                .join('');
-            if (responseText) return responseText;
-        }
-
-        const choice = data?.choices?.[0];
-        if (!choice) return '';
-
-        const messageContent = this.extractTextFromModelField(choice?.message?.content);
-        if (messageContent) return messageContent;
-
-        const textContent = this.extractTextFromModelField(choice?.text);
-        if (textContent) return textContent;
-
-        return '';
+    /** 最近 period 个数值的均值，数量不足时返回 null */
+    private static averageOfLast(values: number[], period: number): number | null {
+        if (values.length < period) return null;
+        return this.average(values.slice(-period));
     }
 
-    private static extractModelStreamDelta(data: any): string {
-        if (data?.type === 'response.output_text.delta') {
-            const delta = this.extractTextFromModelField(data?.delta);
-            if (delta) return delta;
-        }
-
-        if (typeof data?.delta === 'string') {
-            return data.delta;
-        }
+    /** 涨跌停幅度：按代码段取板块限制（科创板 / 创业板 20%，北交所 30%），10% 限制的 ST 股为 5% */
+    private static getPriceLimitRatio(symbol: string, stockName: string): number {
+        const limitRatio = getSecurityIdentity(symbol).limitRatio ?? 0.1;
+        if (limitRatio === 0.1 && /ST/i.test(stockName)) return 0.05;
+        return limitRatio;
+    }
 
-        if (typeof data?.output_text === 'string') {
-            return data.output_text;
+    /**
+     * 基于日 K 计算技术面摘要：均线、区间高低点、20 日波动率、量能与涨跌停距离
+     */
+    private static buildTechnicalSummary(
+        symbol: string,
+        stockName: string,
+        rows: Record<string, any>[],
+    ): Record<string, string | number | null> {
+        const bars = rows.filter(row => (
+            typeof row['收盘价'] === 'number'
+            && typeof row['最高价'] === 'number'
+            && typeof row['最低价'] === 'number'
+        ));
+        if (bars.length === 0) {
+            return { '错误': '暂无日 K 数据' };
         }
 
-        const choice = data?.choices?.[0];
-        if (!choice) return '';
-
-        const deltaContent = this.extractTextFromModelField(choice?.delta?.content);
-        if (deltaContent) return deltaContent;
-
-        const messageContent = this.extractTextFromModelField(choice?.message?.content);
-        if (messageContent) return messageContent;
-
-        const textContent = this.extractTextFromModelField(choice?.text);
-        if (textContent) return textContent;
+        const closes = bars.map(row => row['收盘价'] as number);
+        const volumes = bars.map(row => (typeof row['成交量'] === 'number' ? row['成交量'] : 0) as number);
+        const latest = bars[bars.length - 1];
+        const latestClose = latest['收盘价'] as number;
+        const round = (value: number | null) => (value === null ? null : this.roundTo(value));
+        const percentFrom = (target: number | null) => (
+            target === null || latestClose === 0 ? null : this.roundTo((target / latestClose - 1) * 100)
+        );
 
-        return '';
-    }
+        const recent = (period: number) => bars.slice(-period);
+        const highOf = (period: number) => Math.max(...recent(period).map(row => row['最高价'] as number));
+        const lowOf = (period: number) => Math.min(...recent(period).map(row => row['最低价'] as number));
+
+        // 20 日波动率：日收益率标准差年化（×√250）
+        const returnWindow = closes.slice(-21);
+        const returns = returnWindow.slice(1).map((close, index) => close / returnWindow[index] - 1);
+        const meanReturn = this.average(returns);
+        const volatility = meanReturn === null || returns.length < 20
+            ? null
+            : Math.sqrt(returns.reduce((sum, value) => sum + Math.pow(value - meanReturn, 2), 0) / (returns.length - 1)) * Math.sqrt(250) * 100;
+
+        // 量能：最新成交量 / 此前 20 日均量
+        const avgVolume20 = volumes.length > 20 ? this.average(volumes.slice(-21, -1)) : null;
+        const latestVolume = volumes[volumes.length - 1];
+
+        // 涨跌停价以前一交易日收盘价为基准
+        const prevClose = bars.length > 1 ? bars[bars.length - 2]['收盘价'] as number : null;
+        const limitRatio = this.getPriceLimitRatio(symbol, stockName);
+        const limitUp = prevClose === null ? null : this.roundTo(prevClose * (1 + limitRatio));
+        const limitDown = prevClose === null ? null : this.roundTo(prevClose * (1 - limitRatio));
+
+        const ma5 = this.averageOfLast(closes, 5);
+        const ma10 = this.averageOfLast(closes, 10);
+        const ma20 = this.averageOfLast(closes, 20);
+        const ma60 = this.averageOfLast(closes, 60);
 
-    private static buildModelRequestBody(prompt: string, env: Env, stream: boolean): Record<string, unknown> {
         return {
-            model: env.EVA_MODEL,
-            temperature: 0.2,
-            ...(stream ? { stream: true } : {}),
-            messages: [
-                {
-                    role: 'system',
-                    content: this.ANALYSIS_SYSTEM_PROMPT,
-                },
-                {
-                    role: 'user',
-                    content: prompt,
-                },
-            ],
+            '最新交易日': latest['时间'] ?? null,
+            '最新收盘价': latestClose,
+            'MA5': round(ma5),
+            'MA10': round(ma10),
+            'MA20': round(ma20),
+            'MA60': round(ma60),
+            '收盘价相对MA20%': ma20 === null ? null : this.roundTo((latestClose / ma20 - 1) * 100),
+            '收盘价相对MA60%': ma60 === null ? null : this.roundTo((latestClose / ma60 - 1) * 100),
+            '近20日最高价': highOf(20),
+            '近20日最低价': lowOf(20),
+            '近60日最高价': highOf(60),
+            '近60日最低价': lowOf(60),
+            '20日年化波动率%': round(volatility),
+            '最新成交量': latestVolume,
+            '20日平均成交量': round(avgVolume20),
+            '成交量/20日均量': avgVolume20 ? this.roundTo(latestVolume / avgVolume20) : null,
+            '涨跌停幅度%': this.roundTo(limitRatio * 100),
+            '涨停价': limitUp,
+            '跌停价': limitDown,
+            '距涨停%': percentFrom(limitUp),
+            '距跌停%': percentFrom(limitDown),
         };
     }
 
-    private static async requestModel(prompt: string, env: Env): Promise<string> {
-        if (!env.OPENAI_API_BASE_URL) {
-            throw new Error('缺少 OPENAI_API_BASE_URL 配置');
-        }
-        if (!env.OPENAI_API_KEY) {
-            throw new Error('缺少 OPENAI_API_KEY 配置');
+    private static buildKLineText(rows: Record<string, any>[]): string {
+        if (rows.length === 0) {
+            return '暂无 K 线数据';
         }
-        if (!env.EVA_MODEL) {
-            throw new Error('缺少 EVA_MODEL 配置');
-        }
-
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 45_000);
-
-        try {
-            const response = await fetch(env.OPENAI_API_BASE_URL, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${env.OPENAI_API_KEY}`,
-                },
-                body: JSON.stringify(this.buildModelRequestBody(prompt, env, false)),
-                signal: controller.signal,
-            });
 
-            if (!response.ok) {
-                const errText = await response.text();
-                throw new Error(`大模型接口请求失败: ${response.status} ${errText.slice(0, 300)}`);
-            }
-
-            const data: any = await response.json();
-            const content = this.extractModelFinalContent(data).trim();
-            if (!content) {
-                throw new Error('大模型返回内容为空');
-            }
-
-            return content;
-        } finally {
-            clearTimeout(timeout);
-        }
+        const header = '时间 | 开盘 | 收盘 | 最高 | 最低 | 成交量 | 涨跌幅%';
+        const lines = rows.map(row => [
+            row['时间'],
+            row['开盘价'],
+            row['收盘价'],
+            row['最高价'],
+            row['最低价'],
+            row['成交量'],
+            row['涨跌幅'],
+        ].map(value => (value === null || value === undefined ? '-' : String(value))).join(' | '));
+
+        return [header, ...lines].join('\n');
     }
 
-    private static async requestModelStream(
-        prompt: string,
-        env: Env,
-        attempt: number,
-        onModelDelta: StockAnalysisModelDeltaHandler,
-    ): Promise<string> {
-        if (!env.OPENAI_API_BASE_URL) {
-            throw new Error('缺少 OPENAI_API_BASE_URL 配置');
-        }
-        if (!env.OPENAI_API_KEY) {
-            throw new Error('缺少 OPENAI_API_KEY 配置');
-        }
-        if (!env.EVA_MODEL) {
-            throw new Error('缺少 EVA_MODEL 配置');
-        }
-
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 45_000);
-
-        try {
-            const response = await fetch(env.OPENAI_API_BASE_URL, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${env.OPENAI_API_KEY}`,
-                },
-                body: JSON.stringify(this.buildModelRequestBody(prompt, env, true)),
-                signal: controller.signal,
-            });
-
-            if (!response.ok) {
-                const errText = await response.text();
-                throw new Error(`大模型接口请求失败: ${response.status} ${errText.slice(0, 300)}`);
-            }
-
-            const contentType = (response.headers.get('content-type') || '').toLowerCase();
-            if (contentType.includes('application/json')) {
-                const data: any = await response.json();
-                const content = this.extractModelFinalContent(data).trim();
-                if (!content) {
-                    throw new Error('大模型流式返回内容为空');
-                }
-                try {
-                    onModelDelta({ attempt, content });
-                } catch {
-                    // 忽略转发回调异常，不影响主流程
-                }
-                return content;
-            }
-
-            if (!response.body) {
-                throw new Error('大模型流式响应体为空');
-            }
-
-            const reader = response.body.getReader();
-            const decoder = new TextDecoder();
-            let buffer = '';
-            let fullContent = '';
-            let doneReceived = false;
-            let currentEventDataLines: string[] = [];
-
-            const emitDelta = (delta: string) => {
-                if (!delta) return;
-                fullContent += delta;
-                try {
-                    onModelDelta({ attempt, content: delta });
-                } catch {
-                    // 忽略转发回调异常，不影响主流程
-                }
-            };
-
-            const consumePayload = (payload: string) => {
-                if (!payload) return;
-                if (payload === '[DONE]') {
-                    doneReceived = true;
-                    return;
-                }
-
-                try {
-                    const parsed = JSON.parse(payload);
-                    const delta = this.extractModelStreamDelta(parsed);
-                    if (delta) {
-                        emitDelta(delta);
-                    }
-                } catch {
-                    const trimmed = payload.trim();
-                    if (trimmed && !trimmed.startsWith('{') && !trimmed.startsWith('[')) {
-                        emitDelta(trimmed);
-                    }
-                }
-            };
-
-            const flushEventData = () => {
-                if (currentEventDataLines.length === 0) return;
-                const payload = currentEventDataLines.join('\n').trim();
-                currentEventDataLines = [];
-                if (!payload) return;
-                consumePayload(payload);
-            };
-
-            while (true) {
-                const { value, done } = await reader.read();
-                if (done) break;
-
-                buffer += decoder.decode(value, { stream: true });
-
-                let newlineIndex = buffer.indexOf('\n');
-                while (newlineIndex >= 0) {
-                    const rawLine = buffer.slice(0, newlineIndex).replace(/\r$/, '');
-                    buffer = buffer.slice(newlineIndex + 1);
-
-                    if (rawLine === '') {
-                        flushEventData();
-                    } else if (rawLine.startsWith(':')) {
-                        // SSE 注释行
-                    } else if (rawLine.startsWith('data:')) {
-                        currentEventDataLines.push(rawLine.slice(5).trimStart());
-                    } else if (rawLine.startsWith('event:') || rawLine.startsWith('id:') || rawLine.startsWith('retry:')) {
-                        // SSE 元信息行，忽略
-                    } else {
-                        currentEventDataLines.push(rawLine.trim());
-                    }
-
-                    if (doneReceived) break;
-                    newlineIndex = buffer.indexOf('\n');
-                }
-
-                if (doneReceived) break;
-            }
-
-            flushEventData();
+    private static buildInputsText(config: AnalysisProfileConfig, texts: Partial<Record<AnalysisInputKey, string>>): string {
+        return config.inputs.map(key => {
+            const title = key === 'kline' && config.kline ? config.kline.title : this.ANALYSIS_INPUT_LABELS[key].title;
+            return `${title}：\n${texts[key] ?? ''}`;
+        }).join('\n\n');
+    }
 
-            const tail = buffer.trim();
-            if (!doneReceived && tail) {
-                if (tail.startsWith('data:')) {
-                    consumePayload(tail.slice(5).trim());
-                } else {
-                    consumePayload(tail);
-                }
-            }
+    private static buildPrompt(config: AnalysisProfileConfig, inputsText: string, today: string): string {
+        return this.ANALYSIS_PROMPT_TEMPLATE
+            .replace('{today}', today)
+            .replace('{horizon}', config.horizon)
+            .replace('{focus}', config.focus)
+            .replace('{goal}', config.goal)
+            .replace('{principles}', config.principles)
+            .replace('{framework}', config.framework)
+            .replace('{inputs}', inputsText);
+    }
 
-            const finalContent = fullContent.trim();
-            if (!finalContent) {
-                throw new Error('大模型流式返回内容为空');
-            }
-            return finalContent;
-        } finally {
-            clearTimeout(timeout);
-        }
+    private static buildModelOptions(prompt: string): LlmChatOptions {
+        return {
+            systemPrompt: this.ANALYSIS_SYSTEM_PROMPT,
+            prompt,
+            temperature: 0.2,
+        };
     }
 
+    /**
+     * @param sourceText 输入数据文本，用于校验模型引用的数值
+     */
     private static async generateStockAnalysis(
-        newsText: string,
-        forecastData: string,
-        tradingData: string,
+        basePrompt: string,
+        sourceText: string,
         env: Env,
         onProgress?: StockAnalysisProgressHandler,
         onModelDelta?: StockAnalysisModelDeltaHandler,
     ): Promise<StockAnalysisResult> {
         let lastError = '模型返回格式异常';
-        const today = this.getTodayInChina();
 
         for (let attempt = 1; attempt <= 2; attempt++) {
             this.emitProgress(onProgress, 'model.requesting', `调用模型生成评价（第 ${attempt} 次）`, { attempt });
             const correction = attempt === 1
                 ? ''
                 : `\n\n【上次输出问题】\n${lastError}\n请严格修正并仅输出 JSON。`;
-            const prompt = this.buildPrompt(newsText, forecastData, tradingData, today) + correction;
+            const prompt = basePrompt + correction;
 
             let raw: string;
             if (onModelDelta) {
                 try {
-                    raw = await this.requestModelStream(prompt, env, attempt, onModelDelta);
+                    raw = await LlmService.chatStream(this.buildModelOptions(prompt), env, content => onModelDelta({ attempt, content }));
                 } catch (streamError: unknown) {
                     const reason = this.getErrorMessage(streamError, '模型流式请求失败');
                     this.emitProgress(onProgress, 'model.stream_fallback', '模型流式转发失败，已自动降级为非流式请求', {
                         attempt,
                         reason,
                     });
-                    raw = await this.requestModel(prompt, env);
+                    raw = await LlmService.chat(this.buildModelOptions(prompt), env);
                     try {
                         onModelDelta({ attempt, content: raw });
                     } catch {
@@ -644,7 +632,7 @@ JSON 结构如下：
                     }
                 }
             } else {
-                raw = await this.requestModel(prompt, env);
+                raw = await LlmService.chat(this.buildModelOptions(prompt), env);
             }
             this.emitProgress(onProgress, 'model.responded', `模型返回完成（第 ${attempt} 次）`, {
                 attempt,
@@ -667,7 +655,7 @@ JSON 结构如下：
                 continue;
             }
 
-            const validationError = this.validateModelResult(parsed);
+            const validationError = this.validateModelResult(parsed, sourceText);
             if (!validationError) {
                 return parsed;
             }
@@ -700,6 +688,7 @@ JSON 结构如下：
         return {
             '股票代码': row.symbol,
             '股票简称': row.stock_name || '',
+            '评价模式': row.profile,
             '分析时间': row.analysis_time,
             '结论': row.conclusion,
             '核心逻辑': row.core_logic,
@@ -707,13 +696,140 @@ JSON 结构如下：
         };
     }
 
+    private static async fetchAnalysisInput(
+        key: AnalysisInputKey,
+        symbol: string,
+        stockName: string,
+        config: AnalysisProfileConfig,
+        env: Env,
+    ): Promise<AnalysisInputResult> {
+        if (key === 'news') {
+            const newsList = await this.fetchStockNewsDigest(symbol, env);
+            return {
+                text: this.buildNewsText(newsList),
+                summary: { '新闻数量': newsList.length },
+                meta: { count: newsList.length },
+            };
+        }
+
+        if (key === 'forecast') {
+            const forecast = await ThsService.getProfitForecast(symbol);
+            const forecastSummary = this.normalizeText(forecast?.['摘要'] || '');
+            return {
+                text: forecastSummary || '暂无业绩预测摘要',
+                summary: { '业绩预测摘要': forecastSummary || '暂无业绩预测摘要' },
+                meta: { hasSummary: Boolean(forecastSummary) },
+            };
+        }
+
+        if (key === 'trading' || key === 'fundamental') {
+            const quote = await EmQuoteService.getQuote(symbol, key === 'trading' ? 'activity' : 'fundamental');
+            return {
+                text: JSON.stringify(quote, null, 2),
+                summary: { [key === 'trading' ? '交易数据' : '基本面数据']: quote },
+            };
+        }
+
+        if (key === 'technical') {
+            const { klines: rows } = await KlineCacheService.getKLine({
+                symbol,
+                klt: 101,
+                fqt: 1,
+                limit: this.TECHNICAL_KLINE_LIMIT,
+            }, env);
+            const technical = this.buildTechnicalSummary(symbol, stockName, rows);
+            return {
+                text: JSON.stringify(technical, null, 2),
+                summary: { '技术面摘要': technical },
+                meta: { count: rows.length },
+            };
+        }
+
+        const klineConfig = config.kline ?? { klt: 101 as KLinePeriod, limit: 20, title: '' };
+        const { klines: rows } = await KlineCacheService.getKLine({
+            symbol,
+            klt: klineConfig.klt,
+            fqt: klineConfig.klt >= 100 ? 1 : 0,
+            limit: klineConfig.limit,
+        }, env);
+        return {
+            text: this.buildKLineText(rows),
+            summary: { 'K线数量': rows.length },
+            meta: { count: rows.length },
+        };
+    }
+
+    private static buildFallbackInput(key: AnalysisInputKey, reason: string): AnalysisInputResult {
+        if (key === 'news') {
+            return { text: this.buildNewsText([]), summary: { '新闻数量': 0 } };
+        }
+        if (key === 'forecast') {
+            return { text: '暂无业绩预测摘要', summary: { '业绩预测摘要': '暂无业绩预测摘要' } };
+        }
+        if (key === 'technical') {
+            const data = { '错误': reason };
+            return { text: JSON.stringify(data, null, 2), summary: { '技术面摘要': data } };
+        }
+        if (key === 'trading' || key === 'fundamental') {
+            const data = { '错误': reason };
+            return {
+                text: JSON.stringify(data, null, 2),
+                summary: { [key === 'trading' ? '交易数据' : '基本面数据']: data },
+            };
+        }
+        return { text: '暂无 K 线数据', summary: { 'K线数量': 0 } };
+    }
+
+    /**
+     * 按评价模式并发抓取输入数据，单项失败时降级为占位内容继续分析
+     */
+    private static async fetchAnalysisInputs(
+        symbol: string,
+        stockName: string,
+        config: AnalysisProfileConfig,
+        env: Env,
+        onProgress?: StockAnalysisProgressHandler,
+    ): Promise<{ texts: Partial<Record<AnalysisInputKey, string>>; summary: Record<string, unknown> }> {
+        const names = config.inputs.map(key => this.ANALYSIS_INPUT_LABELS[key].name);
+        this.emitProgress(onProgress, 'inputs.fetching', `开始抓取输入数据（${names.join('/')}）`);
+
+        const results = await Promise.allSettled(
+            config.inputs.map(key => this.fetchAnalysisInput(key, symbol, stockName, config, env)),
+        );
+
+        const texts: Partial<Record<AnalysisInputKey, string>> = {};
+        let summary: Record<string, unknown> = {};
+
+        results.forEach((result, index) => {
+            const key = config.inputs[index];
+            const name = this.ANALYSIS_INPUT_LABELS[key].name;
+            let input: AnalysisInputResult;
+
+            if (result.status === 'fulfilled') {
+                input = result.value;
+                this.emitProgress(onProgress, `inputs.${key}.ready`, `${name}抓取完成`, input.meta);
+            } else {
+                const reason = this.getErrorMessage(result.reason, `${name}抓取失败`);
+                input = this.buildFallbackInput(key, reason);
+                this.emitProgress(onProgress, `inputs.${key}.failed`, `${name}抓取失败，已降级继续分析`, { reason });
+            }
+
+            texts[key] = input.text;
+            summary = { ...summary, ...input.summary };
+        });
+
+        return { texts, summary };
+    }
+
     static async createStockAnalysis(
         symbol: string,
         env: Env,
+        profile: AnalysisProfile = this.DEFAULT_PROFILE,
         onProgress?: StockAnalysisProgressHandler,
         onModelDelta?: StockAnalysisModelDeltaHandler,
     ): Promise<Record<string, any>> {
-        this.emitProgress(onProgress, 'start', '开始生成个股评价', { symbol });
+        const config = this.ANALYSIS_PROFILES[profile];
+        this.emitProgress(onProgress, 'start', `开始生成个股评价（${config.label}）`, { symbol, profile });
 
         const stockName = await this.getStockName(symbol, env);
         if (!stockName) {
@@ -725,60 +841,18 @@ JSON 结构如下：
             symbol,
             stockName,
         });
-        this.emitProgress(onProgress, 'inputs.fetching', '开始抓取输入数据（新闻/盈利预测/交易）');
-
-        const [newsResult, forecastResult, tradingResult] = await Promise.allSettled([
-            this.fetchStockNewsDigest(symbol, env),
-            ThsService.getProfitForecast(symbol),
-            EmQuoteService.getQuote(symbol, 'activity'),
-        ]);
-
-        const newsList = newsResult.status === 'fulfilled' ? newsResult.value : [];
-        const forecastSummary = forecastResult.status === 'fulfilled'
-            ? this.normalizeText(forecastResult.value?.['摘要'] || '')
-            : '';
-        const tradingData = tradingResult.status === 'fulfilled'
-            ? tradingResult.value
-            : { '错误': this.getErrorMessage(tradingResult.reason, '交易数据获取失败') };
-
-        if (newsResult.status === 'fulfilled') {
-            this.emitProgress(onProgress, 'inputs.news.ready', '个股新闻抓取完成', { count: newsList.length });
-        } else {
-            this.emitProgress(onProgress, 'inputs.news.failed', '个股新闻抓取失败，已降级继续分析', {
-                reason: this.getErrorMessage(newsResult.reason, '新闻抓取失败'),
-            });
-        }
-
-        if (forecastResult.status === 'fulfilled') {
-            this.emitProgress(onProgress, 'inputs.forecast.ready', '盈利预测抓取完成', {
-                hasSummary: Boolean(forecastSummary),
-            });
-        } else {
-            this.emitProgress(onProgress, 'inputs.forecast.failed', '盈利预测抓取失败，已降级继续分析', {
-                reason: this.getErrorMessage(forecastResult.reason, '盈利预测抓取失败'),
-            });
-        }
 
-        if (tradingResult.status === 'fulfilled') {
-            this.emitProgress(onProgress, 'inputs.trading.ready', '交易数据抓取完成');
-        } else {
-            this.emitProgress(onProgress, 'inputs.trading.failed', '交易数据抓取失败，已降级继续分析', {
-                reason: this.getErrorMessage(tradingResult.reason, '交易数据抓取失败'),
-            });
-        }
-
-        const newsText = this.buildNewsText(newsList);
-        const forecastData = forecastSummary || '暂无业绩预测摘要';
-        const tradingText = JSON.stringify(tradingData, null, 2);
+        const inputs = await this.fetchAnalysisInputs(symbol, stockName, config, env, onProgress);
+        const inputsText = this.buildInputsText(config, inputs.texts);
+        const prompt = this.buildPrompt(config, inputsText, this.getTodayInChina());
         this.emitProgress(onProgress, 'analysis.prepared', '分析输入数据准备完成', {
-            newsCount: newsList.length,
-            hasForecastSummary: Boolean(forecastSummary),
+            profile,
+            inputs: config.inputs,
         });
 
         const modelResult = await this.generateStockAnalysis(
-            newsText,
-            forecastData,
-            tradingText,
+            prompt,
+            inputsText,
             env,
             onProgress,
             onModelDelta,
@@ -789,13 +863,14 @@ JSON 结构如下：
         await env.DB
             .prepare(
                 `INSERT INTO stock_analysis
-                    (symbol, analysis_time, conclusion, core_logic, risk_warning)
+                    (symbol, analysis_time, profile, conclusion, core_logic, risk_warning)
                  VALUES
-                    (?1, ?2, ?3, ?4, ?5)`
+                    (?1, ?2, ?3, ?4, ?5, ?6)`
             )
             .bind(
                 symbol,
                 analysisTime,
+                profile,
                 modelResult['结论'],
                 modelResult['核心逻辑'],
                 modelResult['风险提示'],
@@ -813,29 +888,158 @@ JSON 结构如下：
             '模型': env.EVA_MODEL,
             '股票代码': symbol,
             '股票简称': stockName,
+            '评价模式': profile,
             '分析时间': analysisTime,
             '结论': modelResult['结论'],
             '核心逻辑': modelResult['核心逻辑'],
             '风险提示': modelResult['风险提示'],
-            '输入摘要': {
-                '新闻数量': newsList.length,
-                '业绩预测摘要': forecastData,
-                '交易数据': tradingData,
-            },
+            '输入摘要': inputs.summary,
+        };
+    }
+
+    private static async runWithConcurrency<T>(jobs: Array<() => Promise<T>>, concurrency: number): Promise<T[]> {
+        const results: T[] = new Array(jobs.length);
+        let cursor = 0;
+        const workerCount = Math.min(concurrency, jobs.length);
+
+        const workers = Array.from({ length: workerCount }, async () => {
+            while (true) {
+                const index = cursor;
+                cursor += 1;
+                if (index >= jobs.length) break;
+                results[index] = await jobs[index]();
+            }
+        });
+
+        await Promise.all(workers);
+        return results;
+    }
+
+    /**
+     * 查询指定时长内的最新评价（analysis_time 为中国时间字符串，可直接按字典序比较）
+     */
+    private static async getFreshStockAnalysis(
+        symbol: string,
+        profile: AnalysisProfile,
+        maxAgeMinutes: number,
+        env: Env,
+    ): Promise<StockAnalysisRow | null> {
+        if (maxAgeMinutes <= 0) return null;
+
+        const threshold = this.formatToChinaTimeWithMs(Date.now() - maxAgeMinutes * 60_000);
+        return env.DB
+            .prepare(
+                `SELECT a.symbol, s.name AS stock_name, a.analysis_time, a.profile, a.conclusion, a.core_logic, a.risk_warning
+                 FROM stock_analysis a
+                 LEFT JOIN stocks s ON s.symbol = a.symbol
+                 WHERE a.symbol = ?1 AND a.profile = ?2 AND a.analysis_time >= ?3
+                 ORDER BY a.analysis_time DESC
+                 LIMIT 1`
+            )
+            .bind(symbol, profile, threshold)
+            .first<StockAnalysisRow>();
+    }
+
+    /**
+     * 批量生成个股评价
+     * 指定时长内已有评价的股票直接复用，其余按并发上限逐只调用大模型；单只失败不影响整体。
+     */
+    static async createBatchStockAnalysis(
+        symbols: string[],
+        env: Env,
+        options: StockAnalysisBatchOptions,
+        onProgress?: StockAnalysisProgressHandler,
+    ): Promise<Record<string, any>> {
+        const total = symbols.length;
+        let completed = 0;
+
+        this.emitProgress(onProgress, 'batch.start', `开始批量评价 ${total} 只股票`, {
+            total,
+            profile: options.profile,
+            maxAgeMinutes: options.maxAgeMinutes,
+            concurrency: options.concurrency,
+        });
+
+        const finish = (
+            symbol: string,
+            status: StockAnalysisBatchStatus,
+            item: Record<string, any>,
+        ): Record<string, any> => {
+            completed += 1;
+            const stage = status === '失败' ? 'symbol.failed' : status === '复用' ? 'symbol.reused' : 'symbol.completed';
+            this.emitProgress(onProgress, stage, `${symbol} ${status}（${completed}/${total}）`, {
+                symbol,
+                completed,
+                total,
+                ...(item['结论'] ? { conclusion: item['结论'] } : {}),
+                ...(item['错误'] ? { reason: item['错误'] } : {}),
+            });
+            return { '状态': status, ...item };
+        };
+
+        const jobs = symbols.map(symbol => async (): Promise<Record<string, any>> => {
+            try {
+                const fresh = await this.getFreshStockAnalysis(symbol, options.profile, options.maxAgeMinutes, env);
+                if (fresh) {
+                    return finish(symbol, '复用', this.mapAnalysisRow(fresh));
+                }
+
+                this.emitProgress(onProgress, 'symbol.started', `开始生成 ${symbol} 评价`, { symbol });
+                const data = await this.createStockAnalysis(
+                    symbol,
+                    env,
+                    options.profile,
+                    (progress) => {
+                        this.emitProgress(onProgress, progress.stage, progress.message, { ...progress.meta, symbol });
+                    },
+                );
+                return finish(symbol, '新生成', {
+                    '股票代码': data['股票代码'],
+                    '股票简称': data['股票简称'],
+                    '评价模式': data['评价模式'],
+                    '分析时间': data['分析时间'],
+                    '结论': data['结论'],
+                    '核心逻辑': data['核心逻辑'],
+                    '风险提示': data['风险提示'],
+                });
+            } catch (error: unknown) {
+                return finish(symbol, '失败', {
+                    '股票代码': symbol,
+                    '错误': this.getErrorMessage(error, '评价生成失败'),
+                });
+            }
+        });
+
+        const items = await this.runWithConcurrency(jobs, options.concurrency);
+        const countByStatus = (status: StockAnalysisBatchStatus) => items.filter(item => item['状态'] === status).length;
+
+        return {
+            '来源': 'AI 股票评价（批量）',
+            '模型': env.EVA_MODEL,
+            '股票数量': total,
+            '新生成数量': countByStatus('新生成'),
+            '复用数量': countByStatus('复用'),
+            '失败数量': countByStatus('失败'),
+            '评价模式': options.profile,
+            '复用时长分钟': options.maxAgeMinutes,
+            '评价列表': items,
         };
     }
 
-    static async getLatestStockAnalysis(symbol: string, env: Env): Promise<Record<string, any> | null> {
+    /**
+     * 查询最新评价，未指定 profile 时不区分评价模式
+     */
+    static async getLatestStockAnalysis(symbol: string, env: Env, profile?: AnalysisProfile): Promise<Record<string, any> | null> {
         const row = await env.DB
             .prepare(
-                `SELECT a.symbol, s.name AS stock_name, a.analysis_time, a.conclusion, a.core_logic, a.risk_warning
+                `SELECT a.symbol, s.name AS stock_name, a.analysis_time, a.profile, a.conclusion, a.core_logic, a.risk_warning
                  FROM stock_analysis a
                  LEFT JOIN stocks s ON s.symbol = a.symbol
-                 WHERE a.symbol = ?1
+                 WHERE a.symbol = ?1 AND (?2 IS NULL OR a.profile = ?2)
                  ORDER BY a.analysis_time DESC
                  LIMIT 1`
             )
-            .bind(symbol)
+            .bind(symbol, profile ?? null)
             .first<StockAnalysisRow>();
 
         if (!row) return null;
@@ -851,6 +1055,7 @@ JSON 结构如下：
         env: Env,
         page: number,
         pageSize: number,
+        profile?: AnalysisProfile,
     ): Promise<Record<string, any>> {
         const offset = (page - 1) * pageSize;
         const stockName = await this.getStockName(symbol, env);
@@ -859,22 +1064,22 @@ JSON 结构如下：
             .prepare(
                 `SELECT COUNT(*) AS total
                  FROM stock_analysis
-                 WHERE symbol = ?1`
+                 WHERE symbol = ?1 AND (?2 IS NULL OR profile = ?2)`
             )
-            .bind(symbol)
+            .bind(symbol, profile ?? null)
             .first<StockAnalysisHistoryCountRow>();
         const total = countRow?.total || 0;
 
         const rowsResult = await env.DB
             .prepare(
-                `SELECT a.symbol, s.name AS stock_name, a.analysis_time, a.conclusion, a.core_logic, a.risk_warning
+                `SELECT a.symbol, s.name AS stock_name, a.analysis_time, a.profile, a.conclusion, a.core_logic, a.risk_warning
                  FROM stock_analysis a
                  LEFT JOIN stocks s ON s.symbol = a.symbol
-                 WHERE a.symbol = ?1
+                 WHERE a.symbol = ?1 AND (?4 IS NULL OR a.profile = ?4)
                  ORDER BY a.analysis_time DESC
                  LIMIT ?2 OFFSET ?3`
             )
-            .bind(symbol, pageSize, offset)
+            .bind(symbol, pageSize, offset, profile ?? null)
             .all<StockAnalysisRow>();
         const rows = rowsResult.results || [];
 
@@ -882,6 +1087,7 @@ JSON 结构如下：
             '来源': 'D1 历史分析',
             '股票代码': symbol,
             '股票简称': stockName || rows[0]?.stock_name || '',
+            '评价模式': profile ?? '全部',
             '当前页': page,
             '每页数量': pageSize,
             '总数量': total,
@@ -1,3 +1,4 @@
+import { StockSearchService } from './StockSearchService';
 import type { Env } from '../index';
 
 export interface StockOcrItem {
@@ -86,13 +87,6 @@ export class StockOcrService {
         return /^\d{6}$/.test(code);
     }
 
-    private static escapeLike(value: string): string {
-        return value
-            .replace(/\\/g, '\\\\')
-            .replace(/%/g, '\\%')
-            .replace(/_/g, '\\_');
-    }
-
     private static parseItemFromString(raw: string): StockOcrItem | null {
         const text = this.normalizeText(raw);
         if (!text) return null;
@@ -204,7 +198,8 @@ export class StockOcrService {
             if (chunk.length === 0) continue;
 
             const placeholders = chunk.map(() => '?').join(',');
-            const sql = `SELECT symbol, name FROM stocks WHERE name IN (${placeholders}) ORDER BY symbol`;
+            // 同名时优先在市股票（如北交所代码迁移后旧代码已退市）
+            const sql = `SELECT symbol, name FROM stocks WHERE name IN (${placeholders}) ORDER BY delisted_at IS NOT NULL, symbol`;
             const queryResult = await env.DB.prepare(sql).bind(...chunk).all<StockLookupRow>();
 
             for (const row of queryResult.results || []) {
@@ -227,12 +222,8 @@ export class StockOcrService {
         const normalizedName = this.normalizeText(name);
         if (!normalizedName) return null;
 
-        const pattern = `%${this.escapeLike(normalizedName)}%`;
-        const row = await env.DB
-            .prepare("SELECT symbol, name FROM stocks WHERE name LIKE ?1 ESCAPE '\\' OR pinyin LIKE ?1 ESCAPE '\\' ORDER BY symbol LIMIT 1")
-            .bind(pattern)
-            .first<StockLookupRow>();
-
+        // 与 /api/cn/stocks/search 共用排序：简称前缀 / 拼音 / 曾用名优先于简称包含
+        const [row] = await StockSearchService.search(normalizedName, env, { limit: 1 });
         if (!row) return null;
 
         const symbol = this.normalizeStockCode(row.symbol);
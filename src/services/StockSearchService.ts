@@ -0,0 +1,150 @@
+import { fullPinyinToInitials } from '../utils/pinyin';
+import type { Env } from '../index';
+
+/** 匹配类型，按优先级从高到低 */
+export type StockSearchMatchType =
+    | '代码'
+    | '代码前缀'
+    | '简称'
+    | '简称前缀'
+    | '拼音首字母'
+    | '拼音首字母前缀'
+    | '全拼'
+    | '曾用名'
+    | '简称包含'
+    | '拼音包含';
+
+export interface StockSearchResult {
+    symbol: string;
+    name: string;
+    market: string;
+    matchType: StockSearchMatchType;
+    /** 通过曾用名命中时的曾用名 */
+    formerName: string | null;
+    delisted: boolean;
+}
+
+export interface StockSearchOptions {
+    limit: number;
+    /** 是否包含已退市股票（排在在市股票之后） */
+    includeDelisted?: boolean;
+}
+
+interface SearchRow {
+    symbol: string;
+    name: string;
+    market: string;
+    delisted_at: string | null;
+    rank: number;
+    former_name?: string | null;
+}
+
+const MATCH_TYPES: StockSearchMatchType[] = [
+    '代码', '代码前缀', '简称', '简称前缀', '拼音首字母', '拼音首字母前缀', '全拼', '曾用名', '简称包含', '拼音包含',
+];
+const FORMER_NAME_RANK = MATCH_TYPES.indexOf('曾用名');
+
+/** 比较用简称：去空格，全角 Ａ / Ｂ 转半角（stocks.sql 中存在 "万  科Ａ" 形式的简称） */
+const NAME_EXPR = "REPLACE(REPLACE(REPLACE(s.name, ' ', ''), 'Ａ', 'A'), 'Ｂ', 'B')";
+
+/**
+ * 股票搜索（代码 / 简称 / 拼音首字母 / 全拼 / 曾用名）
+ * 按匹配类型排序：代码 > 代码前缀 > 简称 > 简称前缀 > 拼音首字母 > 拼音首字母前缀 > 全拼 > 曾用名 > 简称包含 > 拼音包含，
+ * 同一类型内在市优先、简称短者优先，供联想输入与 OCR 名称纠错共用。
+ */
+export class StockSearchService {
+    /** 单路查询候选上限，合并排序后再截取 limit */
+    private static readonly CANDIDATE_LIMIT = 100;
+
+    static normalizeQuery(query: string): string {
+        return query.normalize('NFKC').replace(/\s+/g, '');
+    }
+
+    private static escapeLike(value: string): string {
+        return value
+            .replace(/\\/g, '\\\\')
+            .replace(/%/g, '\\%')
+            .replace(/_/g, '\\_');
+    }
+
+    static async search(query: string, env: Env, options: StockSearchOptions): Promise<StockSearchResult[]> {
+        const q = this.normalizeQuery(query);
+        if (!q) return [];
+
+        const escaped = this.escapeLike(q);
+        const upper = q.toUpperCase();
+        const escapedUpper = this.escapeLike(upper);
+        const fullPinyinInitials = fullPinyinToInitials(q);
+        const delistedFilter = options.includeDelisted ? '' : 'AND s.delisted_at IS NULL';
+
+        const stocksQuery = env.DB
+            .prepare(
+                `SELECT symbol, name, market, delisted_at, rank FROM (
+                     SELECT s.symbol, s.name, s.market, s.delisted_at,
+                         CASE
+                             WHEN s.symbol = ?1 THEN 0
+                             WHEN s.symbol LIKE ?2 || '%' ESCAPE '\\' THEN 1
+                             WHEN ${NAME_EXPR} = ?1 THEN 2
+                             WHEN ${NAME_EXPR} LIKE ?2 || '%' ESCAPE '\\' THEN 3
+                             WHEN s.pinyin = ?3 THEN 4
+                             WHEN s.pinyin LIKE ?4 || '%' ESCAPE '\\' THEN 5
+                             WHEN ?5 <> '' AND s.pinyin LIKE ?5 || '%' THEN 6
+                             WHEN ${NAME_EXPR} LIKE '%' || ?2 || '%' ESCAPE '\\' THEN 8
+                             WHEN s.pinyin LIKE '%' || ?4 || '%' ESCAPE '\\' THEN 9
+                             ELSE -1
+                         END AS rank
+                     FROM stocks s
+                     WHERE 1 = 1 ${delistedFilter}
+                 )
+                 WHERE rank >= 0
+                 ORDER BY rank, delisted_at IS NOT NULL, LENGTH(name), symbol
+                 LIMIT ?6`
+            )
+            .bind(q, escaped, upper, escapedUpper, fullPinyinInitials, this.CANDIDATE_LIMIT);
+
+        const historyQuery = env.DB
+            .prepare(
+                `SELECT s.symbol, s.name, s.market, s.delisted_at, h.old_name AS former_name, ${FORMER_NAME_RANK} AS rank
+                 FROM stock_name_history h
+                 INNER JOIN stocks s ON s.symbol = h.symbol
+                 WHERE REPLACE(h.old_name, ' ', '') LIKE '%' || ?1 || '%' ESCAPE '\\' ${delistedFilter}
+                 ORDER BY h.changed_at DESC
+                 LIMIT ?2`
+            )
+            .bind(escaped, this.CANDIDATE_LIMIT);
+
+        const [stocksResult, historyResult] = await Promise.all([
+            stocksQuery.all<SearchRow>(),
+            // 曾用名表随 sync_stocks 创建，尚未初始化时忽略
+            historyQuery.all<SearchRow>().catch((err) => {
+                console.error('[StockSearch] 查询曾用名失败:', err);
+                return { results: [] as SearchRow[] };
+            }),
+        ]);
+
+        const bestBySymbol = new Map<string, SearchRow>();
+        for (const row of [...(stocksResult.results || []), ...(historyResult.results || [])]) {
+            const current = bestBySymbol.get(row.symbol);
+            if (!current || row.rank < current.rank) {
+                bestBySymbol.set(row.symbol, row);
+            }
+        }
+
+        return Array.from(bestBySymbol.values())
+            .sort((a, b) => (
+                a.rank - b.rank
+                || Number(a.delisted_at !== null) - Number(b.delisted_at !== null)
+                || a.name.length - b.name.length
+                || a.symbol.localeCompare(b.symbol)
+            ))
+            .slice(0, options.limit)
+            .map(row => ({
+                symbol: row.symbol,
+                name: row.name,
+                market: row.market,
+                matchType: MATCH_TYPES[row.rank],
+                formerName: row.rank === FORMER_NAME_RANK ? row.former_name ?? null : null,
+                delisted: row.delisted_at !== null,
+            }));
+    }
+}
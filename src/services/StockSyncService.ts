@@ -0,0 +1,221 @@
+import { EmListedStock, EmStockListService } from './EmStockListService';
+import { formatToChinaTime } from '../utils/datetime';
+import { getPinyinInitials } from '../utils/pinyin';
+import type { Env } from '../index';
+
+export type StockSyncStatus = 'success' | 'partial' | 'failed';
+
+export type StockSyncChangeType = 'insert' | 'rename' | 'code_change' | 'market_change' | 'delist' | 'relist';
+
+export interface StockSyncChange {
+    type: StockSyncChangeType;
+    symbol: string;
+    name: string;
+    /** 更名 / 代码迁移前的简称，市场变更时为原市场 */
+    previous?: string;
+    /** 代码迁移前的代码 */
+    relatedSymbol?: string;
+}
+
+export interface StockSyncSummary {
+    status: StockSyncStatus;
+    fetched: number;
+    inserted: number;
+    renamed: number;
+    marketChanged: number;
+    delisted: number;
+    relisted: number;
+}
+
+interface StockRow {
+    symbol: string;
+    name: string;
+    market: string;
+    delisted_at: string | null;
+}
+
+/**
+ * 股票主数据同步
+ * 以东方财富沪深京 A 股全量列表为准，与 D1 stocks 表比对后新增 / 更名 / 软删除（delisted_at），
+ * 新增与更名时自动生成 pinyin，简称变更写入 stock_name_history，每次运行写入 stock_sync_logs。
+ */
+export class StockSyncService {
+    /** 单次 D1 batch 语句数 */
+    private static readonly BATCH_SIZE = 100;
+    /** 同步记录中保留的变更明细上限 */
+    private static readonly MAX_LOG_DETAILS = 500;
+    /**
+     * 拉取数量低于在市数量的该比例时视为列表不完整，跳过退市标记（status = partial），
+     * 避免接口异常时误删大量股票
+     */
+    private static readonly MIN_FETCH_RATIO = 0.9;
+
+    /**
+     * 比较用简称：全角转半角并去除空格，避免 "万  科Ａ" 与 "万科A" 被视为更名
+     */
+    private static normalizeName(name: string): string {
+        return name.normalize('NFKC').replace(/\s+/g, '');
+    }
+
+    static async syncStocks(env: Env): Promise<StockSyncSummary> {
+        const startedAt = formatToChinaTime(Date.now());
+        const summary: StockSyncSummary = {
+            status: 'success',
+            fetched: 0,
+            inserted: 0,
+            renamed: 0,
+            marketChanged: 0,
+            delisted: 0,
+            relisted: 0,
+        };
+        const changes: StockSyncChange[] = [];
+
+        try {
+            const listed = await EmStockListService.getAllAShares();
+            summary.fetched = listed.length;
+            if (listed.length === 0) {
+                throw new Error('东方财富股票列表为空，跳过同步');
+            }
+
+            const { results } = await env.DB
+                .prepare('SELECT symbol, name, market, delisted_at FROM stocks')
+                .all<StockRow>();
+            const existing = new Map((results || []).map(row => [row.symbol, row]));
+            const activeCount = (results || []).filter(row => !row.delisted_at).length;
+
+            const now = formatToChinaTime(Date.now());
+            const statements: D1PreparedStatement[] = [];
+            const listedSymbols = new Set(listed.map(stock => stock.symbol));
+            const insertedStocks: EmListedStock[] = [];
+
+            for (const stock of listed) {
+                const row = existing.get(stock.symbol);
+
+                if (!row) {
+                    statements.push(
+                        env.DB
+                            .prepare(
+                                `INSERT INTO stocks (symbol, name, pinyin, market, delisted_at, updated_at)
+                                 VALUES (?1, ?2, ?3, ?4, NULL, ?5)`
+                            )
+                            .bind(stock.symbol, stock.name, getPinyinInitials(stock.name), stock.market, now),
+                    );
+                    insertedStocks.push(stock);
+                    summary.inserted += 1;
+                    changes.push({ type: 'insert', symbol: stock.symbol, name: stock.name });
+                    continue;
+                }
+
+                if (row.delisted_at) {
+                    statements.push(
+                        env.DB.prepare('UPDATE stocks SET delisted_at = NULL, updated_at = ?2 WHERE symbol = ?1').bind(stock.symbol, now),
+                    );
+                    summary.relisted += 1;
+                    changes.push({ type: 'relist', symbol: stock.symbol, name: stock.name });
+                }
+
+                if (this.normalizeName(row.name) !== this.normalizeName(stock.name)) {
+                    statements.push(
+                        env.DB
+                            .prepare('UPDATE stocks SET name = ?2, pinyin = ?3, updated_at = ?4 WHERE symbol = ?1')
+                            .bind(stock.symbol, stock.name, getPinyinInitials(stock.name), now),
+                        env.DB
+                            .prepare(
+                                `INSERT INTO stock_name_history (symbol, change_type, old_name, new_name, related_symbol, changed_at)
+                                 VALUES (?1, 'rename', ?2, ?3, NULL, ?4)`
+                            )
+                            .bind(stock.symbol, row.name, stock.name, now),
+                    );
+                    summary.renamed += 1;
+                    changes.push({ type: 'rename', symbol: stock.symbol, name: stock.name, previous: row.name });
+                }
+
+                if (row.market !== stock.market) {
+                    statements.push(
+                        env.DB.prepare('UPDATE stocks SET market = ?2, updated_at = ?3 WHERE symbol = ?1').bind(stock.symbol, stock.market, now),
+                    );
+                    summary.marketChanged += 1;
+                    changes.push({ type: 'market_change', symbol: stock.symbol, name: stock.name, previous: row.market });
+                }
+            }
+
+            const missing = (results || []).filter(row => !row.delisted_at && !listedSymbols.has(row.symbol));
+            if (listed.length < activeCount * this.MIN_FETCH_RATIO) {
+                summary.status = 'partial';
+                console.warn(`[StockSync] 拉取数量 ${listed.length} 低于在市数量 ${activeCount} 的 ${this.MIN_FETCH_RATIO}，跳过 ${missing.length} 只退市标记`);
+            } else {
+                // 北交所代码迁移：旧代码消失的同时出现同名新代码
+                const insertedByName = new Map(insertedStocks.map(stock => [this.normalizeName(stock.name), stock]));
+
+                for (const row of missing) {
+                    statements.push(
+                        env.DB.prepare('UPDATE stocks SET delisted_at = ?2, updated_at = ?2 WHERE symbol = ?1').bind(row.symbol, now),
+                    );
+                    summary.delisted += 1;
+
+                    const successor = insertedByName.get(this.normalizeName(row.name));
+                    if (successor) {
+                        statements.push(
+                            env.DB
+                                .prepare(
+                                    `INSERT INTO stock_name_history (symbol, change_type, old_name, new_name, related_symbol, changed_at)
+                                     VALUES (?1, 'code_change', ?2, ?3, ?4, ?5)`
+                                )
+                                .bind(successor.symbol, row.name, successor.name, row.symbol, now),
+                        );
+                        changes.push({
+                            type: 'code_change',
+                            symbol: successor.symbol,
+                            name: successor.name,
+                            previous: row.name,
+                            relatedSymbol: row.symbol,
+                        });
+                    }
+                    changes.push({ type: 'delist', symbol: row.symbol, name: row.name });
+                }
+            }
+
+            for (let i = 0; i < statements.length; i += this.BATCH_SIZE) {
+                await env.DB.batch(statements.slice(i, i + this.BATCH_SIZE));
+            }
+
+            await this.writeLog(env, summary, changes, null, startedAt);
+            return summary;
+        } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            await this.writeLog(env, { ...summary, status: 'failed' }, changes, message, startedAt).catch(logErr => {
+                console.error('[StockSync] 写入同步记录失败:', logErr);
+            });
+            throw err;
+        }
+    }
+
+    private static async writeLog(
+        env: Env,
+        summary: StockSyncSummary,
+        changes: StockSyncChange[],
+        error: string | null,
+        startedAt: string,
+    ): Promise<void> {
+        await env.DB
+            .prepare(
+                `INSERT INTO stock_sync_logs
+                     (status, fetched, inserted, renamed, market_changed, delisted, relisted, details, error, started_at, finished_at)
+                 VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11)`
+            )
+            .bind(
+                summary.status,
+                summary.fetched,
+                summary.inserted,
+                summary.renamed,
+                summary.marketChanged,
+                summary.delisted,
+                summary.relisted,
+                changes.length > 0 ? JSON.stringify(changes.slice(0, this.MAX_LOG_DETAILS)) : null,
+                error,
+                startedAt,
+                formatToChinaTime(Date.now()),
+            )
+            .run();
+    }
+}
@@ -0,0 +1,52 @@
+import { ScanLoginController } from '../controllers/ScanLoginController';
+import type { Env } from '../index';
+
+export interface WechatApiResponse {
+    errcode: number;
+    errmsg: string;
+    /** access_token 失效后的重试次数 */
+    retries: number;
+    data: any;
+}
+
+/**
+ * 公众号服务端接口调用（使用 server access_token）
+ * access_token 失效（40001/42001）时强制刷新后重试一次。
+ */
+export class WechatApiService {
+    private static readonly API_BASE_URL = 'https://api.weixin.qq.com/cgi-bin';
+    /** access_token 失效相关错误码 */
+    private static readonly TOKEN_EXPIRED_ERRCODES = new Set([40001, 42001]);
+    private static readonly MAX_TOKEN_RETRIES = 1;
+
+    /**
+     * POST JSON 到 /cgi-bin/{path}
+     */
+    static async post(path: string, payload: Record<string, any>, env: Env): Promise<WechatApiResponse> {
+        let retries = 0;
+
+        while (true) {
+            const accessToken = await ScanLoginController.getServerAccessToken(env, retries > 0);
+            const res = await fetch(`${this.API_BASE_URL}/${path}?access_token=${accessToken}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(payload),
+            });
+            const data: any = await res.json();
+            const errcode = Number(data?.errcode ?? 0);
+
+            if (this.TOKEN_EXPIRED_ERRCODES.has(errcode) && retries < this.MAX_TOKEN_RETRIES) {
+                console.warn(`[WxApi] ${path} access_token 失效 errcode=${errcode}，刷新后重试`);
+                retries += 1;
+                continue;
+            }
+
+            return {
+                errcode,
+                errmsg: String(data?.errmsg ?? ''),
+                retries,
+                data,
+            };
+        }
+    }
+}
@@ -0,0 +1,224 @@
+import { EmQuoteService } from './EmQuoteService';
+import { StockAnalysisService } from './StockAnalysisService';
+import { StockSearchMatchType, StockSearchService } from './StockSearchService';
+import { isValidAShareSymbol, isValidSecuritySymbol } from '../utils/validator';
+import type { Env } from '../index';
+
+interface StockMatchRow {
+    symbol: string;
+    name: string;
+}
+
+/** 视为精确命中的匹配类型，唯一命中时直接回复行情 */
+const EXACT_MATCH_TYPES: StockSearchMatchType[] = ['代码', '简称', '拼音首字母'];
+
+/**
+ * 公众号文本指令
+ *
+ * 支持指令:
+ *  - 6 位代码（A股 / ETF / LOF / 可转债）/ 股票简称 / 拼音首字母 → 核心行情 + 最新 AI 评价结论 + 详情链接
+ *  - 自选            → 自选股列表及行情
+ *  - +600519 / -600519 → 添加 / 删除自选
+ *  - 帮助            → 指令说明
+ */
+export class WechatCommandService {
+    /** 名称 / 拼音匹配的最大候选数 */
+    private static readonly MAX_CANDIDATES = 5;
+    /** 自选列表最多展示数量 */
+    private static readonly MAX_FAVORITES = 20;
+    /** 评价结论最大展示长度 */
+    private static readonly CONCLUSION_MAX_LENGTH = 120;
+
+    private static readonly HELP_TEXT = [
+        '可用指令：',
+        '· 发送 6 位代码、股票简称或拼音首字母（如 600519、510300、贵州茅台、GZMT）查看行情与 AI 评价',
+        '· 自选：查看自选股行情',
+        '· +600519：添加自选（支持 A股 / ETF / LOF / 可转债代码）',
+        '· -600519：删除自选',
+    ].join('\n');
+
+    private static formatChange(value: unknown): string {
+        const change = Number(value);
+        if (!Number.isFinite(change)) return '--';
+        return `${change > 0 ? '+' : ''}${change.toFixed(2)}%`;
+    }
+
+    private static formatPrice(value: unknown): string {
+        const price = Number(value);
+        return Number.isFinite(price) && price > 0 ? price.toFixed(2) : '--';
+    }
+
+    private static normalizeName(name: string): string {
+        return name.replace(/\s+/g, '');
+    }
+
+    private static buildStockUrl(symbol: string, env: Env): string | null {
+        if (!env.FRONTEND_URL) return null;
+        try {
+            return new URL(`/stock/${symbol}`, env.FRONTEND_URL).toString();
+        } catch {
+            return null;
+        }
+    }
+
+    private static async findStock(symbol: string, env: Env): Promise<StockMatchRow | null> {
+        return env.DB
+            .prepare('SELECT symbol, name FROM stocks WHERE symbol = ?1 LIMIT 1')
+            .bind(symbol)
+            .first<StockMatchRow>();
+    }
+
+    /**
+     * 按代码查找证券：A 股查 stocks 表，ETF / LOF / 可转债不在 stocks 表中，取行情中的简称
+     */
+    private static async findSecurity(symbol: string, env: Env): Promise<StockMatchRow | null> {
+        const stock = await this.findStock(symbol, env);
+        if (stock || isValidAShareSymbol(symbol)) return stock;
+
+        try {
+            const quote = await EmQuoteService.getQuote(symbol, 'core');
+            return quote['股票简称'] ? { symbol, name: String(quote['股票简称']) } : null;
+        } catch (err) {
+            console.error(`[WechatCommand] 查询 ${symbol} 简称失败:`, err);
+            return null;
+        }
+    }
+
+    private static async buildStockReply(stock: StockMatchRow, env: Env): Promise<string> {
+        const [quoteResult, analysisResult] = await Promise.allSettled([
+            EmQuoteService.getQuote(stock.symbol, 'core'),
+            StockAnalysisService.getLatestStockAnalysis(stock.symbol, env),
+        ]);
+
+        const name = this.normalizeName(stock.name);
+        const lines = [`${name}(${stock.symbol})`];
+
+        if (quoteResult.status === 'fulfilled' && !('错误' in quoteResult.value)) {
+            const quote = quoteResult.value;
+            lines.push(`最新价：${this.formatPrice(quote['最新价'])}  涨跌幅：${this.formatChange(quote['涨跌幅'])}`);
+            if (quote['更新时间']) lines.push(`更新时间：${quote['更新时间']}`);
+        } else {
+            lines.push('行情暂不可用');
+        }
+
+        const analysis = analysisResult.status === 'fulfilled' ? analysisResult.value : null;
+        if (analysis && analysis['结论']) {
+            const conclusion = String(analysis['结论']);
+            const text = conclusion.length > this.CONCLUSION_MAX_LENGTH
+                ? `${conclusion.slice(0, this.CONCLUSION_MAX_LENGTH)}…`
+                : conclusion;
+            lines.push('', `AI 评价（${analysis['分析时间']}）：${text}`);
+        } else {
+            lines.push('', '暂无 AI 评价');
+        }
+
+        const url = this.buildStockUrl(stock.symbol, env);
+        if (url) lines.push('', `详情：${url}`);
+
+        return lines.join('\n');
+    }
+
+    private static async buildFavoritesReply(openid: string, env: Env): Promise<string> {
+        const { results } = await env.DB
+            .prepare(
+                `SELECT us.symbol, s.name
+                 FROM user_stocks us
+                 LEFT JOIN stocks s ON us.symbol = s.symbol
+                 WHERE us.openid = ?1
+                 ORDER BY us.created_at DESC
+                 LIMIT ?2`
+            )
+            .bind(openid, this.MAX_FAVORITES)
+            .all<{ symbol: string; name: string | null }>();
+        const favorites = results || [];
+        if (favorites.length === 0) {
+            return '暂无自选股，发送 +600519 添加自选';
+        }
+
+        const quotes = await EmQuoteService.getBatchQuotes(favorites.map(item => item.symbol), 'core');
+        const lines = favorites.map((item, index) => {
+            const quote = quotes[index] || {};
+            const name = this.normalizeName(item.name || String(quote['股票简称'] || ''));
+            if ('错误' in quote) return `${name}(${item.symbol}) 行情暂不可用`;
+            return `${name}(${item.symbol}) ${this.formatPrice(quote['最新价'])} ${this.formatChange(quote['涨跌幅'])}`;
+        });
+
+        return [`自选股（${favorites.length}）：`, ...lines].join('\n');
+    }
+
+    private static async editFavorite(openid: string, symbol: string, add: boolean, env: Env): Promise<string> {
+        const stock = await this.findSecurity(symbol, env);
+        if (!stock) {
+            return `未找到代码 ${symbol}`;
+        }
+        const label = `${this.normalizeName(stock.name)}(${symbol})`;
+
+        if (!add) {
+            const result = await env.DB
+                .prepare('DELETE FROM user_stocks WHERE openid = ?1 AND symbol = ?2')
+                .bind(openid, symbol)
+                .run();
+            return (result.meta?.changes ?? 0) > 0 ? `已删除自选 ${label}` : `${label} 不在自选中`;
+        }
+
+        // 未登录过网页的公众号用户先占位建档，满足 user_stocks 外键
+        await env.DB.batch([
+            env.DB
+                .prepare(
+                    `INSERT INTO users (openid, nickname, avatar_url)
+                     VALUES (?1, '', '')
+                     ON CONFLICT(openid) DO NOTHING`
+                )
+                .bind(openid),
+            env.DB
+                .prepare('INSERT OR IGNORE INTO user_stocks (openid, symbol) VALUES (?1, ?2)')
+                .bind(openid, symbol),
+        ]);
+        return `已添加自选 ${label}`;
+    }
+
+    /**
+     * 处理用户发送的文本，返回回复内容
+     */
+    static async handleText(openid: string, content: string, env: Env): Promise<string> {
+        const text = content.trim();
+        if (!text || /^(帮助|help|\?|？)$/i.test(text)) {
+            return this.HELP_TEXT;
+        }
+
+        if (text === '自选') {
+            return this.buildFavoritesReply(openid, env);
+        }
+
+        const editMatch = text.match(/^([+＋\-－])\s*(\d{6})$/);
+        if (editMatch) {
+            if (!isValidSecuritySymbol(editMatch[2])) {
+                return `${editMatch[2]} 不是有效代码，仅支持 A股 / ETF / LOF / 可转债的6位代码`;
+            }
+            return this.editFavorite(openid, editMatch[2], editMatch[1] === '+' || editMatch[1] === '＋', env);
+        }
+
+        if (isValidSecuritySymbol(text)) {
+            const stock = await this.findSecurity(text, env);
+            return stock ? this.buildStockReply(stock, env) : `未找到代码 ${text}\n\n${this.HELP_TEXT}`;
+        }
+
+        const candidates = await StockSearchService.search(text, env, { limit: this.MAX_CANDIDATES });
+        if (candidates.length === 0) {
+            return `未找到与「${text}」匹配的股票\n\n${this.HELP_TEXT}`;
+        }
+
+        const exact = candidates.filter(item => EXACT_MATCH_TYPES.includes(item.matchType));
+        if (candidates.length === 1 || exact.length === 1) {
+            return this.buildStockReply(exact[0] || candidates[0], env);
+        }
+
+        return [
+            `找到多只匹配「${text}」的股票，请回复代码查看：`,
+            ...candidates.map(item => {
+                const label = `${item.symbol} ${this.normalizeName(item.name)}`;
+                return item.formerName ? `${label}（曾用名 ${this.normalizeName(item.formerName)}）` : label;
+            }),
+        ].join('\n');
+    }
+}
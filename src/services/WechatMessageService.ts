@@ -0,0 +1,191 @@
+import { WechatApiService } from './WechatApiService';
+import { WechatUserService } from './WechatUserService';
+import type { Env } from '../index';
+
+/** 消息发送渠道：模板消息 / 48 小时客服消息 */
+export type WechatMessageChannel = 'template' | 'custom';
+
+/** 消息业务类型，对应 user_settings 中的推送开关 */
+export type WechatMessageCategory = 'alert' | 'analysis' | 'daily_brief' | 'command' | 'test';
+
+export type WechatSendStatus = 'sent' | 'skipped' | 'failed';
+
+/** 模板消息字段：{ keyword1: { value: '...' } } */
+export type WechatTemplateData = Record<string, { value: string; color?: string }>;
+
+export interface WechatTemplateMessage {
+    openid: string;
+    category: WechatMessageCategory;
+    templateId: string;
+    data: WechatTemplateData;
+    /** 点击消息跳转地址 */
+    url?: string;
+}
+
+export interface WechatCustomMessage {
+    openid: string;
+    category: WechatMessageCategory;
+    content: string;
+}
+
+export interface WechatSendResult {
+    status: WechatSendStatus;
+    channel: WechatMessageChannel;
+    errcode: number | null;
+    errmsg: string | null;
+    msgid: string | null;
+    retries: number;
+    logId: number | null;
+}
+
+interface CategorySetting {
+    settingType: string;
+    /** 用户未设置时是否默认推送 */
+    defaultEnabled: boolean;
+}
+
+/**
+ * 公众号消息发送服务
+ * 文档: https://developers.weixin.qq.com/doc/service/api/notify/template/api_sendtemplatemessage.html
+ *
+ * 发送前跳过已取消关注的用户，并按业务类型检查 user_settings 推送开关；
+ * 每次发送结果（含跳过）写入 wechat_message_logs。
+ */
+export class WechatMessageService {
+    /** 客服消息单条最大长度（微信限制 2048 字节，按字符保守截断） */
+    private static readonly CUSTOM_CONTENT_MAX_LENGTH = 600;
+
+    /** 业务类型对应的推送开关；command（指令回复）与 test 由用户主动触发，不检查开关 */
+    static readonly CATEGORY_SETTINGS: Record<Exclude<WechatMessageCategory, 'command' | 'test'>, CategorySetting> = {
+        alert: { settingType: 'alert_push', defaultEnabled: true },
+        analysis: { settingType: 'analysis_push', defaultEnabled: false },
+        daily_brief: { settingType: 'daily_news_push', defaultEnabled: false },
+    };
+
+    /**
+     * 判断用户是否开启了该业务类型的推送
+     */
+    static async isOptedIn(openid: string, category: WechatMessageCategory, env: Env): Promise<boolean> {
+        if (category === 'command' || category === 'test') return true;
+
+        const setting = this.CATEGORY_SETTINGS[category];
+        const row = await env.DB
+            .prepare('SELECT enabled FROM user_settings WHERE openid = ?1 AND setting_type = ?2')
+            .bind(openid, setting.settingType)
+            .first<{ enabled: number }>();
+
+        return row ? Number(row.enabled) === 1 : setting.defaultEnabled;
+    }
+
+    private static async writeLog(
+        openid: string,
+        channel: WechatMessageChannel,
+        category: WechatMessageCategory,
+        templateId: string | null,
+        payload: Record<string, any>,
+        result: Omit<WechatSendResult, 'logId' | 'channel'>,
+        env: Env,
+    ): Promise<number | null> {
+        try {
+            const row = await env.DB
+                .prepare(
+                    `INSERT INTO wechat_message_logs
+                        (openid, channel, category, template_id, payload, status, errcode, errmsg, msgid, retries)
+                     VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10)
+                     RETURNING id`
+                )
+                .bind(
+                    openid,
+                    channel,
+                    category,
+                    templateId,
+                    JSON.stringify(payload),
+                    result.status,
+                    result.errcode,
+                    result.errmsg,
+                    result.msgid,
+                    result.retries,
+                )
+                .first<{ id: number }>();
+            return row?.id ?? null;
+        } catch (err) {
+            console.error(`[WxMessage] 写入发送记录失败 ${openid}:`, err);
+            return null;
+        }
+    }
+
+    private static async send(
+        openid: string,
+        channel: WechatMessageChannel,
+        category: WechatMessageCategory,
+        templateId: string | null,
+        payload: Record<string, any>,
+        env: Env,
+    ): Promise<WechatSendResult> {
+        let result: Omit<WechatSendResult, 'logId' | 'channel'>;
+
+        if (category !== 'command' && !(await WechatUserService.isReachable(openid, env))) {
+            result = { status: 'skipped', errcode: null, errmsg: '用户已取消关注公众号', msgid: null, retries: 0 };
+        } else if (!(await this.isOptedIn(openid, category, env))) {
+            result = { status: 'skipped', errcode: null, errmsg: '用户已关闭该类推送', msgid: null, retries: 0 };
+        } else {
+            try {
+                const path = channel === 'template' ? 'message/template/send' : 'message/custom/send';
+                const api = await WechatApiService.post(path, payload, env);
+                const msgid = api.data?.msgid;
+                result = {
+                    status: api.errcode === 0 ? 'sent' : 'failed',
+                    errcode: api.errcode,
+                    errmsg: api.errmsg,
+                    msgid: msgid !== undefined && msgid !== null ? String(msgid) : null,
+                    retries: api.retries,
+                };
+                if (api.errcode !== 0) {
+                    console.error(`[WxMessage] ❌ ${channel} 发送失败 ${openid}: ${api.errcode} ${api.errmsg}`);
+                }
+            } catch (err) {
+                console.error(`[WxMessage] ❌ ${channel} 发送异常 ${openid}:`, err);
+                result = {
+                    status: 'failed',
+                    errcode: null,
+                    errmsg: err instanceof Error ? err.message : String(err),
+                    msgid: null,
+                    retries: 0,
+                };
+            }
+        }
+
+        const logId = await this.writeLog(openid, channel, category, templateId, payload, result, env);
+        return { ...result, channel, logId };
+    }
+
+    /**
+     * 发送模板消息
+     */
+    static async sendTemplateMessage(message: WechatTemplateMessage, env: Env): Promise<WechatSendResult> {
+        const payload: Record<string, any> = {
+            touser: message.openid,
+            template_id: message.templateId,
+            data: message.data,
+        };
+        if (message.url) {
+            payload.url = message.url;
+        }
+        return this.send(message.openid, 'template', message.category, message.templateId, payload, env);
+    }
+
+    /**
+     * 发送客服文本消息，仅在用户 48 小时内与公众号有过互动时可达（否则 errcode 45015）
+     */
+    static async sendCustomMessage(message: WechatCustomMessage, env: Env): Promise<WechatSendResult> {
+        const content = message.content.length > this.CUSTOM_CONTENT_MAX_LENGTH
+            ? `${message.content.slice(0, this.CUSTOM_CONTENT_MAX_LENGTH - 1)}…`
+            : message.content;
+        const payload = {
+            touser: message.openid,
+            msgtype: 'text',
+            text: { content },
+        };
+        return this.send(message.openid, 'custom', message.category, null, payload, env);
+    }
+}
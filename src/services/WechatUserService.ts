@@ -0,0 +1,175 @@
+import { WechatApiService } from './WechatApiService';
+import { formatToChinaTime } from '../utils/datetime';
+import type { Env } from '../index';
+
+export interface WechatSubscriptionSyncSummary {
+    total: number;
+    updated: number;
+    unsubscribed: number;
+    failed: number;
+}
+
+interface WechatUserInfo {
+    openid: string;
+    subscribe: number;
+    subscribe_time?: number;
+    subscribe_scene?: string;
+}
+
+/**
+ * 公众号关注状态
+ * users.subscribed: 1 已关注 / 0 已取消关注 / NULL 未知（尚未收到事件或同步）
+ * 昵称头像仅能通过网页授权（snsapi_userinfo）获取，由 AuthController 登录回调写入
+ */
+export class WechatUserService {
+    /** 批量获取用户信息接口单次上限 */
+    private static readonly SYNC_BATCH_SIZE = 100;
+    /** 关注状态同步间隔 */
+    private static readonly SYNC_INTERVAL_DAYS = 7;
+
+    private static readonly GUIDE_TEXT = [
+        '发送 6 位代码、股票简称或拼音首字母查看行情与 AI 评价，发送「自选」查看自选股行情，',
+        '发送 +600519 / -600519 管理自选，发送「帮助」查看全部指令。',
+    ].join('');
+
+    /**
+     * 关注欢迎语
+     */
+    static buildWelcomeText(isFirst: boolean): string {
+        return `${isFirst ? '感谢关注！' : '欢迎回来！'}\n${this.GUIDE_TEXT}`;
+    }
+
+    /**
+     * 记录关注事件，返回是否为首次关注
+     * @param scene 带参二维码场景值（不含 qrscene_ 前缀），普通关注为空
+     */
+    static async handleSubscribe(openid: string, scene: string, env: Env): Promise<boolean> {
+        const existing = await env.DB
+            .prepare('SELECT subscribed_at FROM users WHERE openid = ?1')
+            .bind(openid)
+            .first<{ subscribed_at: string | null }>();
+
+        await env.DB
+            .prepare(
+                `INSERT INTO users (openid, nickname, avatar_url, subscribed, subscribed_at, subscribe_scene)
+                 VALUES (?1, '', '', 1, ?2, ?3)
+                 ON CONFLICT(openid) DO UPDATE SET
+                     subscribed = 1,
+                     subscribed_at = excluded.subscribed_at,
+                     subscribe_scene = excluded.subscribe_scene`
+            )
+            .bind(openid, formatToChinaTime(Date.now()), scene || null)
+            .run();
+
+        return !existing?.subscribed_at;
+    }
+
+    /**
+     * 记录取消关注事件
+     */
+    static async handleUnsubscribe(openid: string, env: Env): Promise<void> {
+        await env.DB
+            .prepare('UPDATE users SET subscribed = 0, unsubscribed_at = ?2 WHERE openid = ?1')
+            .bind(openid, formatToChinaTime(Date.now()))
+            .run();
+    }
+
+    /**
+     * 已关注用户扫码（SCAN 事件）时修正关注状态
+     */
+    static async markSubscribed(openid: string, env: Env): Promise<void> {
+        await env.DB
+            .prepare('UPDATE users SET subscribed = 1 WHERE openid = ?1 AND (subscribed IS NULL OR subscribed = 0)')
+            .bind(openid)
+            .run();
+    }
+
+    /**
+     * 是否可推送：仅明确取消关注的用户不可达
+     */
+    static async isReachable(openid: string, env: Env): Promise<boolean> {
+        const row = await env.DB
+            .prepare('SELECT subscribed FROM users WHERE openid = ?1')
+            .bind(openid)
+            .first<{ subscribed: number | null }>();
+        return row?.subscribed !== 0;
+    }
+
+    /**
+     * 批量同步关注状态，优先处理从未同步或最久未同步的用户
+     * user/info/batchget 已不再返回昵称头像，此处不更新资料字段
+     */
+    static async syncSubscriptions(env: Env): Promise<WechatSubscriptionSyncSummary> {
+        const cutoff = formatToChinaTime(Date.now() - this.SYNC_INTERVAL_DAYS * 24 * 3600 * 1000);
+        const { results } = await env.DB
+            .prepare(
+                `SELECT openid
+                 FROM users
+                 WHERE subscription_synced_at IS NULL OR subscription_synced_at < ?1
+                 ORDER BY subscription_synced_at IS NOT NULL, subscription_synced_at ASC
+                 LIMIT ?2`
+            )
+            .bind(cutoff, this.SYNC_BATCH_SIZE)
+            .all<{ openid: string }>();
+        const openids = (results || []).map(row => row.openid);
+
+        const summary: WechatSubscriptionSyncSummary = { total: openids.length, updated: 0, unsubscribed: 0, failed: 0 };
+        if (openids.length === 0) return summary;
+
+        const api = await WechatApiService.post(
+            'user/info/batchget',
+            { user_list: openids.map(openid => ({ openid, lang: 'zh_CN' })) },
+            env,
+        );
+        if (api.errcode !== 0) {
+            throw new Error(`批量获取用户信息失败: ${api.errcode} ${api.errmsg}`);
+        }
+
+        const infoList: WechatUserInfo[] = Array.isArray(api.data?.user_info_list) ? api.data.user_info_list : [];
+        const infoMap = new Map(infoList.map(info => [info.openid, info]));
+        const syncedAt = formatToChinaTime(Date.now());
+        const statements: D1PreparedStatement[] = [];
+
+        for (const openid of openids) {
+            const info = infoMap.get(openid);
+            if (!info) {
+                // 仍记录同步时间，避免无效 openid 每次都排在最前
+                statements.push(
+                    env.DB.prepare('UPDATE users SET subscription_synced_at = ?2 WHERE openid = ?1').bind(openid, syncedAt),
+                );
+                summary.failed += 1;
+                continue;
+            }
+
+            const subscribed = Number(info.subscribe) === 1 ? 1 : 0;
+            const subscribedAt = subscribed && info.subscribe_time ? formatToChinaTime(info.subscribe_time * 1000) : null;
+            statements.push(
+                env.DB
+                    .prepare(
+                        `UPDATE users
+                         SET unsubscribed_at = CASE WHEN ?2 = 0 AND subscribed = 1 THEN ?5 ELSE unsubscribed_at END,
+                             subscribed = ?2,
+                             subscribed_at = COALESCE(?3, subscribed_at),
+                             subscribe_scene = COALESCE(subscribe_scene, ?4),
+                             subscription_synced_at = ?5
+                         WHERE openid = ?1`
+                    )
+                    .bind(
+                        openid,
+                        subscribed,
+                        subscribedAt,
+                        info.subscribe_scene || null,
+                        syncedAt,
+                    ),
+            );
+            summary.updated += 1;
+            if (!subscribed) summary.unsubscribed += 1;
+        }
+
+        if (statements.length > 0) {
+            await env.DB.batch(statements);
+        }
+
+        return summary;
+    }
+}
@@ -0,0 +1,145 @@
+/**
+ * 技术指标计算
+ * 公式与通达信 / 同花顺默认口径保持一致，输入按时间正序，输出与输入等长；
+ * 数据不足以计算的位置返回 null。
+ */
+
+export type IndicatorValue = number | null;
+
+export interface KLineBar {
+    close: number;
+    high: number;
+    low: number;
+    volume: number;
+}
+
+/** 简单移动平均 MA(N) */
+export function calculateMA(values: number[], period: number): IndicatorValue[] {
+    const result: IndicatorValue[] = [];
+    let sum = 0;
+
+    for (let i = 0; i < values.length; i++) {
+        sum += values[i];
+        if (i >= period) {
+            sum -= values[i - period];
+        }
+        result.push(i >= period - 1 ? sum / period : null);
+    }
+
+    return result;
+}
+
+/** 指数移动平均 EMA(N)，以首个值作为初始值 */
+export function calculateEMA(values: number[], period: number): number[] {
+    const alpha = 2 / (period + 1);
+    const result: number[] = [];
+
+    for (let i = 0; i < values.length; i++) {
+        result.push(i === 0 ? values[0] : alpha * values[i] + (1 - alpha) * result[i - 1]);
+    }
+
+    return result;
+}
+
+/** 通达信 SMA(X, N, M)：Y = (M * X + (N - M) * Y') / N */
+function calculateWeightedSMA(values: number[], period: number, weight: number, initial: number): number[] {
+    const result: number[] = [];
+    let prev = initial;
+
+    for (const value of values) {
+        prev = (weight * value + (period - weight) * prev) / period;
+        result.push(prev);
+    }
+
+    return result;
+}
+
+/** MACD：DIF = EMA(short) - EMA(long)，DEA = EMA(DIF, signal)，MACD = 2 * (DIF - DEA) */
+export function calculateMACD(
+    closes: number[],
+    shortPeriod: number,
+    longPeriod: number,
+    signalPeriod: number,
+): { dif: number[]; dea: number[]; macd: number[] } {
+    const shortEma = calculateEMA(closes, shortPeriod);
+    const longEma = calculateEMA(closes, longPeriod);
+    const dif = shortEma.map((value, i) => value - longEma[i]);
+    const dea = calculateEMA(dif, signalPeriod);
+    const macd = dif.map((value, i) => 2 * (value - dea[i]));
+
+    return { dif, dea, macd };
+}
+
+/** KDJ：RSV 取 N 周期（不足 N 时取已有区间），K / D 以 50 为初始值 */
+export function calculateKDJ(
+    bars: KLineBar[],
+    period: number,
+    kPeriod: number,
+    dPeriod: number,
+): { k: number[]; d: number[]; j: number[] } {
+    const rsv = bars.map((bar, i) => {
+        const window = bars.slice(Math.max(0, i - period + 1), i + 1);
+        const highest = Math.max(...window.map(item => item.high));
+        const lowest = Math.min(...window.map(item => item.low));
+        return highest === lowest ? 50 : (bar.close - lowest) / (highest - lowest) * 100;
+    });
+    const k = calculateWeightedSMA(rsv, kPeriod, 1, 50);
+    const d = calculateWeightedSMA(k, dPeriod, 1, 50);
+    const j = k.map((value, i) => 3 * value - 2 * d[i]);
+
+    return { k, d, j };
+}
+
+/** RSI(N) = SMA(MAX(C - LC, 0), N, 1) / SMA(ABS(C - LC), N, 1) * 100 */
+export function calculateRSI(closes: number[], period: number): IndicatorValue[] {
+    if (closes.length === 0) return [];
+
+    const changes = closes.slice(1).map((close, i) => close - closes[i]);
+    const gains = calculateWeightedSMA(changes.map(change => Math.max(change, 0)), period, 1, 0);
+    const totals = calculateWeightedSMA(changes.map(change => Math.abs(change)), period, 1, 0);
+
+    return [null, ...gains.map((gain, i) => (totals[i] === 0 ? 50 : gain / totals[i] * 100))];
+}
+
+/** 布林线：中轨 MA(N)，上 / 下轨 = 中轨 ± K * 样本标准差 */
+export function calculateBOLL(
+    closes: number[],
+    period: number,
+    multiplier: number,
+): { mid: IndicatorValue[]; upper: IndicatorValue[]; lower: IndicatorValue[] } {
+    const mid = calculateMA(closes, period);
+    const upper: IndicatorValue[] = [];
+    const lower: IndicatorValue[] = [];
+
+    mid.forEach((value, i) => {
+        if (value === null || period < 2) {
+            upper.push(null);
+            lower.push(null);
+            return;
+        }
+        const window = closes.slice(i - period + 1, i + 1);
+        const variance = window.reduce((sum, close) => sum + Math.pow(close - value, 2), 0) / (period - 1);
+        const std = Math.sqrt(variance);
+        upper.push(value + multiplier * std);
+        lower.push(value - multiplier * std);
+    });
+
+    return { mid, upper, lower };
+}
+
+/** OBV：收涨累加成交量，收跌累减，首根为 0 */
+export function calculateOBV(bars: KLineBar[]): number[] {
+    const result: number[] = [];
+
+    bars.forEach((bar, i) => {
+        if (i === 0) {
+            result.push(0);
+            return;
+        }
+        const prevClose = bars[i - 1].close;
+        const delta = bar.close > prevClose ? bar.volume : bar.close < prevClose ? -bar.volume : 0;
+        result.push(result[i - 1] + delta);
+    });
+
+    return result;
+}
@@ -0,0 +1,135 @@
+/**
+ * 股票简称拼音首字母
+ *
+ * 基于 Intl.Collator 的中文拼音排序：每个声母区间取一个首字作为边界，
+ * 汉字与边界字比较即可确定首字母，覆盖 GB2312 常用字，无需内置字库。
+ * 与 scripts/stocks.sql 的 pinyin 口径一致：半角字母数字保留并转大写，
+ * 全角字母、空格、* 等符号忽略（如 "*ST国华" → "STGH"，"万  科Ａ" → "WK"）。
+ */
+
+const collator = new Intl.Collator('zh-Hans-CN', { sensitivity: 'base' });
+
+/** 各首字母区间的起始字（按拼音序） */
+const INITIAL_BOUNDARIES: [string, string][] = [
+    ['A', '阿'], ['B', '八'], ['C', '嚓'], ['D', '哒'], ['E', '妸'], ['F', '发'], ['G', '旮'],
+    ['H', '哈'], ['J', '讥'], ['K', '咔'], ['L', '垃'], ['M', '妈'], ['N', '拿'], ['O', '噢'],
+    ['P', '妑'], ['Q', '七'], ['R', '呥'], ['S', '仨'], ['T', '他'], ['W', '屲'], ['X', '夕'],
+    ['Y', '丫'], ['Z', '帀'],
+];
+
+/** 股票简称中常见的多音词，优先于逐字转换 */
+const PHRASE_OVERRIDES: Record<string, string> = {
+    '银行': 'YH',
+    '商行': 'SH',
+    '重庆': 'CQ',
+    '东阿': 'DE',
+    '阿胶': 'EJ',
+    // 大厦之“厦”（shà），其余按厦门（xià）处理
+    '亚厦': 'YS',
+    '华厦': 'HS',
+    '广厦': 'GS',
+    '夏厦': 'XS',
+};
+
+/** 股票简称中读音固定的多音字 */
+const CHAR_OVERRIDES: Record<string, string> = {
+    '厦': 'X',
+    '藏': 'Z',
+    '长': 'C',
+    '朝': 'C',
+    '调': 'T',
+    '埔': 'P',
+};
+
+const CJK_PATTERN = /[一-鿿]/;
+const ASCII_ALNUM_PATTERN = /[A-Za-z0-9]/;
+
+function getCharInitial(char: string): string {
+    if (CHAR_OVERRIDES[char]) return CHAR_OVERRIDES[char];
+    if (!CJK_PATTERN.test(char)) return '';
+
+    let initial = '';
+    for (const [letter, boundary] of INITIAL_BOUNDARIES) {
+        if (collator.compare(char, boundary) < 0) break;
+        initial = letter;
+    }
+    return initial;
+}
+
+/**
+ * 生成股票简称的拼音首字母（大写）
+ */
+export function getPinyinInitials(name: string): string {
+    const chars = Array.from(name);
+    let result = '';
+
+    for (let i = 0; i < chars.length; i++) {
+        const phrase = PHRASE_OVERRIDES[`${chars[i]}${chars[i + 1] ?? ''}`];
+        if (phrase) {
+            result += phrase;
+            i += 1;
+            continue;
+        }
+
+        const char = chars[i];
+        result += ASCII_ALNUM_PATTERN.test(char) ? char.toUpperCase() : getCharInitial(char);
+    }
+
+    return result;
+}
+
+/** 普通话全部拼音音节（不含声调），用于把全拼输入切分为音节 */
+const PINYIN_SYLLABLES = new Set((
+    'a ai an ang ao ba bai ban bang bao bei ben beng bi bian biao bie bin bing bo bu ca cai can cang cao ce cen ceng '
+    + 'cha chai chan chang chao che chen cheng chi chong chou chu chua chuai chuan chuang chui chun chuo ci cong cou cu '
+    + 'cuan cui cun cuo da dai dan dang dao de dei den deng di dia dian diao die ding diu dong dou du duan dui dun duo '
+    + 'e ei en eng er fa fan fang fei fen feng fo fou fu ga gai gan gang gao ge gei gen geng gong gou gu gua guai guan '
+    + 'guang gui gun guo ha hai han hang hao he hei hen heng hong hou hu hua huai huan huang hui hun huo ji jia jian '
+    + 'jiang jiao jie jin jing jiong jiu ju juan jue jun ka kai kan kang kao ke kei ken keng kong kou ku kua kuai kuan '
+    + 'kuang kui kun kuo la lai lan lang lao le lei leng li lia lian liang liao lie lin ling liu lo long lou lu lv luan '
+    + 'lve lun luo ma mai man mang mao me mei men meng mi mian miao mie min ming miu mo mou mu na nai nan nang nao ne '
+    + 'nei nen neng ni nian niang niao nie nin ning niu nong nou nu nv nuan nve nuo o ou pa pai pan pang pao pei pen '
+    + 'peng pi pian piao pie pin ping po pou pu qi qia qian qiang qiao qie qin qing qiong qiu qu quan que qun ran rang '
+    + 'rao re ren reng ri rong rou ru rua ruan rui run ruo sa sai san sang sao se sen seng sha shai shan shang shao she '
+    + 'shei shen sheng shi shou shu shua shuai shuan shuang shui shun shuo si song sou su suan sui sun suo ta tai tan '
+    + 'tang tao te teng ti tian tiao tie ting tong tou tu tuan tui tun tuo wa wai wan wang wei wen weng wo wu xi xia '
+    + 'xian xiang xiao xie xin xing xiong xiu xu xuan xue xun ya yan yang yao ye yi yin ying yo yong you yu yuan yue '
+    + 'yun za zai zan zang zao ze zei zen zeng zha zhai zhan zhang zhao zhe zhei zhen zheng zhi zhong zhou zhu zhua '
+    + 'zhuai zhuan zhuang zhui zhun zhuo zi zong zou zu zuan zui zun zuo'
+).split(' '));
+
+/** 最长音节长度（zhuang / chuang / shuang） */
+const MAX_SYLLABLE_LENGTH = 6;
+
+/**
+ * 将全拼输入（如 "guizhoumaotai"）切分为音节并取首字母（"GZMT"）
+ * 按最长匹配优先回溯切分，无法完整切分或仅一个音节时返回空字符串。
+ */
+export function fullPinyinToInitials(input: string): string {
+    const text = input.toLowerCase();
+    if (!/^[a-z]+$/.test(text)) return '';
+
+    const memo = new Map<number, string[] | null>();
+    const split = (start: number): string[] | null => {
+        if (start === text.length) return [];
+        if (memo.has(start)) return memo.get(start)!;
+
+        let result: string[] | null = null;
+        for (let length = Math.min(MAX_SYLLABLE_LENGTH, text.length - start); length >= 1; length--) {
+            const syllable = text.slice(start, start + length);
+            if (!PINYIN_SYLLABLES.has(syllable)) continue;
+            const rest = split(start + length);
+            if (rest) {
+                result = [syllable, ...rest];
+                break;
+            }
+        }
+
+        memo.set(start, result);
+        return result;
+    };
+
+    const syllables = split(0);
+    if (!syllables || syllables.length < 2) return '';
+    return syllables.map(syllable => syllable[0]).join('').toUpperCase();
+}
@@ -0,0 +1,185 @@
+export type SecurityType = 'stock' | 'etf' | 'lof' | 'convertible_bond' | 'index' | 'unknown';
+
+/** 交易所，口径与 D1 stocks.market 一致 */
+export type SecurityExchange = 'SH' | 'SZ' | 'BJ';
+
+export interface SecurityIdentity {
+    type: SecurityType;
+    /** 中证指数等非交易所指数为 null */
+    exchange: SecurityExchange | null;
+    board: string;
+    /** 东方财富 secid 前缀：0 深市 / 北交所，1 沪市，2 中证指数 */
+    eastmoneyId: 0 | 1 | 2;
+    /** 最小报价单位（元） */
+    priceTick: number;
+    /** 每手数量（股 / 份 / 张），东方财富成交量、挂单量以手为单位 */
+    lotSize: number;
+    /** 涨跌幅限制（不含 ST 5% 与新股上市初期），无限制时为 null */
+    limitRatio: number | null;
+}
+
+interface PrefixRule {
+    prefixes: string[];
+    identity: SecurityIdentity;
+}
+
+const stockRule = (
+    prefixes: string[],
+    exchange: SecurityExchange,
+    board: string,
+    limitRatio: number,
+    priceTick = 0.01,
+): PrefixRule => ({
+    prefixes,
+    identity: {
+        type: 'stock',
+        exchange,
+        board,
+        eastmoneyId: exchange === 'SH' ? 1 : 0,
+        priceTick,
+        lotSize: 100,
+        limitRatio,
+    },
+});
+
+const fundRule = (
+    prefixes: string[],
+    type: 'etf' | 'lof',
+    exchange: SecurityExchange,
+    board: string,
+    limitRatio = 0.1,
+): PrefixRule => ({
+    prefixes,
+    identity: {
+        type,
+        exchange,
+        board,
+        eastmoneyId: exchange === 'SH' ? 1 : 0,
+        priceTick: 0.001,
+        lotSize: 100,
+        limitRatio,
+    },
+});
+
+const convertibleBondRule = (prefixes: string[], exchange: SecurityExchange, board: string): PrefixRule => ({
+    prefixes,
+    identity: {
+        type: 'convertible_bond',
+        exchange,
+        board,
+        eastmoneyId: exchange === 'SH' ? 1 : 0,
+        priceTick: 0.001,
+        lotSize: 10,
+        limitRatio: 0.2,
+    },
+});
+
+/**
+ * 6 位代码段 -> 证券身份（按顺序匹配，先匹配先得）
+ *
+ * 【上海证券交易所】(eastmoneyId: 1)
+ * - 600, 601, 603, 605: 沪市主板
+ * - 688, 689: 科创板
+ * - 900: 沪市B股
+ * - 510-518, 520, 560-563: 沪市ETF；588, 589: 科创板ETF
+ * - 501, 502, 506: 沪市LOF
+ * - 110, 111, 113, 118: 沪市可转债
+ *
+ * 【深圳证券交易所】(eastmoneyId: 0)
+ * - 000, 001: 深市主板
+ * - 002, 003: 中小板
+ * - 300, 301, 302: 创业板
+ * - 200, 201: 深市B股
+ * - 159: 深市ETF
+ * - 160-169: 深市LOF
+ * - 123, 127, 128: 深市可转债
+ *
+ * 【北京证券交易所】(eastmoneyId: 0)
+ * - 920: 北交所
+ * - 43, 83, 87, 88: 北交所旧代码（迁移至 920 前）
+ *
+ * 指数代码与股票代码存在重叠（000001 既是平安银行也是上证指数），需通过 getIndexIdentity 单独解析。
+ */
+const PREFIX_RULES: PrefixRule[] = [
+    // 上海证券交易所
+    stockRule(['600', '601', '603', '605'], 'SH', '沪市主板', 0.1),
+    stockRule(['688', '689'], 'SH', '科创板', 0.2),
+    stockRule(['900'], 'SH', '沪市B股', 0.1, 0.001),
+    fundRule(['510', '511', '512', '513', '515', '516', '517', '518', '520', '560', '561', '562', '563'], 'etf', 'SH', '沪市ETF'),
+    fundRule(['588', '589'], 'etf', 'SH', '科创板ETF', 0.2),
+    fundRule(['501', '502', '506'], 'lof', 'SH', '沪市LOF'),
+    convertibleBondRule(['110', '111', '113', '118'], 'SH', '沪市可转债'),
+
+    // 深圳证券交易所
+    stockRule(['000', '001'], 'SZ', '深市主板', 0.1),
+    stockRule(['002', '003'], 'SZ', '中小板', 0.1),
+    stockRule(['300', '301', '302'], 'SZ', '创业板', 0.2),
+    stockRule(['200', '201'], 'SZ', '深市B股', 0.1),
+    fundRule(['159'], 'etf', 'SZ', '深市ETF'),
+    fundRule(['16'], 'lof', 'SZ', '深市LOF'),
+    convertibleBondRule(['123', '127', '128'], 'SZ', '深市可转债'),
+
+    // 北京证券交易所
+    stockRule(['920', '43', '83', '87', '88'], 'BJ', '北交所', 0.3),
+];
+
+const UNKNOWN_IDENTITY: SecurityIdentity = {
+    type: 'unknown',
+    exchange: null,
+    board: '未知板块',
+    eastmoneyId: 1,
+    priceTick: 0.01,
+    lotSize: 100,
+    limitRatio: null,
+};
+
+const indexIdentity = (exchange: SecurityExchange | null, board: string, eastmoneyId: 0 | 1 | 2): SecurityIdentity => ({
+    type: 'index',
+    exchange,
+    board,
+    eastmoneyId,
+    priceTick: 0.01,
+    lotSize: 100,
+    limitRatio: null,
+});
+
+/**
+ * 根据 6 位代码解析证券类型、交易所、板块及交易规则
+ * 无法识别的代码段返回 type = 'unknown'，调用方应先通过 validator 校验
+ * @param symbol 6位证券代码
+ */
+export function getSecurityIdentity(symbol: string): SecurityIdentity {
+    if (!/^\d{6}$/.test(symbol)) return UNKNOWN_IDENTITY;
+
+    for (const rule of PREFIX_RULES) {
+        if (rule.prefixes.some(prefix => symbol.startsWith(prefix))) {
+            return rule.identity;
+        }
+    }
+
+    return UNKNOWN_IDENTITY;
+}
+
+/**
+ * 解析 A 股指数代码
+ * - 000: 上证 / 中证系列（沪市发布，secid 1）
+ * - 399: 深证系列（secid 0）
+ * - 899: 北证系列（secid 0）
+ * - 93: 中证指数公司独立发布指数（secid 2）
+ * @returns 无法识别时返回 null
+ */
+export function getIndexIdentity(symbol: string): SecurityIdentity | null {
+    if (!/^\d{6}$/.test(symbol)) return null;
+    if (symbol.startsWith('000')) return indexIdentity('SH', '沪市指数', 1);
+    if (symbol.startsWith('399')) return indexIdentity('SZ', '深市指数', 0);
+    if (symbol.startsWith('899')) return indexIdentity('BJ', '北证指数', 0);
+    if (symbol.startsWith('93')) return indexIdentity(null, '中证指数', 2);
+    return null;
+}
+
+/**
+ * 东方财富 secid（如 1.600519 / 0.159915）
+ */
+export function getEastmoneySecid(symbol: string): string {
+    return `${getSecurityIdentity(symbol).eastmoneyId}.${symbol}`;
+}
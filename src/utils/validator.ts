@@ -1,12 +1,51 @@
+import { getIndexIdentity, getSecurityIdentity } from './security';
+
 /**
  * A股代码校验工具
  */
 
 /**
- * 校验 A 股股票代码格式（6位数字）
+ * 校验 A 股股票代码（6位数字，且属于已知股票代码段：沪深主板 / 科创板 / 创业板 / 北交所 / B股）
  */
 export function isValidAShareSymbol(symbol: string): boolean {
-    return /^\d{6}$/.test(symbol);
+    return getSecurityIdentity(symbol).type === 'stock';
+}
+
+/**
+ * 校验场内基金代码（ETF / LOF）
+ */
+export function isValidFundSymbol(symbol: string): boolean {
+    const { type } = getSecurityIdentity(symbol);
+    return type === 'etf' || type === 'lof';
+}
+
+/**
+ * 校验基金代码格式（6位数字，场外基金代码不区分代码段）
+ */
+export function isValidFundCode(code: string): boolean {
+    return /^\d{6}$/.test(code);
+}
+
+/**
+ * 校验可转债代码
+ */
+export function isValidConvertibleBondSymbol(symbol: string): boolean {
+    return getSecurityIdentity(symbol).type === 'convertible_bond';
+}
+
+/**
+ * 校验可交易证券代码（股票 / ETF / LOF / 可转债），用于行情类接口
+ */
+export function isValidSecuritySymbol(symbol: string): boolean {
+    const { type } = getSecurityIdentity(symbol);
+    return type !== 'unknown' && type !== 'index';
+}
+
+/**
+ * 校验 A 股指数代码（000 / 399 / 899 / 93 开头）
+ */
+export function isValidIndexSymbol(symbol: string): boolean {
+    return getIndexIdentity(symbol) !== null;
 }
 
 /**